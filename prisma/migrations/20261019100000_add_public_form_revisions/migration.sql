@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "Case" ADD COLUMN     "publicFormRevisionId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "PublicFormRevision" (
+    "id" SERIAL NOT NULL,
+    "publicFormId" INTEGER NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "configVersion" TEXT NOT NULL,
+    "config" JSONB NOT NULL,
+    "diff" JSONB,
+    "action" TEXT NOT NULL,
+    "createdByUserId" INTEGER,
+    "rolledBackFromRevisionId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PublicFormRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PublicFormRevision_publicFormId_revision_key" ON "PublicFormRevision"("publicFormId", "revision");
+
+-- AddForeignKey
+ALTER TABLE "Case" ADD CONSTRAINT "Case_publicFormRevisionId_fkey" FOREIGN KEY ("publicFormRevisionId") REFERENCES "PublicFormRevision"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PublicFormRevision" ADD CONSTRAINT "PublicFormRevision_publicFormId_fkey" FOREIGN KEY ("publicFormId") REFERENCES "PublicForm"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PublicFormRevision" ADD CONSTRAINT "PublicFormRevision_createdByUserId_fkey" FOREIGN KEY ("createdByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: baseline revision for every form that already has a config
+INSERT INTO "PublicFormRevision" ("publicFormId", "revision", "configVersion", "config", "action", "createdAt")
+SELECT "id", 1, COALESCE("config"->>'configVersion', '1'), "config", 'initial', CURRENT_TIMESTAMP
+FROM "PublicForm"
+WHERE "config" IS NOT NULL;
@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "Submission" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "publicFormId" INTEGER NOT NULL,
+    "publicFormRevisionId" INTEGER,
+    "caseId" INTEGER,
+    "contactId" INTEGER,
+    "transactionId" INTEGER,
+    "payload" JSONB NOT NULL,
+    "origin" TEXT,
+    "referer" TEXT,
+    "userAgent" TEXT,
+    "ipHash" TEXT,
+    "clientRequestId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Submission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Submission_projectId_publicFormId_createdAt_idx" ON "Submission"("projectId", "publicFormId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Submission_caseId_idx" ON "Submission"("caseId");
+
+-- CreateIndex
+CREATE INDEX "Submission_contactId_idx" ON "Submission"("contactId");
+
+-- AddForeignKey
+ALTER TABLE "Submission" ADD CONSTRAINT "Submission_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Submission" ADD CONSTRAINT "Submission_publicFormId_fkey" FOREIGN KEY ("publicFormId") REFERENCES "PublicForm"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Submission" ADD CONSTRAINT "Submission_publicFormRevisionId_fkey" FOREIGN KEY ("publicFormRevisionId") REFERENCES "PublicFormRevision"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Submission" ADD CONSTRAINT "Submission_caseId_fkey" FOREIGN KEY ("caseId") REFERENCES "Case"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Submission" ADD CONSTRAINT "Submission_contactId_fkey" FOREIGN KEY ("contactId") REFERENCES "Contact"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Submission" ADD CONSTRAINT "Submission_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "AuditLog" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "actorType" TEXT NOT NULL,
+    "actorUserId" INTEGER,
+    "actorApiKeyId" INTEGER,
+    "actorLabel" TEXT,
+    "entityType" TEXT NOT NULL,
+    "entityId" INTEGER,
+    "action" TEXT NOT NULL,
+    "changes" JSONB,
+    "requestId" TEXT,
+    "ip" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AuditLog_projectId_id_idx" ON "AuditLog"("projectId", "id");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_projectId_entityType_entityId_idx" ON "AuditLog"("projectId", "entityType", "entityId");
+
+-- AddForeignKey
+ALTER TABLE "AuditLog" ADD CONSTRAINT "AuditLog_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
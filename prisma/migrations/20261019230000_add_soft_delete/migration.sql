@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Case" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Contact" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Case_projectId_deletedAt_idx" ON "Case"("projectId", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Contact_projectId_deletedAt_idx" ON "Contact"("projectId", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Transaction_projectId_deletedAt_idx" ON "Transaction"("projectId", "deletedAt");
@@ -50,6 +50,14 @@
     document.head.appendChild(style);
   }
 
+  // ISO (UTC) -> value for <input type="datetime-local"> in the visitor's timezone
+  function toLocalDateTime(iso) {
+    var d = new Date(iso);
+    if (isNaN(d.getTime())) return '';
+    function p(n) { return (n < 10 ? '0' : '') + n; }
+    return d.getFullYear() + '-' + p(d.getMonth() + 1) + '-' + p(d.getDate()) + 'T' + p(d.getHours()) + ':' + p(d.getMinutes());
+  }
+
   function normFormType(s) {
     s = (s || '').toLowerCase().trim();
     if (s === 'lead' || s === 'feedback' || s === 'donation' || s === 'booking') return s;
@@ -114,7 +122,7 @@
     msg.className = 'mini-crm-message';
     msg.textContent = '';
 
-    var fieldEls = {}; // name -> { input, err }
+    var fieldEls = {}; // name -> { input, err, def, wrap, label }
 
     function addErrorEl(wrap) {
       var e = document.createElement('div');
@@ -141,21 +149,47 @@
       var el;
       if (type === 'textarea') {
         el = document.createElement('textarea');
-      } else if (type === 'select') {
+      } else if (type === 'select' || type === 'multiselect') {
         el = document.createElement('select');
+        if (type === 'multiselect') el.multiple = true;
+      } else if (type === 'radio') {
+        // Radio group: fieldset.disabled toggles all options at once
+        el = document.createElement('fieldset');
+        el.style.border = '0';
+        el.style.padding = '0';
+        el.style.margin = '0';
+        (def.options || []).forEach(function (o) {
+          var rl = document.createElement('label');
+          rl.style.display = 'block';
+          rl.style.fontWeight = 'normal';
+          var r = document.createElement('input');
+          r.type = 'radio';
+          r.name = name;
+          r.value = o.value != null ? String(o.value) : '';
+          if (required) r.required = true;
+          rl.appendChild(r);
+          rl.appendChild(document.createTextNode(' ' + (o.label != null ? String(o.label) : r.value)));
+          el.appendChild(rl);
+        });
       } else {
         el = document.createElement('input');
         if (type === 'amount' || type === 'number') {
           el.type = 'number';
         } else if (type === 'checkbox') {
           el.type = 'checkbox';
+        } else if (type === 'datetime') {
+          el.type = 'datetime-local';
         } else {
           el.type = type || 'text';
         }
       }
-      el.name = name;
-      if (placeholder && el.type !== 'checkbox') el.placeholder = placeholder;
-      if (required) el.required = true;
+      if (el.tagName !== 'FIELDSET') el.name = name;
+      if (placeholder && el.type !== 'checkbox' && el.tagName === 'INPUT') el.placeholder = placeholder;
+      if (required && el.tagName !== 'FIELDSET') el.required = true;
+      if (type === 'date' && def.minDate) el.min = String(def.minDate);
+      if (type === 'date' && def.maxDate) el.max = String(def.maxDate);
+      if (type === 'datetime' && def.minDate) el.min = toLocalDateTime(def.minDate);
+      if (type === 'datetime' && def.maxDate) el.max = toLocalDateTime(def.maxDate);
       if (def.min != null && el.type === 'number') el.min = String(def.min);
       if (def.max != null && el.type === 'number') el.max = String(def.max);
       if (def.pattern && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA')) {
@@ -189,7 +223,7 @@
       }
 
       var errEl = addErrorEl(wrap);
-      fieldEls[name] = { input: el, err: errEl, def: def };
+      fieldEls[name] = { input: el, err: errEl, def: def, wrap: wrap, label: l };
       return { wrap: wrap, input: el, err: errEl };
     }
 
@@ -217,6 +251,86 @@
       form.appendChild(field(d).wrap);
     });
 
+    // Conditional rules (rules.conditional): show/hide and require fields based on other values.
+    // Same semantics as the server: hidden fields are not sent and count as empty.
+    var conditional = (cfg && cfg.rules && cfg.rules.conditional) || [];
+
+    function isFilled(v) {
+      if (v == null || v === false) return false;
+      if (typeof v === 'string') return v.trim() !== '';
+      if (typeof v === 'number') return !isNaN(v);
+      return true;
+    }
+
+    function looseEquals(a, b) {
+      if (a === b) return true;
+      if (a == null || b == null) return false;
+      return String(a) === String(b);
+    }
+
+    function matchesCondition(when, v) {
+      var hasOp = when.equals !== undefined || when.notEquals !== undefined || Array.isArray(when['in']);
+      var filled = when.filled !== undefined ? when.filled : (hasOp ? undefined : true);
+      if (filled !== undefined && isFilled(v) !== filled) return false;
+      if (when.equals !== undefined && !looseEquals(v, when.equals)) return false;
+      if (when.notEquals !== undefined && looseEquals(v, when.notEquals)) return false;
+      if (Array.isArray(when['in']) && !when['in'].some(function (x) { return looseEquals(v, x); })) return false;
+      return true;
+    }
+
+    function computeConditions() {
+      var visible = {};
+
+      function isVisible(name, stack) {
+        if (visible[name] !== undefined) return visible[name];
+        var show = conditional.filter(function (r) { return r && r.field === name && r.action === 'show'; });
+        if (!show.length) return true;
+        if (stack.indexOf(name) !== -1) return false;
+        var res = show.every(function (r) { return holds(r.when || {}, stack.concat([name])); });
+        visible[name] = res;
+        return res;
+      }
+
+      function holds(when, stack) {
+        var fe = fieldEls[when.field];
+        var v = fe && isVisible(when.field, stack) ? getValueForDef(fe.def, fe.input) : undefined;
+        return matchesCondition(when, v);
+      }
+
+      var out = {};
+      Object.keys(fieldEls).forEach(function (k) {
+        if (k === 'website') return;
+        var fe = fieldEls[k];
+        var required = !!fe.def.required || conditional.some(function (r) {
+          return r && r.field === k && r.action === 'require' && holds(r.when || {}, []);
+        });
+        out[k] = { visible: isVisible(k, []), required: required };
+      });
+      return out;
+    }
+
+    function applyConditions() {
+      if (!conditional.length) return;
+      var state = computeConditions();
+      Object.keys(state).forEach(function (k) {
+        var fe = fieldEls[k];
+        var st = state[k];
+        fe.wrap.className = 'mini-crm-field' + (st.visible ? '' : ' mini-crm-hidden');
+        // Disabled controls are skipped by FormData and HTML5 validation.
+        fe.input.disabled = !st.visible;
+        if (fe.input.tagName === 'FIELDSET') {
+          var radios = fe.input.querySelectorAll('input[type="radio"]');
+          for (var i = 0; i < radios.length; i++) radios[i].required = st.required;
+        } else if (fe.input.type !== 'checkbox') {
+          fe.input.required = st.required;
+        }
+        fe.label.textContent = (fe.def.label || fe.def.name) + (st.required ? ' *' : '');
+      });
+    }
+
+    form.addEventListener('input', applyConditions);
+    form.addEventListener('change', applyConditions);
+
     var submit = document.createElement('button');
     submit.type = 'submit';
     submit.className = 'mini-crm-submit';
@@ -225,6 +339,7 @@
     form.appendChild(msg);
 
     bodyEl.appendChild(form);
+    applyConditions();
 
     function setMessage(text, isErr) {
       msg.textContent = text || '';
@@ -248,10 +363,24 @@
     }
 
     function getValueForDef(def, el) {
+      // Radio groups / multiselects are read from the rendered control, not form.elements
+      var own = fieldEls[def.name];
+      if (own && (def.type === 'radio' || def.type === 'multiselect')) el = own.input;
       if (!el) return null;
       if (def.type === 'checkbox') {
         return !!el.checked;
       }
+      if (def.type === 'multiselect') {
+        var selected = [];
+        for (var i = 0; i < el.options.length; i++) {
+          if (el.options[i].selected && el.options[i].value) selected.push(el.options[i].value);
+        }
+        return selected;
+      }
+      if (def.type === 'radio') {
+        var checked = el.querySelector('input[type="radio"]:checked');
+        return checked ? String(checked.value) : '';
+      }
       var s = (el.value == null ? '' : String(el.value)).trim();
       if (!s) return '';
       if (def.type === 'amount' || def.type === 'number') {
@@ -259,6 +388,11 @@
         if (!isFinite(n)) return s;
         return n;
       }
+      if (def.type === 'datetime') {
+        // datetime-local has no offset: send UTC ISO so the server stores the moment the user meant
+        var d = new Date(s);
+        return isNaN(d.getTime()) ? s : d.toISOString();
+      }
       return s;
     }
 
@@ -272,6 +406,15 @@
         var fe = fieldEls[k];
         var el = fe.input;
         if (!el || el.type === 'checkbox') return;
+        if (el.tagName === 'FIELDSET') {
+          // Fieldsets are not validated by the browser; check the radio group manually
+          var radio = el.querySelector('input[type="radio"]');
+          if (!el.disabled && radio && radio.required && !getValueForDef(fe.def, el)) {
+            ok = false;
+            setFieldError(k, 'Оберіть один з варіантів');
+          }
+          return;
+        }
         if (typeof el.checkValidity === 'function' && !el.checkValidity()) {
           ok = false;
           // Use validationMessage when available
@@ -311,6 +454,7 @@
       ,setFieldError: setFieldError
       ,getValueForDef: getValueForDef
       ,validateClient: validateClient
+      ,isHidden: function (name) { return !!(fieldEls[name] && fieldEls[name].input.disabled); }
     };
   }
 
@@ -469,6 +613,8 @@
       var defs = (loadedCfg && loadedCfg.fields) ? loadedCfg.fields : [];
       defs.forEach(function (d) {
         if (!d || !d.name || d.name === 'website') return;
+        // Hidden by a conditional rule
+        if (ui.isHidden && ui.isHidden(d.name)) return;
         var fe = ui.getValueForDef ? ui.getValueForDef(d, ui.form.elements[d.name]) : null;
         if (d.type === 'checkbox') {
           // Always send boolean for checkbox
@@ -482,6 +628,10 @@
           payload[d.name] = s;
           return;
         }
+        if (Array.isArray(fe)) {
+          if (fe.length) payload[d.name] = fe;
+          return;
+        }
         // number/amount
         payload[d.name] = fe;
       });
@@ -0,0 +1,293 @@
+#!/usr/bin/env bash
+set -euo pipefail
+
+# Mini CRM Core - Data regression checks (contacts list, import, trash, merge, export, webhooks, bookings)
+#
+# Requirements:
+# - bash, curl, node (for JSON parsing)
+# - a running API server and an owner account on a dev database
+#   (the script creates contacts, cases and bookings named "smoke-..." and a webhook it deletes again)
+#
+# Usage example:
+#   BASE="http://localhost:4000" \
+#   EMAIL="owner@example.com" \
+#   PASSWORD="secret123" \
+#   SLUG="volunteers-odesa-dev" \
+#   PROJECT_KEY="..." \
+#   ORIGIN="http://localhost:8080" \
+#   BOOKING_SERVICE="consultation" \
+#   ./scripts/data-smoke.sh
+#
+# Notes:
+# - SLUG/PROJECT_KEY/BOOKING_SERVICE are optional; without them the booking check is skipped.
+
+BASE="${BASE:-http://localhost:4000}"
+ORIGIN="${ORIGIN:-http://localhost:8080}"
+SLUG="${SLUG:-}"
+PROJECT_KEY="${PROJECT_KEY:-}"
+EMAIL="${EMAIL:-}"
+PASSWORD="${PASSWORD:-}"
+BOOKING_SERVICE="${BOOKING_SERVICE:-}"
+
+die() { echo "ERROR: $*" >&2; exit 1; }
+need() { [[ -n "${!1}" ]] || die "Missing env var: $1"; }
+
+json_get() {
+  # json_get '<json>' 'path.to.field'
+  node -e "const obj=JSON.parse(process.argv[1]); const path=process.argv[2].split('.'); let v=obj; for(const p of path){ if(v==null){process.exit(2)}; v=v[p]; } if (v===undefined) process.exit(2); if (typeof v==='string') process.stdout.write(v); else process.stdout.write(JSON.stringify(v));" "$1" "$2"
+}
+
+http() {
+  # http METHOD URL [DATA] [curl args...]
+  local method="$1"; shift
+  local url="$1"; shift
+  local data="${1:-}"
+  [[ $# -gt 0 ]] && shift
+
+  local body_file
+  body_file="$(mktemp)"
+  local code
+
+  if [[ -n "$data" ]]; then
+    code="$(curl -sS -o "$body_file" -w "%{http_code}" -X "$method" "$url" \
+      -H "Content-Type: application/json" \
+      "$@" \
+      --data "$data")"
+  else
+    code="$(curl -sS -o "$body_file" -w "%{http_code}" -X "$method" "$url" "$@")"
+  fi
+
+  echo "$code $body_file"
+}
+
+expect_code() {
+  local got="$1" want="$2" msg="$3"
+  if [[ "$got" != "$want" ]]; then
+    die "$msg (expected $want, got $got)"
+  fi
+}
+
+import_csv() {
+  # import_csv CSV_FILE QUERY -> "code bodyfile" of POST /contacts/import?QUERY
+  local body_file code
+  body_file="$(mktemp)"
+  code="$(curl -sS -o "$body_file" -w "%{http_code}" -X POST "$BASE/contacts/import?$2" \
+    "${auth[@]}" -H "Content-Type: text/csv" --data-binary "@$1")"
+  echo "$code $body_file"
+}
+
+import_rows() {
+  # import_rows '<import response json>' -> "row:status ..." in file order
+  node -e "process.stdout.write(JSON.parse(process.argv[1]).rows.map((r)=>r.row+':'+r.status).join(' '))" "$1"
+}
+
+count_items() {
+  # count_items '<json with items>' -> number of items
+  node -e "process.stdout.write(String(JSON.parse(process.argv[1]).items.length))" "$1"
+}
+
+need EMAIL
+need PASSWORD
+
+read -r code body < <(http POST "$BASE/auth/login" "{\"email\":\"$EMAIL\",\"password\":\"$PASSWORD\"}")
+expect_code "$code" "200" "Login failed"
+token="$(json_get "$(cat "$body")" "token")" || die "Cannot read token from login response"
+rm -f "$body"
+auth=(-H "Authorization: Bearer $token")
+run_id="smoke-$(date +%s)-$$"
+
+echo "== Data: GET /contacts without parameters keeps the array response =="
+headers="$(mktemp)"
+read -r code body < <(http GET "$BASE/contacts" "" "${auth[@]}" -D "$headers")
+expect_code "$code" "200" "GET /contacts failed"
+node -e "const v=JSON.parse(require('fs').readFileSync(process.argv[1],'utf8')); if(!Array.isArray(v)||v.length>1000) process.exit(1)" "$body" \
+  || die "Expected an array of at most 1000 contacts, got: $(head -c 200 "$body")"
+grep -qi "^x-total-count: [0-9]" "$headers" || die "Missing X-Total-Count header"
+rm -f "$body" "$headers"
+
+read -r code body < <(http GET "$BASE/contacts?limit=1" "" "${auth[@]}")
+expect_code "$code" "200" "GET /contacts?limit=1 failed"
+json_get "$(cat "$body")" "total" >/dev/null || die "Expected { items, nextCursor, total } with limit, got: $(cat "$body")"
+rm -f "$body"
+echo "OK"
+
+echo
+echo "== Data: a cursor whose date is not a date is rejected =="
+bad_cursor="$(node -e "process.stdout.write(Buffer.from(JSON.stringify({v:'x',id:1})).toString('base64url'))")"
+read -r code body < <(http GET "$BASE/contacts?limit=10&cursor=$bad_cursor" "" "${auth[@]}")
+expect_code "$code" "400" "Cursor with an invalid date should be rejected"
+grep -q "Invalid cursor" "$body" || die "Expected 'Invalid cursor', got: $(cat "$body")"
+rm -f "$body"
+echo "OK"
+
+echo
+echo "== Data: a date-only dateTo includes the whole day =="
+read -r code body < <(http POST "$BASE/contacts" "{\"name\":\"$run_id-date\"}" "${auth[@]}")
+expect_code "$code" "201" "Creating a contact failed"
+date_contact="$(json_get "$(cat "$body")" "id")"
+rm -f "$body"
+today="$(date -u +%Y-%m-%d)"
+read -r code body < <(http GET "$BASE/contacts?q=$run_id-date&dateFrom=$today&dateTo=$today" "" "${auth[@]}")
+expect_code "$code" "200" "Filtering contacts by date failed"
+[[ "$(json_get "$(cat "$body")" "total")" == "1" ]] || die "dateTo=$today should include a contact created today, got: $(cat "$body")"
+rm -f "$body"
+read -r code body < <(http DELETE "$BASE/contacts/$date_contact" "" "${auth[@]}")
+expect_code "$code" "204" "Deleting the test contact failed"
+rm -f "$body"
+echo "OK"
+
+echo
+echo "== Data: CSV import dry run matches the real import and saves nothing =="
+read -r code body < <(http POST "$BASE/webhooks" \
+  "{\"url\":\"https://example.invalid/$run_id\",\"events\":[\"contact.created\",\"case.updated\"],\"description\":\"$run_id\"}" \
+  "${auth[@]}")
+expect_code "$code" "201" "Creating a webhook endpoint failed"
+webhook_id="$(json_get "$(cat "$body")" "id")"
+rm -f "$body"
+
+phone="+38050$(date +%s | tail -c 8)"
+csv="$(mktemp)"
+# The quoted note spans lines 2-3, so the following records start on lines 4, 5 and 6.
+printf 'Name,Email,Phone,Notes\n"%s","%s",,"first line\nsecond line"\n%s,not-an-email,,\n%s,%s,,\n%s,%s,%s,\n' \
+  "$run_id-a" "$run_id-a@example.invalid" \
+  "$run_id-b" \
+  "$run_id-c" "$run_id-c@example.invalid" \
+  "$run_id-a" "$run_id-a@example.invalid" "$phone" >"$csv"
+expected_rows="2:created 4:invalid 5:created 6:updated"
+
+read -r code body < <(import_csv "$csv" "dryRun=true")
+expect_code "$code" "200" "Import dry run failed"
+[[ "$(import_rows "$(cat "$body")")" == "$expected_rows" ]] ||
+  die "Dry run should report $expected_rows, got: $(cat "$body")"
+rm -f "$body"
+read -r code body < <(http GET "$BASE/contacts?q=$run_id&limit=10" "" "${auth[@]}")
+[[ "$(json_get "$(cat "$body")" "total")" == "0" ]] || die "Dry run saved contacts: $(cat "$body")"
+rm -f "$body"
+read -r code body < <(http GET "$BASE/webhooks/$webhook_id/deliveries?event=contact.created" "" "${auth[@]}")
+[[ "$(count_items "$(cat "$body")")" == "0" ]] || die "Dry run queued webhooks: $(cat "$body")"
+rm -f "$body"
+
+read -r code body < <(import_csv "$csv" "")
+expect_code "$code" "200" "Import failed"
+import_json="$(cat "$body")"
+rm -f "$body" "$csv"
+[[ "$(import_rows "$import_json")" == "$expected_rows" ]] || die "Import should report $expected_rows, got: $import_json"
+[[ "$(json_get "$import_json" "completed")" == "true" ]] || die "Import did not complete: $import_json"
+contact_a="$(node -e "process.stdout.write(String(JSON.parse(process.argv[1]).rows[3].contactId))" "$import_json")"
+read -r code body < <(http GET "$BASE/contacts?q=$run_id-c&limit=1" "" "${auth[@]}")
+contact_c="$(node -e "process.stdout.write(String(JSON.parse(process.argv[1]).items[0].id))" "$(cat "$body")")" ||
+  die "Imported contact not found: $(cat "$body")"
+rm -f "$body"
+read -r code body < <(http GET "$BASE/webhooks/$webhook_id/deliveries?event=contact.created" "" "${auth[@]}")
+[[ "$(count_items "$(cat "$body")")" == "2" ]] || die "Expected 2 contact.created deliveries, got: $(cat "$body")"
+rm -f "$body"
+echo "OK"
+
+echo
+echo "== Data: an imported row restores a trashed contact =="
+read -r code body < <(http DELETE "$BASE/contacts/$contact_c" "" "${auth[@]}")
+expect_code "$code" "204" "Deleting a contact failed"
+rm -f "$body"
+read -r code body < <(http GET "$BASE/contacts/trash?limit=200" "" "${auth[@]}")
+node -e "if(!JSON.parse(process.argv[1]).items.some((c)=>c.id===Number(process.argv[2])&&c.purgeAt)) process.exit(1)" "$(cat "$body")" "$contact_c" ||
+  die "Deleted contact $contact_c is not in trash"
+rm -f "$body"
+read -r code body < <(http POST "$BASE/contacts" "{\"name\":\"$run_id-c2\",\"email\":\"$run_id-c@example.invalid\"}" "${auth[@]}")
+expect_code "$code" "409" "A trashed contact's email should stay taken"
+rm -f "$body"
+csv="$(mktemp)"
+printf 'Name,Email\n%s,%s\n' "$run_id-c" "$run_id-c@example.invalid" >"$csv"
+read -r code body < <(import_csv "$csv" "")
+expect_code "$code" "200" "Import failed"
+[[ "$(import_rows "$(cat "$body")")" == "2:restored" ]] || die "Expected the row to restore the contact, got: $(cat "$body")"
+rm -f "$body" "$csv"
+read -r code body < <(http GET "$BASE/contacts/$contact_c" "" "${auth[@]}")
+expect_code "$code" "200" "Restored contact should be readable"
+rm -f "$body"
+echo "OK"
+
+echo
+echo "== Data: merging moves cases and deletes the duplicate =="
+read -r code body < <(http POST "$BASE/cases" "{\"title\":\"$run_id case\",\"contactId\":$contact_c}" "${auth[@]}")
+expect_code "$code" "201" "Creating a case failed"
+rm -f "$body"
+read -r code body < <(http POST "$BASE/contacts/merge" "{\"survivorId\":$contact_a,\"duplicateId\":$contact_c}" "${auth[@]}")
+expect_code "$code" "200" "Merging contacts failed"
+[[ "$(json_get "$(cat "$body")" "moved.cases")" == "1" ]] || die "Expected one moved case, got: $(cat "$body")"
+rm -f "$body"
+read -r code body < <(http GET "$BASE/contacts/$contact_c" "" "${auth[@]}")
+expect_code "$code" "404" "The merged duplicate should be gone"
+rm -f "$body"
+read -r code body < <(http GET "$BASE/webhooks/$webhook_id/deliveries?event=case.updated" "" "${auth[@]}")
+[[ "$(count_items "$(cat "$body")")" == "1" ]] || die "Expected a case.updated delivery for the moved case, got: $(cat "$body")"
+rm -f "$body"
+echo "OK"
+
+read -r code body < <(http DELETE "$BASE/webhooks/$webhook_id" "" "${auth[@]}")
+rm -f "$body"
+
+echo
+echo "== Data: CSV export escapes formula-like cells but not phone numbers =="
+read -r code body < <(http POST "$BASE/contacts" \
+  "{\"name\":\"=$run_id-formula\",\"phone\":\"+38067$(date +%s | tail -c 8)\",\"notes\":\"-2+3\"}" "${auth[@]}")
+expect_code "$code" "201" "Creating a contact failed"
+formula_phone="$(json_get "$(cat "$body")" "phone")"
+rm -f "$body"
+read -r code body < <(http GET "$BASE/contacts/export?format=csv&q=$run_id-formula" "" "${auth[@]}")
+expect_code "$code" "200" "CSV export failed"
+grep -qF "'=$run_id-formula" "$body" || die "Name starting with = should be prefixed with ', got: $(cat "$body")"
+grep -qF "'-2+3" "$body" || die "Notes -2+3 should be prefixed with ', got: $(cat "$body")"
+grep -qF ",$formula_phone," "$body" || die "Phone $formula_phone should be exported as is, got: $(cat "$body")"
+rm -f "$body"
+echo "OK"
+
+echo
+echo "== Data: a trashed case releases its booking; restoring it into a full slot cancels it =="
+if [[ -z "$BOOKING_SERVICE" || -z "$SLUG" || -z "$PROJECT_KEY" ]]; then
+  echo "SKIP: BOOKING_SERVICE/SLUG/PROJECT_KEY not provided"
+  echo
+  echo "ALL DONE"
+  exit 0
+fi
+
+book() {
+  # book NAME DATE TIME -> "code bodyfile" of the public booking form
+  http POST "$BASE/public/forms/$SLUG/booking" \
+    "{\"name\":\"$1\",\"email\":\"$1@example.invalid\",\"service\":\"$BOOKING_SERVICE\",\"date\":\"$2\",\"time\":\"$3\"}" \
+    -H "X-Project-Key: $PROJECT_KEY" -H "Origin: $ORIGIN"
+}
+
+from="$(node -e "process.stdout.write(new Date(Date.now()+86400000).toISOString().slice(0,10))")"
+to="$(node -e "process.stdout.write(new Date(Date.now()+14*86400000).toISOString().slice(0,10))")"
+read -r code body < <(http GET "$BASE/public/forms/$SLUG/booking/slots?service=$BOOKING_SERVICE&from=$from&to=$to" "" \
+  -H "X-Project-Key: $PROJECT_KEY" -H "Origin: $ORIGIN")
+expect_code "$code" "200" "Loading booking slots failed"
+slot="$(node -e "
+const {days}=JSON.parse(process.argv[1]);
+for (const d of days) for (const s of d.slots) if (s.remaining>0&&s.remaining<=3) { process.stdout.write(d.date+' '+s.time+' '+s.remaining); process.exit(0); }
+process.exit(2);" "$(cat "$body")")" || die "No free slot with capacity <= 3 in the next two weeks"
+rm -f "$body"
+read -r slot_date slot_time slot_remaining <<<"$slot"
+
+first_case=""
+for i in $(seq 1 "$slot_remaining"); do
+  read -r code body < <(book "$run_id-booking-$i" "$slot_date" "$slot_time")
+  expect_code "$code" "201" "Booking $i of $slot_remaining failed"
+  [[ -n "$first_case" ]] || first_case="$(json_get "$(cat "$body")" "case.id")"
+  rm -f "$body"
+done
+read -r code body < <(http DELETE "$BASE/cases/$first_case" "" "${auth[@]}")
+expect_code "$code" "204" "Deleting the booked case failed"
+rm -f "$body"
+read -r code body < <(book "$run_id-booking-late" "$slot_date" "$slot_time")
+expect_code "$code" "201" "The trashed case's place should be free again"
+rm -f "$body"
+read -r code body < <(http POST "$BASE/cases/$first_case/restore" "" "${auth[@]}")
+expect_code "$code" "200" "Restoring the case failed"
+[[ "$(json_get "$(cat "$body")" "booking.status")" == "cancelled" ]] ||
+  die "The slot is full again, so the restored booking should be cancelled, got: $(cat "$body")"
+rm -f "$body"
+echo "OK ($slot_date $slot_time)"
+
+echo
+echo "ALL DONE"
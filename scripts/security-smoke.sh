@@ -0,0 +1,328 @@
+#!/usr/bin/env bash
+set -euo pipefail
+
+# Mini CRM Core - Security regression checks
+#
+# Requirements:
+# - bash, curl, node (for JSON parsing and TOTP codes)
+# - a running API server and a throwaway owner account WITHOUT two-factor auth
+#   (the script enables/disables 2FA and changes the password and back)
+#
+# Usage example:
+#   BASE="http://localhost:4000" \
+#   EMAIL="owner@example.com" \
+#   PASSWORD="secret123" \
+#   SLUG="volunteers-odesa-dev" \
+#   PROJECT_KEY="..." \
+#   ORIGIN="http://localhost:8080" \
+#   BOOKING_SERVICE="consultation" \
+#   ./scripts/security-smoke.sh
+#
+# Notes:
+# - Failed sign-ins and password reset requests count against this IP: run it at most once per
+#   15 minutes (or restart with a clean LoginThrottle table) against the same server.
+# - BOOKING_SERVICE is optional; without it the double-booking check is skipped.
+
+BASE="${BASE:-http://localhost:4000}"
+ORIGIN="${ORIGIN:-http://localhost:8080}"
+SLUG="${SLUG:-}"
+PROJECT_KEY="${PROJECT_KEY:-}"
+EMAIL="${EMAIL:-}"
+PASSWORD="${PASSWORD:-}"
+BOOKING_SERVICE="${BOOKING_SERVICE:-}"
+LOCKOUT_THRESHOLD="${LOGIN_LOCKOUT_THRESHOLD:-10}"
+RESET_IP_MAX="${PASSWORD_RESET_IP_RL_MAX:-10}"
+
+die() { echo "ERROR: $*" >&2; exit 1; }
+need() { [[ -n "${!1}" ]] || die "Missing env var: $1"; }
+
+json_get() {
+  # json_get '<json>' 'path.to.field'
+  node -e "const obj=JSON.parse(process.argv[1]); const path=process.argv[2].split('.'); let v=obj; for(const p of path){ if(v==null){process.exit(2)}; v=v[p]; } if (v===undefined) process.exit(2); if (typeof v==='string') process.stdout.write(v); else process.stdout.write(JSON.stringify(v));" "$1" "$2"
+}
+
+totp() {
+  # totp BASE32_SECRET -> current RFC 6238 code (SHA-1, 6 digits, 30 s)
+  node -e "
+const crypto=require('crypto');
+const alphabet='ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+let bits='';
+for (const ch of process.argv[1].replace(/=+$/,'').toUpperCase()) bits+=alphabet.indexOf(ch).toString(2).padStart(5,'0');
+const key=Buffer.from(bits.match(/.{8}/g).map((b)=>parseInt(b,2)));
+const counter=Buffer.alloc(8); counter.writeBigUInt64BE(BigInt(Math.floor(Date.now()/30000)));
+const h=crypto.createHmac('sha1',key).update(counter).digest();
+const o=h[h.length-1]&15;
+process.stdout.write(String((h.readUInt32BE(o)&0x7fffffff)%1e6).padStart(6,'0'));" "$1"
+}
+
+http() {
+  # http METHOD URL [DATA] [curl args...]
+  local method="$1"; shift
+  local url="$1"; shift
+  local data="${1:-}"
+  [[ $# -gt 0 ]] && shift
+
+  local body_file
+  body_file="$(mktemp)"
+  local code
+
+  if [[ -n "$data" ]]; then
+    code="$(curl -sS -o "$body_file" -w "%{http_code}" -X "$method" "$url" \
+      -H "Content-Type: application/json" \
+      "$@" \
+      --data "$data")"
+  else
+    code="$(curl -sS -o "$body_file" -w "%{http_code}" -X "$method" "$url" "$@")"
+  fi
+
+  echo "$code $body_file"
+}
+
+expect_code() {
+  local got="$1" want="$2" msg="$3"
+  if [[ "$got" != "$want" ]]; then
+    die "$msg (expected $want, got $got)"
+  fi
+}
+
+login() {
+  # login PASSWORD -> prints the login response JSON
+  local code body
+  read -r code body < <(http POST "$BASE/auth/login" "{\"email\":\"$EMAIL\",\"password\":\"$1\"}")
+  expect_code "$code" "200" "Login failed"
+  cat "$body"
+  rm -f "$body"
+}
+
+me_code() {
+  # me_code TOKEN -> HTTP status of GET /auth/me
+  local code body
+  read -r code body < <(http GET "$BASE/auth/me" "" -H "Authorization: Bearer $1")
+  rm -f "$body"
+  echo "$code"
+}
+
+need EMAIL
+need PASSWORD
+
+echo "== Security: revoked access tokens are rejected =="
+session1="$(login "$PASSWORD")"
+token1="$(json_get "$session1" "token")" || die "Cannot read token from login response"
+refresh1="$(json_get "$session1" "refreshToken")" || die "Cannot read refreshToken from login response"
+token2="$(json_get "$(login "$PASSWORD")" "token")"
+
+expect_code "$(me_code "$token1")" "200" "Fresh token should work"
+read -r code body < <(http POST "$BASE/auth/logout" "{\"refreshToken\":\"$refresh1\"}")
+expect_code "$code" "200" "Logout failed"
+rm -f "$body"
+expect_code "$(me_code "$token1")" "401" "Access token of a logged-out session should be rejected"
+echo "OK (logout)"
+
+read -r code body < <(http POST "$BASE/auth/change-password" \
+  "{\"currentPassword\":\"$PASSWORD\",\"newPassword\":\"$PASSWORD-tmp\"}" \
+  -H "Authorization: Bearer $token2")
+expect_code "$code" "200" "Password change failed"
+token3="$(json_get "$(cat "$body")" "token")"
+rm -f "$body"
+expect_code "$(me_code "$token2")" "401" "Token issued before a password change should be rejected"
+
+read -r code body < <(http POST "$BASE/auth/change-password" \
+  "{\"currentPassword\":\"$PASSWORD-tmp\",\"newPassword\":\"$PASSWORD\"}" \
+  -H "Authorization: Bearer $token3")
+expect_code "$code" "200" "Restoring the password failed"
+token4="$(json_get "$(cat "$body")" "token")"
+rm -f "$body"
+echo "OK (password change)"
+
+if [[ -n "$SLUG" && -n "$PROJECT_KEY" ]]; then
+  # The admin preview bypass of the Origin allowlist must not accept revoked tokens either.
+  read -r code body < <(http GET "$BASE/public/forms/$SLUG/donation/config" "" \
+    -H "X-Project-Key: $PROJECT_KEY" -H "Origin: http://evil.invalid")
+  rm -f "$body"
+  if [[ "$code" == "403" ]]; then
+    read -r code body < <(http GET "$BASE/public/forms/$SLUG/donation/config" "" \
+      -H "X-Project-Key: $PROJECT_KEY" -H "Origin: http://evil.invalid" -H "Authorization: Bearer $token4")
+    expect_code "$code" "200" "Preview bypass with a valid token should be allowed"
+    rm -f "$body"
+    read -r code body < <(http GET "$BASE/public/forms/$SLUG/donation/config" "" \
+      -H "X-Project-Key: $PROJECT_KEY" -H "Origin: http://evil.invalid" -H "Authorization: Bearer $token1")
+    expect_code "$code" "403" "Preview bypass with a revoked token should be blocked"
+    rm -f "$body"
+    echo "OK (public form preview bypass)"
+  else
+    echo "SKIP: Origin allowlist is not enabled for $SLUG (got $code); preview bypass not checked"
+  fi
+fi
+
+read -r code body < <(http POST "$BASE/auth/logout-all" "" -H "Authorization: Bearer $token4")
+expect_code "$code" "200" "Logout everywhere failed"
+rm -f "$body"
+expect_code "$(me_code "$token4")" "401" "Token should be rejected after logout everywhere"
+echo "OK (logout everywhere)"
+
+token="$(json_get "$(login "$PASSWORD")" "token")"
+
+echo
+echo "== Security: API key scopes =="
+read -r code body < <(http POST "$BASE/api-keys" '{"name":"security smoke","scopes":["cases:read"]}' \
+  -H "Authorization: Bearer $token")
+expect_code "$code" "201" "Creating an API key failed"
+key_json="$(cat "$body")"
+rm -f "$body"
+api_key="$(json_get "$key_json" "key")"
+api_key_id="$(json_get "$key_json" "id")"
+
+check_key() {
+  # check_key METHOD PATH WANT_CODE MESSAGE
+  local code body
+  read -r code body < <(http "$1" "$BASE$2" "" -H "X-Api-Key: $api_key")
+  rm -f "$body"
+  expect_code "$code" "$3" "$4"
+}
+check_key GET /cases 200 "cases:read key should list cases"
+check_key GET /contacts 403 "cases:read key should not read contacts"
+check_key POST /cases 403 "cases:read key should not write cases"
+check_key GET /cases/1/tasks 403 "cases:read key should not read tasks"
+check_key GET /cases/1/TASKS 403 "Scope check should not depend on the path's letter case"
+check_key GET /auth/me 403 "API keys should not reach auth routes"
+
+read -r code body < <(http DELETE "$BASE/api-keys/$api_key_id" "" -H "Authorization: Bearer $token")
+expect_code "$code" "204" "Revoking the API key failed"
+rm -f "$body"
+check_key GET /cases 401 "Revoked API key should be rejected"
+echo "OK"
+
+echo
+echo "== Security: two-factor sign-in =="
+read -r code body < <(http POST "$BASE/auth/2fa/setup" "{\"currentPassword\":\"$PASSWORD\"}" \
+  -H "Authorization: Bearer $token")
+expect_code "$code" "200" "2FA setup failed (does the account already use 2FA?)"
+secret="$(json_get "$(cat "$body")" "secret")"
+rm -f "$body"
+
+read -r code body < <(http POST "$BASE/auth/2fa/enable" "{\"code\":\"$(totp "$secret")\"}" \
+  -H "Authorization: Bearer $token")
+expect_code "$code" "200" "Enabling 2FA failed"
+recovery_codes="$(json_get "$(cat "$body")" "recoveryCodes")"
+rm -f "$body"
+recovery1="$(json_get "$recovery_codes" "0")"
+recovery2="$(json_get "$recovery_codes" "1")"
+
+challenge_json="$(login "$PASSWORD")"
+[[ "$(json_get "$challenge_json" "twoFactorRequired")" == "true" ]] || die "Login should ask for a second factor"
+json_get "$challenge_json" "token" >/dev/null 2>&1 && die "Login should not issue a token before the second factor"
+challenge="$(json_get "$challenge_json" "challengeToken")"
+
+read -r code body < <(http POST "$BASE/auth/login/2fa" "{\"challengeToken\":\"$challenge\",\"recoveryCode\":\"not-a-code\"}")
+expect_code "$code" "401" "Wrong second factor should be rejected"
+rm -f "$body"
+
+read -r code body < <(http POST "$BASE/auth/login/2fa" "{\"challengeToken\":\"$challenge\",\"recoveryCode\":\"$recovery1\"}")
+expect_code "$code" "200" "Recovery code login failed"
+token="$(json_get "$(cat "$body")" "token")"
+rm -f "$body"
+
+read -r code body < <(http POST "$BASE/auth/login/2fa" "{\"challengeToken\":\"$challenge\",\"recoveryCode\":\"$recovery1\"}")
+expect_code "$code" "401" "A recovery code should work only once"
+rm -f "$body"
+
+read -r code body < <(http POST "$BASE/auth/2fa/disable" \
+  "{\"currentPassword\":\"$PASSWORD\",\"recoveryCode\":\"$recovery2\"}" \
+  -H "Authorization: Bearer $token")
+expect_code "$code" "200" "Disabling 2FA failed"
+rm -f "$body"
+echo "OK"
+
+echo
+echo "== Security: a burst of sign-ins gets at most LOGIN_LOCKOUT_THRESHOLD password checks =="
+# Every attempt reserves its place before the password is checked, so parallel requests cannot
+# all slip past the gate: 401 means the password was evaluated, 429 means it was not.
+victim="lockout-$(date +%s)-$$@example.invalid"
+burst=$((LOCKOUT_THRESHOLD + 5))
+tmp_dir="$(mktemp -d)"
+pids=()
+for i in $(seq 1 "$burst"); do
+  curl -sS -o /dev/null -w "%{http_code}" -X POST "$BASE/auth/login" \
+    -H "Content-Type: application/json" \
+    --data "{\"email\":\"$victim\",\"password\":\"wrong-$i\"}" >"$tmp_dir/$i" &
+  pids+=("$!")
+done
+wait "${pids[@]}"
+evaluated=0
+throttled=0
+for i in $(seq 1 "$burst"); do
+  case "$(cat "$tmp_dir/$i")" in
+    401) evaluated=$((evaluated + 1)) ;;
+    429) throttled=$((throttled + 1)) ;;
+    *) die "Unexpected sign-in response $(cat "$tmp_dir/$i") in the burst" ;;
+  esac
+done
+rm -rf "$tmp_dir"
+(( evaluated <= LOCKOUT_THRESHOLD )) || die "$evaluated of $burst parallel sign-ins had their password checked (limit $LOCKOUT_THRESHOLD)"
+(( throttled > 0 )) || die "No sign-in in a burst of $burst was throttled"
+
+echo "OK ($evaluated checked, $throttled throttled)"
+
+echo
+echo "== Security: password reset requests are rate limited per IP =="
+reset_email="reset-$(date +%s)-$$@example.invalid"
+for i in $(seq 1 "$RESET_IP_MAX"); do
+  read -r code body < <(http POST "$BASE/auth/forgot-password" "{\"email\":\"$reset_email\"}")
+  rm -f "$body"
+  [[ "$code" == "200" || "$code" == "429" ]] || die "Unexpected forgot-password response $code"
+done
+read -r code body < <(http POST "$BASE/auth/forgot-password" "{\"email\":\"$reset_email\"}")
+expect_code "$code" "429" "Request $((RESET_IP_MAX + 1)) within 15 minutes should be rejected"
+rm -f "$body"
+echo "OK"
+
+echo
+echo "== Security: booking slots cannot be double-booked or booked in the past =="
+if [[ -z "$BOOKING_SERVICE" || -z "$SLUG" || -z "$PROJECT_KEY" ]]; then
+  echo "SKIP: BOOKING_SERVICE/SLUG/PROJECT_KEY not provided"
+  echo
+  echo "ALL DONE"
+  exit 0
+fi
+
+from="$(node -e "process.stdout.write(new Date(Date.now()+86400000).toISOString().slice(0,10))")"
+to="$(node -e "process.stdout.write(new Date(Date.now()+14*86400000).toISOString().slice(0,10))")"
+read -r code body < <(http GET "$BASE/public/forms/$SLUG/booking/slots?service=$BOOKING_SERVICE&from=$from&to=$to" "" \
+  -H "X-Project-Key: $PROJECT_KEY" -H "Origin: $ORIGIN")
+expect_code "$code" "200" "Loading booking slots failed"
+slot="$(node -e "
+const {days}=JSON.parse(process.argv[1]);
+for (const d of days) for (const s of d.slots) if (s.remaining<=3) { process.stdout.write(d.date+' '+s.time+' '+s.remaining); process.exit(0); }
+process.exit(2);" "$(cat "$body")")" || die "No free slot with capacity <= 3 in the next two weeks"
+rm -f "$body"
+read -r slot_date slot_time slot_remaining <<<"$slot"
+
+# One request more than the slot has room for, all at once: exactly one must get 409.
+tmp_dir="$(mktemp -d)"
+pids=()
+for i in $(seq 1 $((slot_remaining + 1))); do
+  curl -sS -o /dev/null -w "%{http_code}" -X POST "$BASE/public/forms/$SLUG/booking" \
+    -H "Content-Type: application/json" -H "X-Project-Key: $PROJECT_KEY" -H "Origin: $ORIGIN" \
+    --data "{\"name\":\"Booking race $i\",\"email\":\"race-$i@example.invalid\",\"service\":\"$BOOKING_SERVICE\",\"date\":\"$slot_date\",\"time\":\"$slot_time\"}" \
+    >"$tmp_dir/$i" &
+  pids+=("$!")
+done
+wait "${pids[@]}"
+created="$(cat "$tmp_dir"/* | grep -o 201 | wc -l | tr -d ' ')"
+conflicts="$(cat "$tmp_dir"/* | grep -o 409 | wc -l | tr -d ' ')"
+rm -rf "$tmp_dir"
+[[ "$created" == "$slot_remaining" && "$conflicts" == "1" ]] ||
+  die "Slot $slot_date $slot_time had room for $slot_remaining: got $created created and $conflicts conflicts"
+echo "OK ($slot_date $slot_time: $created booked, 1 rejected)"
+
+yesterday="$(node -e "process.stdout.write(new Date(Date.now()-86400000).toISOString().slice(0,10))")"
+read -r code body < <(http POST "$BASE/public/forms/$SLUG/booking" \
+  "{\"name\":\"Past booking\",\"email\":\"past@example.invalid\",\"service\":\"$BOOKING_SERVICE\",\"date\":\"$yesterday\",\"time\":\"$slot_time\"}" \
+  -H "X-Project-Key: $PROJECT_KEY" -H "Origin: $ORIGIN")
+expect_code "$code" "400" "Booking a past slot should be rejected"
+grep -q "in the past" "$body" || die "Expected a past-slot error, got: $(cat "$body")"
+rm -f "$body"
+echo "OK (past slot rejected)"
+
+echo
+echo "ALL DONE"
@@ -15,6 +15,14 @@ import transactionsRouter from './routes/transactions';
 import publicRouter from './routes/public';
 import publicFormsRouter from './routes/publicForms';
 import invitesRouter from './routes/invites';
+import bookingRouter from './routes/booking';
+import notificationsRouter from './routes/notifications';
+import webhooksRouter from './routes/webhooks';
+import apiKeysRouter from './routes/apiKeys';
+import { requestId } from './middleware/requestId';
+import { startNotificationWorker } from './services/notificationOutbox';
+import { startWebhookWorker } from './services/webhooks';
+import { startTrashPurgeWorker } from './services/trash';
 
 const app = express();
 
@@ -88,7 +96,7 @@ app.use(
       return cb(null, {
         origin: true,
         methods: ['GET', 'POST', 'PATCH', 'PUT', 'DELETE', 'OPTIONS'],
-        allowedHeaders: ['Content-Type', 'Authorization', 'X-Project-Key', 'X-Request-Id'],
+        allowedHeaders: ['Content-Type', 'Authorization', 'X-Api-Key', 'X-Project-Key', 'X-Request-Id'],
       });
     }
 
@@ -101,7 +109,7 @@ app.use(
           return cb(null, {
             origin: true,
             methods: ['GET', 'POST', 'PATCH', 'PUT', 'DELETE', 'OPTIONS'],
-            allowedHeaders: ['Content-Type', 'Authorization', 'X-Project-Key', 'X-Request-Id'],
+            allowedHeaders: ['Content-Type', 'Authorization', 'X-Api-Key', 'X-Project-Key', 'X-Request-Id'],
           });
         }
 
@@ -111,7 +119,7 @@ app.use(
             return cb(null, {
               origin: true,
               methods: ['GET', 'POST', 'PATCH', 'PUT', 'DELETE', 'OPTIONS'],
-              allowedHeaders: ['Content-Type', 'Authorization', 'X-Project-Key', 'X-Request-Id'],
+              allowedHeaders: ['Content-Type', 'Authorization', 'X-Api-Key', 'X-Project-Key', 'X-Request-Id'],
             });
           }
           return cb(new Error('CORS_NOT_ALLOWED'));
@@ -122,7 +130,7 @@ app.use(
           return cb(null, {
             origin: true,
             methods: ['GET', 'POST', 'PATCH', 'PUT', 'DELETE', 'OPTIONS'],
-            allowedHeaders: ['Content-Type', 'Authorization', 'X-Project-Key', 'X-Request-Id'],
+            allowedHeaders: ['Content-Type', 'Authorization', 'X-Api-Key', 'X-Project-Key', 'X-Request-Id'],
           });
         }
         return cb(new Error('CORS_NOT_ALLOWED'));
@@ -141,7 +149,7 @@ app.use(
         return cb(null, {
           origin: true,
           methods: ['GET', 'POST', 'PATCH', 'PUT', 'DELETE', 'OPTIONS'],
-          allowedHeaders: ['Content-Type', 'Authorization', 'X-Project-Key', 'X-Request-Id'],
+          allowedHeaders: ['Content-Type', 'Authorization', 'X-Api-Key', 'X-Project-Key', 'X-Request-Id'],
         });
       }
       return cb(new Error('CORS_NOT_ALLOWED'));
@@ -154,17 +162,26 @@ app.use(
       return cb(null, {
         origin: true,
         methods: ['GET', 'POST', 'PATCH', 'PUT', 'DELETE', 'OPTIONS'],
-        allowedHeaders: ['Content-Type', 'Authorization', 'X-Project-Key', 'X-Request-Id'],
+        allowedHeaders: ['Content-Type', 'Authorization', 'X-Api-Key', 'X-Project-Key', 'X-Request-Id'],
       });
     });
   })
 );
 
-// ---------- Middleware: body parsers, rate limiting ----------
+// ---------- Middleware: request id, body parsers, rate limiting ----------
+app.use(requestId);
+
 // NOTE: Keep body limits strict for public endpoints safety.
 app.use(express.json({ limit: '64kb' }));
 app.use(express.urlencoded({ extended: true, limit: '64kb' }));
 
+// Behind a reverse proxy (Render, nginx) set TRUST_PROXY (e.g. "1" = one hop) so req.ip is the
+// client address; per-IP sign-in limits would otherwise count everyone as the proxy.
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', Number.isFinite(hops) ? hops : process.env.TRUST_PROXY);
+}
+
 const limiter = rateLimit({
   windowMs: 60 * 1000,
   max: 300,
@@ -211,6 +228,10 @@ app.use('/cases', casesRouter);
 app.use('/transactions', transactionsRouter);
 app.use('/public', publicRouter);
 app.use('/public-forms', publicFormsRouter);
+app.use('/booking', bookingRouter);
+app.use('/notifications', notificationsRouter);
+app.use('/webhooks', webhooksRouter);
+app.use('/api-keys', apiKeysRouter);
 
 
 // ---------- CORS error handling ----------
@@ -224,4 +245,7 @@ app.use((err: any, _req: express.Request, res: express.Response, next: express.N
 const PORT = process.env.PORT || 4000;
 app.listen(PORT, () => {
   console.log(`CRM API running on port ${PORT}`);
+  startNotificationWorker();
+  startWebhookWorker();
+  startTrashPurgeWorker();
 });
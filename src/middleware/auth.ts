@@ -1,7 +1,21 @@
-import { Response, NextFunction } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { AuthRequest, AuthUser } from '../types/auth';
 import prisma from '../db/client';
+import {
+  authenticateApiKey,
+  getRequiredApiKeyScope,
+  hasApiKeyScope,
+  isApiKeyToken,
+} from '../services/apiKeys';
+import {
+  Permission,
+  getRolePermissions,
+  hasPermission,
+  resolveMembershipPermissions,
+} from '../services/permissions';
+import { checkSession, getSessionMeta } from '../services/sessions';
+import { isTwoFactorRequired } from '../services/twoFactor';
 
 const DEV_JWT_SECRET = 'dev-mini-crm-secret';
 
@@ -9,8 +23,98 @@ function getJwtSecret(): jwt.Secret {
   return (process.env.JWT_SECRET || DEV_JWT_SECRET) as jwt.Secret;
 }
 
+/**
+ * Project API key auth: maps the key to a synthetic AuthUser (id 0, role "admin") after
+ * checking that the key's scopes cover this route and method.
+ */
+async function authenticateWithApiKey(key: string, req: AuthRequest, res: Response, next: NextFunction) {
+  try {
+    const result = await authenticateApiKey(key);
+    if (!result.ok) {
+      return res.status(401).json({ error: result.error });
+    }
+
+    const path = (req.originalUrl || '').split('?')[0];
+    const requiredScope = getRequiredApiKeyScope(req.method, path);
+    if (!requiredScope) {
+      return res.status(403).json({ error: 'This endpoint is not available for API keys' });
+    }
+    if (!hasApiKeyScope(result.apiKey.scopes, requiredScope)) {
+      return res.status(403).json({ error: `API key is missing scope "${requiredScope}"`, requiredScope });
+    }
+
+    req.user = {
+      id: 0,
+      email: `api-key-${result.apiKey.id}`,
+      role: 'admin',
+      projectId: result.apiKey.projectId,
+      permissions: getRolePermissions('admin'),
+      apiKeyId: result.apiKey.id,
+      scopes: result.apiKey.scopes,
+    };
+    return next();
+  } catch (error) {
+    console.error('API key auth error', error);
+    return res.status(500).json({ error: 'Failed to authenticate API key' });
+  }
+}
+
+/**
+ * Checks a user access token (JWT): signature, membership in the token's project, revocation by
+ * password change / logout-all (`tokensValidAfter`) and, for tokens with `sid`, the login session.
+ * Shared by requireAuth and other places that accept the admin token (e.g. public form previews).
+ */
+export async function verifyAccessToken(token: string, req: Request) {
+  const payload = jwt.verify(token, getJwtSecret()) as {
+    userId: number;
+    email: string;
+    role: string;
+    projectId: number;
+    sid?: number;
+    iat?: number;
+  };
+
+  if (!Number.isInteger(payload.userId) || !Number.isInteger(payload.projectId)) {
+    return { ok: false as const, status: 401, error: 'Invalid or expired token' };
+  }
+
+  // Hard isolation: verify membership exists for (userId, projectId)
+  const membership = await prisma.membership.findFirst({
+    where: {
+      userId: payload.userId,
+      projectId: payload.projectId,
+    },
+    include: {
+      customRole: { select: { id: true, name: true, permissions: true } },
+      user: { select: { email: true, tokensValidAfter: true, totpEnabledAt: true } },
+      project: { select: { config: true } },
+    },
+  });
+
+  if (!membership) {
+    return { ok: false as const, status: 403, error: 'Forbidden (no project access)' };
+  }
+
+  // Tokens issued before a password change/reset are revoked (iat has second precision).
+  const validAfter = membership.user.tokensValidAfter;
+  if (validAfter && (payload.iat ?? 0) < Math.floor(validAfter.getTime() / 1000)) {
+    return { ok: false as const, status: 401, error: 'Invalid or expired token' };
+  }
+
+  if (payload.sid && !(await checkSession(payload.sid, payload.userId, getSessionMeta(req)))) {
+    return { ok: false as const, status: 401, error: 'Session expired or revoked' };
+  }
+
+  return { ok: true as const, payload, membership };
+}
+
 export async function requireAuth(req: AuthRequest, res: Response, next: NextFunction) {
   const authHeader = req.headers.authorization;
+  const apiKeyHeader = req.header('X-Api-Key');
+
+  if (apiKeyHeader && isApiKeyToken(apiKeyHeader.trim())) {
+    return authenticateWithApiKey(apiKeyHeader.trim(), req, res, next);
+  }
 
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
     return res.status(401).json({ error: 'Missing or invalid Authorization header' });
@@ -18,31 +122,30 @@ export async function requireAuth(req: AuthRequest, res: Response, next: NextFun
 
   const token = authHeader.substring('Bearer '.length);
 
-  try {
-    const payload = jwt.verify(token, getJwtSecret()) as {
-      userId: number;
-      email: string;
-      role: string;
-      projectId: number;
-    };
-
-    // Hard isolation: verify membership exists for (userId, projectId)
-    const membership = await prisma.membership.findFirst({
-      where: {
-        userId: payload.userId,
-        projectId: payload.projectId,
-      },
-    });
+  if (isApiKeyToken(token)) {
+    return authenticateWithApiKey(token, req, res, next);
+  }
 
-    if (!membership) {
-      return res.status(403).json({ error: 'Forbidden (no project access)' });
+  try {
+    const verified = await verifyAccessToken(token, req);
+    if (!verified.ok) {
+      return res.status(verified.status).json({ error: verified.error });
     }
+    const { payload, membership } = verified;
 
     const user: AuthUser = {
       id: payload.userId,
-      email: payload.email,
+      // Current email (it may have changed since the token was issued).
+      email: membership.user.email,
       role: membership.role,
       projectId: payload.projectId,
+      permissions: resolveMembershipPermissions(membership.role, membership.customRole),
+      sessionId: payload.sid,
+      twoFactorSetupRequired:
+        !membership.user.totpEnabledAt && isTwoFactorRequired(membership.project.config, membership.role),
+      customRole: membership.customRole
+        ? { id: membership.customRole.id, name: membership.customRole.name }
+        : null,
     };
 
     req.user = user;
@@ -52,3 +155,29 @@ export async function requireAuth(req: AuthRequest, res: Response, next: NextFun
     return res.status(401).json({ error: 'Invalid or expired token' });
   }
 }
+
+/**
+ * Use after requireAuth: `router.post('/', requireAuth, requirePermission('contacts.write'), ...)`.
+ * Responds 403 naming the missing permission, or 403 with `twoFactorSetupRequired` while the
+ * project's 2FA requirement is not met.
+ */
+export function requirePermission(permission: Permission) {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    if (req.user.twoFactorSetupRequired) {
+      return res.status(403).json({
+        error: 'This project requires two-factor authentication; enable it via /auth/2fa',
+        twoFactorSetupRequired: true,
+      });
+    }
+    if (!hasPermission(req.user, permission)) {
+      return res.status(403).json({
+        error: `Forbidden: missing permission "${permission}"`,
+        requiredPermission: permission,
+      });
+    }
+    return next();
+  };
+}
@@ -0,0 +1,26 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      /** Correlation id of this request (client X-Request-Id or generated); see requestId(). */
+      requestId?: string;
+    }
+  }
+}
+
+const CLIENT_REQUEST_ID_RE = /^[A-Za-z0-9._:-]{1,100}$/;
+
+/**
+ * Gives every request an id: a well-formed client `X-Request-Id` is reused, otherwise a UUID is
+ * generated. Echoed in the `X-Request-Id` response header and stored with audit log entries.
+ */
+export function requestId(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.get('X-Request-Id');
+  const id = incoming && CLIENT_REQUEST_ID_RE.test(incoming) ? incoming : crypto.randomUUID();
+  req.requestId = id;
+  res.setHeader('X-Request-Id', id);
+  next();
+}
@@ -0,0 +1,139 @@
+import express from 'express';
+import { z, ZodError } from 'zod';
+import prisma from '../db/client';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { AuthRequest } from '../types/auth';
+import { API_KEY_SCOPES, generateApiKey } from '../services/apiKeys';
+
+const router = express.Router();
+
+function parseId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isFinite(id) && id > 0 ? id : null;
+}
+
+const createApiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z
+    .array(z.enum(API_KEY_SCOPES as [string, ...string[]]))
+    .min(1, 'at least one scope is required')
+    .transform((list) => Array.from(new Set(list))),
+  expiresAt: z.coerce
+    .date()
+    .refine((d) => d.getTime() > Date.now(), 'expiresAt must be in the future')
+    .optional(),
+});
+
+// Never expose keyHash.
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  createdByUserId: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+/**
+ * GET /api-keys
+ * API keys of the current project (including revoked ones) and the available scopes.
+ */
+router.get('/', requireAuth, requirePermission('apiKeys.manage'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const items = await prisma.apiKey.findMany({
+      where: { projectId: user.projectId },
+      select: apiKeySelect,
+      orderBy: { id: 'desc' },
+    });
+
+    return res.json({ items, scopes: API_KEY_SCOPES });
+  } catch (error: any) {
+    console.error('Error loading API keys', error);
+    return res.status(500).json({ error: 'Failed to load API keys' });
+  }
+});
+
+/**
+ * POST /api-keys
+ * Body: { name, scopes: ["contacts:read", ...], expiresAt? }
+ * The plain key is returned only in this response.
+ */
+router.post('/', requireAuth, requirePermission('apiKeys.manage'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const data = createApiKeySchema.parse(req.body);
+    const { key, prefix, keyHash } = generateApiKey();
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        projectId: user.projectId,
+        name: data.name,
+        prefix,
+        keyHash,
+        scopes: data.scopes,
+        expiresAt: data.expiresAt ?? null,
+        createdByUserId: user.id,
+      },
+      select: apiKeySelect,
+    });
+
+    return res.status(201).json({ ...apiKey, key });
+  } catch (error: any) {
+    console.error('Error creating API key', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to create API key' });
+  }
+});
+
+/**
+ * DELETE /api-keys/:id
+ * Revokes the key; it stays in the list with revokedAt set.
+ */
+router.delete('/:id', requireAuth, requirePermission('apiKeys.manage'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid API key id' });
+    }
+
+    const existing = await prisma.apiKey.findFirst({
+      where: { id, projectId: user.projectId },
+      select: { id: true, revokedAt: true },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    if (!existing.revokedAt) {
+      await prisma.apiKey.update({ where: { id }, data: { revokedAt: new Date() } });
+    }
+
+    return res.status(204).send();
+  } catch (error: any) {
+    console.error('Error revoking API key', error);
+    return res.status(500).json({ error: 'Failed to revoke API key' });
+  }
+});
+
+export default router;
@@ -1,23 +1,60 @@
 import express from 'express';
+import rateLimit from 'express-rate-limit';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
-import type { SignOptions } from 'jsonwebtoken';
 import { z, ZodError } from 'zod';
 import prisma from '../db/client';
 import { AuthRequest } from '../types/auth';
 import { requireAuth } from '../middleware/auth';
 import { normalizeEmail } from '../utils/normalizeEmail';
+import {
+  canSendPasswordReset,
+  consumeUserToken,
+  issueUserToken,
+  revokeUserTokens,
+  sendEmailChangeConfirmation,
+  sendEmailChangedNotice,
+  sendPasswordResetEmail,
+} from '../services/userTokens';
+import {
+  getSessionMeta,
+  listActiveSessions,
+  pickPrimaryMembership,
+  refreshSession,
+  revokeAllSessions,
+  revokeSession,
+  revokeSessionByRefreshToken,
+  signLoginChallenge,
+  startSession,
+  verifyLoginChallenge,
+} from '../services/sessions';
+import {
+  LoginGate,
+  recordLoginFailure,
+  recordLoginSuccess,
+  releaseLoginAttempt,
+  reserveLoginAttempt,
+} from '../services/loginProtection';
+import {
+  buildOtpauthUrl,
+  consumeTotpCode,
+  countRemainingRecoveryCodes,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  isTwoFactorRequired,
+  verifySecondFactor,
+} from '../services/twoFactor';
 
 const router = express.Router();
 
-const JWT_SECRET = (process.env.JWT_SECRET || 'dev-mini-crm-secret') as jwt.Secret;
-const JWT_EXPIRES_IN: SignOptions['expiresIn'] = (process.env.JWT_EXPIRES_IN as SignOptions['expiresIn']) || '7d';
-
-function signToken(payload: { userId: number; email: string; role: string; projectId: number }) {
-  // role + projectId are the CURRENT active project in the admin UI
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
-}
+// Reset requests per client IP (each can email an inbox); per-account limits are in canSendPasswordReset.
+const forgotPasswordLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: Number(process.env.PASSWORD_RESET_IP_RL_MAX || 10),
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { error: 'Too many password reset requests; try again later' },
+});
 
 const registerOwnerSchema = z.object({
   email: z.string().email('Invalid email'),
@@ -41,11 +78,88 @@ const loginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 });
 
-function pickPrimaryMembership(memberships: Array<{ role: string; projectId: number }>) {
-  const priority: Record<string, number> = { owner: 0, admin: 1, viewer: 2 };
-  return [...memberships].sort((a, b) => (priority[a.role] ?? 99) - (priority[b.role] ?? 99))[0];
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email'),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'token is required'),
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+});
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'currentPassword is required'),
+  newPassword: z.string().min(6, 'Password must be at least 6 characters'),
+});
+
+const changeEmailSchema = z.object({
+  newEmail: z.string().email('Invalid email'),
+  currentPassword: z.string().min(1, 'currentPassword is required'),
+});
+
+const confirmEmailChangeSchema = z.object({
+  token: z.string().min(1, 'token is required'),
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1, 'refreshToken is required'),
+});
+
+const secondFactorFields = {
+  code: z.string().min(1).optional(),
+  recoveryCode: z.string().min(1).optional(),
+};
+const exactlyOneSecondFactor = (data: { code?: string; recoveryCode?: string }) => !!data.code !== !!data.recoveryCode;
+
+const loginTwoFactorSchema = z
+  .object({ challengeToken: z.string().min(1, 'challengeToken is required'), ...secondFactorFields })
+  .refine(exactlyOneSecondFactor, { message: 'Provide either code or recoveryCode' });
+
+const twoFactorSetupSchema = z.object({
+  currentPassword: z.string().min(1, 'currentPassword is required'),
+});
+
+const twoFactorCodeSchema = z.object({
+  code: z.string().min(1, 'code is required'),
+});
+
+const twoFactorDisableSchema = z
+  .object({ currentPassword: z.string().min(1, 'currentPassword is required'), ...secondFactorFields })
+  .refine(exactlyOneSecondFactor, { message: 'Provide either code or recoveryCode' });
+
+type LoginMembership = { role: string; projectId: number; project: { config: unknown } };
+
+// Shared by both login steps. twoFactorSetupRequired: the project forces 2FA for this role and the
+// account has none yet — admin routes answer 403 until it is enabled via /auth/2fa.
+function buildLoginResponse(
+  user: { id: number; email: string; totpEnabledAt: Date | null },
+  memberships: LoginMembership[],
+  active: LoginMembership,
+  tokens: { token: string; refreshToken: string }
+) {
+  return {
+    token: tokens.token,
+    refreshToken: tokens.refreshToken,
+    user: {
+      id: user.id,
+      email: user.email,
+      role: active.role,
+      projectId: active.projectId,
+    },
+    memberships: memberships.map((m) => ({ projectId: m.projectId, role: m.role })),
+    twoFactorSetupRequired: !user.totpEnabledAt && isTwoFactorRequired(active.project.config, active.role),
+  };
+}
+
+function sendLoginThrottled(res: express.Response, gate: Extract<LoginGate, { allowed: false }>) {
+  res.set('Retry-After', String(gate.retryAfterSeconds));
+  return res.status(429).json({ error: gate.error, retryAfterSeconds: gate.retryAfterSeconds });
 }
 
+const loginMembershipsInclude = {
+  memberships: { include: { project: { select: { config: true } } } },
+} as const;
+
 // POST /auth/register — create a global user account (no project binding)
 router.post('/register', async (req, res) => {
   try {
@@ -128,10 +242,16 @@ router.post('/bootstrap-owner', async (req, res) => {
     data: { userId: user.id, projectId: project.id, role: 'owner' },
   });
 
-  const token = signToken({ userId: user.id, email: user.email, role: 'owner', projectId: project.id });
+  const { token, refreshToken } = await startSession(
+    prisma,
+    user,
+    { role: 'owner', projectId: project.id },
+    getSessionMeta(req)
+  );
 
   return res.status(201).json({
     token,
+    refreshToken,
     user: { id: user.id, email: user.email, role: 'owner', projectId: project.id },
     project: { id: project.id, name: project.name, slug: project.slug, publicKey: project.publicKey },
   });
@@ -196,15 +316,16 @@ router.post('/register-owner', async (req, res) => {
       });
     }
 
-    const token = signToken({
-      userId: user.id,
-      email: user.email,
-      role: 'owner',
-      projectId: project.id,
-    });
+    const { token, refreshToken } = await startSession(
+      prisma,
+      user,
+      { role: 'owner', projectId: project.id },
+      getSessionMeta(req)
+    );
 
     return res.status(201).json({
       token,
+      refreshToken,
       user: {
         id: user.id,
         email: user.email,
@@ -234,46 +355,53 @@ router.post('/login', async (req, res) => {
     // Normalize for consistent lookups and uniqueness.
     const emailNormalized = normalizeEmail(parsed.email);
 
+    const attempt = { endpoint: 'login' as const, emailNormalized, meta: getSessionMeta(req) };
+    const gate = await reserveLoginAttempt(attempt);
+    if (!gate.allowed) {
+      return sendLoginThrottled(res, gate);
+    }
+
     const user = await prisma.user.findUnique({
       where: { emailNormalized },
-      include: {
-        memberships: true,
-      },
+      include: loginMembershipsInclude,
     });
 
     if (!user || !user.password) {
+      await recordLoginFailure(attempt, 'unknown_user');
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
     const passwordMatches = await bcrypt.compare(parsed.password, (user as any).password);
     if (!passwordMatches) {
+      await recordLoginFailure(attempt, 'invalid_password');
       return res.status(401).json({ error: 'Invalid credentials' });
     }
+    await releaseLoginAttempt(attempt);
 
-    const memberships = (user as any).memberships as Array<{ role: string; projectId: number }>;
+    const memberships = user.memberships;
     if (!memberships || memberships.length === 0) {
       return res.status(403).json({ error: 'No project access for this user' });
     }
 
     const primary = pickPrimaryMembership(memberships);
 
-    const token = signToken({
-      userId: (user as any).id,
-      email: (user as any).email,
-      role: primary.role,
-      projectId: primary.projectId,
-    });
+    if (user.totpEnabledAt) {
+      // No session yet: the client finishes with POST /auth/login/2fa.
+      return res.json({
+        twoFactorRequired: true,
+        challengeToken: signLoginChallenge({ userId: user.id, role: primary.role, projectId: primary.projectId }),
+      });
+    }
 
-    return res.json({
-      token,
-      user: {
-        id: (user as any).id,
-        email: (user as any).email,
-        role: primary.role,
-        projectId: primary.projectId,
-      },
-      memberships: memberships.map((m) => ({ projectId: m.projectId, role: m.role })),
-    });
+    await recordLoginSuccess(emailNormalized);
+    const tokens = await startSession(
+      prisma,
+      user,
+      { role: primary.role, projectId: primary.projectId },
+      getSessionMeta(req)
+    );
+
+    return res.json(buildLoginResponse(user, memberships, primary, tokens));
   } catch (error) {
     console.error('Failed to login', error);
 
@@ -288,6 +416,540 @@ router.post('/login', async (req, res) => {
   }
 });
 
+// POST /auth/login/2fa — second login step: challengeToken from /auth/login + TOTP code or recovery code
+router.post('/login/2fa', async (req, res) => {
+  try {
+    const parsed = loginTwoFactorSchema.parse(req.body);
+
+    const challenge = verifyLoginChallenge(parsed.challengeToken);
+    if (!challenge) {
+      return res.status(401).json({ error: 'Invalid or expired login challenge' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: challenge.userId },
+      include: loginMembershipsInclude,
+    });
+    if (!user || !user.totpEnabledAt) {
+      return res.status(401).json({ error: 'Invalid or expired login challenge' });
+    }
+
+    // Code guessing counts against the same account/IP limits as passwords.
+    const attempt = { endpoint: 'login_2fa' as const, emailNormalized: user.emailNormalized, meta: getSessionMeta(req) };
+    const gate = await reserveLoginAttempt(attempt);
+    if (!gate.allowed) {
+      return sendLoginThrottled(res, gate);
+    }
+
+    const verified = await verifySecondFactor(prisma, user.id, parsed);
+    if (!verified.ok) {
+      await recordLoginFailure(attempt, 'invalid_2fa');
+      return res.status(401).json({ error: 'Invalid two-factor code' });
+    }
+    await releaseLoginAttempt(attempt);
+    await recordLoginSuccess(user.emailNormalized);
+
+    // Memberships may have changed since the password step.
+    const active =
+      user.memberships.find((m) => m.projectId === challenge.projectId) ?? pickPrimaryMembership(user.memberships);
+    if (!active) {
+      return res.status(403).json({ error: 'No project access for this user' });
+    }
+
+    const tokens = await startSession(
+      prisma,
+      user,
+      { role: active.role, projectId: active.projectId },
+      getSessionMeta(req)
+    );
+
+    return res.json({
+      ...buildLoginResponse(user, user.memberships, active, tokens),
+      ...(verified.method === 'recovery_code'
+        ? { recoveryCodesRemaining: await countRemainingRecoveryCodes(prisma, user.id) }
+        : {}),
+    });
+  } catch (error) {
+    console.error('Failed to complete two-factor login', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to login' });
+  }
+});
+
+// ------------------------------
+// Password reset & email change
+// ------------------------------
+
+// POST /auth/forgot-password — email a single-use reset link (same response whether or not the email exists)
+router.post('/forgot-password', forgotPasswordLimiter, async (req, res) => {
+  try {
+    const parsed = forgotPasswordSchema.parse(req.body);
+    const user = await prisma.user.findUnique({ where: { emailNormalized: normalizeEmail(parsed.email) } });
+
+    // Over the per-account limit the response stays the same, so it does not reveal the account.
+    if (user && !(await canSendPasswordReset(prisma, user.id))) {
+      console.warn(`Password reset email for user ${user.id} suppressed (too many requests)`);
+    } else if (user) {
+      const { token, expiresAt } = await issueUserToken(prisma, user.id, 'password_reset');
+      sendPasswordResetEmail(user.email, token, expiresAt);
+    }
+
+    return res.json({ ok: true });
+  } catch (error) {
+    console.error('Failed to start password reset', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to start password reset' });
+  }
+});
+
+// POST /auth/reset-password — set a new password with a reset token; revokes existing JWTs and lifts a sign-in lockout
+router.post('/reset-password', async (req, res) => {
+  try {
+    const parsed = resetPasswordSchema.parse(req.body);
+    const passwordHash = await bcrypt.hash(parsed.password, 10);
+
+    const user = await prisma.$transaction(async (tx) => {
+      const consumed = await consumeUserToken(tx, parsed.token, 'password_reset');
+      if (!consumed) return null;
+
+      const updated = await tx.user.update({
+        where: { id: consumed.userId },
+        data: { password: passwordHash },
+      });
+      await revokeUserTokens(tx, consumed.userId);
+      await revokeAllSessions(tx, consumed.userId);
+      return updated;
+    });
+
+    if (!user) {
+      return res.status(400).json({ error: 'Invalid or expired token' });
+    }
+
+    // Proven control of the mailbox lifts a sign-in lockout.
+    await recordLoginSuccess(user.emailNormalized);
+
+    return res.json({ ok: true });
+  } catch (error) {
+    console.error('Failed to reset password', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
+// POST /auth/change-password — requires the current password; signs out other sessions and returns a fresh token pair
+router.post('/change-password', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Unauthorized' });
+
+    const parsed = changePasswordSchema.parse(req.body);
+    const user = await prisma.user.findUnique({ where: { id: req.user.id } });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const passwordMatches = await bcrypt.compare(parsed.currentPassword, user.password);
+    if (!passwordMatches) {
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
+
+    const passwordHash = await bcrypt.hash(parsed.newPassword, 10);
+    const context = { role: req.user.role, projectId: req.user.projectId };
+    const { token, refreshToken } = await prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: user.id },
+        data: { password: passwordHash },
+      });
+      await revokeUserTokens(tx, user.id);
+      // Signs out every other device; this one continues in a fresh session.
+      await revokeAllSessions(tx, user.id);
+      return startSession(tx, user, context, getSessionMeta(req));
+    });
+
+    return res.json({ ok: true, token, refreshToken });
+  } catch (error) {
+    console.error('Failed to change password', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to change password' });
+  }
+});
+
+// POST /auth/change-email — requires the current password; the change applies after confirming the new address
+router.post('/change-email', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Unauthorized' });
+
+    const parsed = changeEmailSchema.parse(req.body);
+    const newEmail = parsed.newEmail.trim();
+    const newEmailNormalized = normalizeEmail(newEmail);
+
+    const user = await prisma.user.findUnique({ where: { id: req.user.id } });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const passwordMatches = await bcrypt.compare(parsed.currentPassword, user.password);
+    if (!passwordMatches) {
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
+
+    if (newEmailNormalized === user.emailNormalized) {
+      return res.status(400).json({ error: 'New email is the same as the current one' });
+    }
+
+    const taken = await prisma.user.findUnique({ where: { emailNormalized: newEmailNormalized } });
+    if (taken) {
+      return res.status(409).json({ error: 'Email already registered' });
+    }
+
+    const { token, expiresAt } = await issueUserToken(prisma, user.id, 'email_change', { newEmail });
+    sendEmailChangeConfirmation(newEmail, token, expiresAt);
+
+    return res.status(202).json({ ok: true, pendingEmail: newEmail, expiresAt });
+  } catch (error) {
+    console.error('Failed to start email change', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to start email change' });
+  }
+});
+
+// POST /auth/confirm-email-change — apply a pending email change with the token sent to the new address
+router.post('/confirm-email-change', async (req, res) => {
+  try {
+    const parsed = confirmEmailChangeSchema.parse(req.body);
+
+    const result = await prisma.$transaction(async (tx) => {
+      const consumed = await consumeUserToken(tx, parsed.token, 'email_change');
+      if (!consumed || !consumed.newEmail) return { kind: 'invalid' as const };
+
+      const user = await tx.user.findUnique({ where: { id: consumed.userId } });
+      if (!user) return { kind: 'invalid' as const };
+
+      const emailNormalized = normalizeEmail(consumed.newEmail);
+      const taken = await tx.user.findUnique({ where: { emailNormalized } });
+      if (taken && taken.id !== user.id) return { kind: 'taken' as const };
+
+      await tx.user.update({
+        where: { id: user.id },
+        data: { email: consumed.newEmail, emailNormalized },
+      });
+      return { kind: 'ok' as const, oldEmail: user.email, email: consumed.newEmail };
+    });
+
+    if (result.kind === 'invalid') return res.status(400).json({ error: 'Invalid or expired token' });
+    if (result.kind === 'taken') return res.status(409).json({ error: 'Email already registered' });
+
+    sendEmailChangedNotice(result.oldEmail, result.email);
+    return res.json({ ok: true, email: result.email });
+  } catch (error: any) {
+    console.error('Failed to confirm email change', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: error.errors });
+    }
+    if (error?.code === 'P2002') {
+      return res.status(409).json({ error: 'Email already registered' });
+    }
+
+    return res.status(500).json({ error: 'Failed to confirm email change' });
+  }
+});
+
+// ------------------------------
+// Sessions (refresh tokens)
+// ------------------------------
+
+// POST /auth/refresh — exchange a refresh token for a new access token + rotated refresh token
+router.post('/refresh', async (req, res) => {
+  try {
+    const parsed = refreshSchema.parse(req.body);
+    const result = await refreshSession(parsed.refreshToken, getSessionMeta(req));
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    return res.json({ token: result.token, refreshToken: result.refreshToken, user: result.user });
+  } catch (error) {
+    console.error('Failed to refresh session', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to refresh session' });
+  }
+});
+
+// POST /auth/logout — revoke the session of a refresh token (works with an expired access token)
+router.post('/logout', async (req, res) => {
+  try {
+    const parsed = refreshSchema.parse(req.body);
+    await revokeSessionByRefreshToken(parsed.refreshToken);
+    return res.json({ ok: true });
+  } catch (error) {
+    console.error('Failed to logout', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to logout' });
+  }
+});
+
+// POST /auth/logout-all — sign out everywhere: revoke all sessions and every issued access token
+router.post('/logout-all', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Unauthorized' });
+
+    const revoked = await revokeAllSessions(prisma, req.user.id);
+    return res.json({ ok: true, revoked });
+  } catch (error) {
+    console.error('Failed to revoke sessions', error);
+    return res.status(500).json({ error: 'Failed to revoke sessions' });
+  }
+});
+
+// GET /auth/sessions — active sessions of the current user (device, IP, last seen)
+router.get('/sessions', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Unauthorized' });
+
+    const sessions = await listActiveSessions(req.user.id);
+    return res.json(sessions.map((s) => ({ ...s, current: s.id === req.user!.sessionId })));
+  } catch (error) {
+    console.error('Failed to list sessions', error);
+    return res.status(500).json({ error: 'Failed to list sessions' });
+  }
+});
+
+// DELETE /auth/sessions/:id — revoke one of the current user's sessions
+router.delete('/sessions/:id', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Unauthorized' });
+
+    const id = Number(req.params.id);
+    if (!Number.isFinite(id) || id <= 0) {
+      return res.status(400).json({ error: 'Invalid session id' });
+    }
+
+    const revoked = await revokeSession(prisma, req.user.id, id);
+    if (!revoked) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    return res.json({ ok: true });
+  } catch (error) {
+    console.error('Failed to revoke session', error);
+    return res.status(500).json({ error: 'Failed to revoke session' });
+  }
+});
+
+// ------------------------------
+// Two-factor authentication (TOTP)
+// ------------------------------
+
+// GET /auth/2fa — 2FA status of the current user
+router.get('/2fa', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Unauthorized' });
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: { totpEnabledAt: true },
+    });
+    if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+    return res.json({
+      enabled: !!user.totpEnabledAt,
+      enabledAt: user.totpEnabledAt,
+      recoveryCodesRemaining: user.totpEnabledAt ? await countRemainingRecoveryCodes(prisma, req.user.id) : 0,
+      // The active project requires 2FA for this role and it is not enabled yet.
+      setupRequired: !!req.user.twoFactorSetupRequired,
+    });
+  } catch (error) {
+    console.error('Failed to load 2FA status', error);
+    return res.status(500).json({ error: 'Failed to load 2FA status' });
+  }
+});
+
+// POST /auth/2fa/setup — start enrollment: new secret + otpauth:// URI (QR); active after /auth/2fa/enable
+router.post('/2fa/setup', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Unauthorized' });
+
+    const parsed = twoFactorSetupSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({ where: { id: req.user.id } });
+    if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+    if (user.totpEnabledAt) {
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    const passwordMatches = await bcrypt.compare(parsed.currentPassword, user.password);
+    if (!passwordMatches) {
+      return res.status(400).json({ error: 'Current password is incorrect' });
+    }
+
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { totpSecret: secret, totpLastUsedStep: null },
+    });
+
+    return res.json({ secret, otpauthUrl: buildOtpauthUrl(secret, user.email) });
+  } catch (error) {
+    console.error('Failed to start 2FA setup', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to start 2FA setup' });
+  }
+});
+
+// POST /auth/2fa/enable — confirm enrollment with a code from the app; returns recovery codes once
+router.post('/2fa/enable', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Unauthorized' });
+    const userId = req.user.id;
+
+    const parsed = twoFactorCodeSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { totpSecret: true, totpEnabledAt: true },
+    });
+    if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+    if (user.totpEnabledAt) {
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+    if (!user.totpSecret) {
+      return res.status(400).json({ error: 'Start setup first (POST /auth/2fa/setup)' });
+    }
+
+    const recoveryCodes = await prisma.$transaction(async (tx) => {
+      if (!(await consumeTotpCode(tx, userId, parsed.code))) return null;
+      await tx.user.update({ where: { id: userId }, data: { totpEnabledAt: new Date() } });
+      return generateRecoveryCodes(tx, userId);
+    });
+    if (!recoveryCodes) {
+      return res.status(400).json({ error: 'Invalid two-factor code' });
+    }
+
+    return res.json({ enabled: true, recoveryCodes });
+  } catch (error) {
+    console.error('Failed to enable 2FA', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to enable 2FA' });
+  }
+});
+
+// POST /auth/2fa/recovery-codes — replace recovery codes (requires a current TOTP code)
+router.post('/2fa/recovery-codes', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Unauthorized' });
+    const userId = req.user.id;
+
+    const parsed = twoFactorCodeSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { totpEnabledAt: true } });
+    if (!user?.totpEnabledAt) {
+      return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    }
+
+    const recoveryCodes = await prisma.$transaction(async (tx) => {
+      if (!(await consumeTotpCode(tx, userId, parsed.code))) return null;
+      return generateRecoveryCodes(tx, userId);
+    });
+    if (!recoveryCodes) {
+      return res.status(400).json({ error: 'Invalid two-factor code' });
+    }
+
+    return res.json({ recoveryCodes });
+  } catch (error) {
+    console.error('Failed to regenerate recovery codes', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to regenerate recovery codes' });
+  }
+});
+
+// POST /auth/2fa/disable — requires the current password and a TOTP or recovery code
+router.post('/2fa/disable', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Unauthorized' });
+    const userId = req.user.id;
+
+    const parsed = twoFactorDisableSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+    if (!user.totpEnabledAt) {
+      return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    }
+
+    const passwordMatches = await bcrypt.compare(parsed.currentPassword, user.password);
+    if (!passwordMatches) {
+      return res.status(400).json({ error: 'Current password is incorrect' });
+    }
+
+    const disabled = await prisma.$transaction(async (tx) => {
+      const verified = await verifySecondFactor(tx, userId, parsed);
+      if (!verified.ok) return false;
+      await tx.user.update({
+        where: { id: userId },
+        data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null },
+      });
+      await tx.userRecoveryCode.deleteMany({ where: { userId } });
+      return true;
+    });
+    if (!disabled) {
+      return res.status(400).json({ error: 'Invalid two-factor code' });
+    }
+
+    return res.json({ enabled: false });
+  } catch (error) {
+    console.error('Failed to disable 2FA', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to disable 2FA' });
+  }
+});
+
 // GET /auth/me
 router.get('/me', requireAuth, async (req: AuthRequest, res) => {
   if (!req.user) {
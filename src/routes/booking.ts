@@ -0,0 +1,517 @@
+import express from 'express';
+import { z, ZodError } from 'zod';
+import prisma from '../db/client';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { AuthRequest } from '../types/auth';
+import { normalizeIsoDate } from '../services/publicFormSchema';
+import { computeBookingSlots, listDates, timeToMinutes, toSlotDateTime } from '../services/booking';
+
+const router = express.Router();
+
+function parseId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isFinite(id) && id > 0 ? id : null;
+}
+
+const isoDateSchema = z
+  .string()
+  .refine((v) => normalizeIsoDate(v) !== null, 'date must be YYYY-MM-DD')
+  .transform((v) => normalizeIsoDate(v) as string);
+
+// "24:00" is allowed as a window end only.
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'time must be HH:MM');
+const endTimeSchema = z.union([timeSchema, z.literal('24:00')]);
+
+const createServiceSchema = z.object({
+  key: z
+    .string()
+    .min(1, 'key is required')
+    .max(64)
+    .regex(/^[a-z0-9][a-z0-9_-]*$/, 'key can contain lowercase letters, digits, "-" and "_" only'),
+  name: z.string().min(1, 'name is required').max(120),
+  durationMinutes: z.number().int().min(5).max(24 * 60),
+  capacity: z.number().int().min(1).max(1000).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const updateServiceSchema = createServiceSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+    path: ['name'],
+  });
+
+const availabilitySchema = z.object({
+  windows: z
+    .array(
+      z
+        .object({
+          serviceId: z.number().int().positive().nullable().optional(),
+          weekday: z.number().int().min(1).max(7),
+          startTime: timeSchema,
+          endTime: endTimeSchema,
+        })
+        .refine((w) => timeToMinutes(w.startTime)! < (w.endTime === '24:00' ? 24 * 60 : timeToMinutes(w.endTime)!), {
+          message: 'startTime must be before endTime',
+          path: ['endTime'],
+        })
+    )
+    .max(500),
+});
+
+const createBlackoutSchema = z.object({
+  date: isoDateSchema,
+  serviceId: z.number().int().positive().nullable().optional(),
+  reason: z.string().max(255).optional(),
+});
+
+/** serviceId must belong to the current project (null/undefined = all services). */
+async function findForeignServiceIds(projectId: number, ids: Array<number | null | undefined>) {
+  const wanted = Array.from(new Set(ids.filter((id): id is number => typeof id === 'number')));
+  if (wanted.length === 0) return [];
+  const found = await prisma.bookingService.findMany({
+    where: { projectId, id: { in: wanted } },
+    select: { id: true },
+  });
+  const ok = new Set(found.map((s) => s.id));
+  return wanted.filter((id) => !ok.has(id));
+}
+
+// ---------- Services ----------
+
+/**
+ * GET /booking/services
+ * Bookable services of the current project (including inactive ones).
+ */
+router.get('/services', requireAuth, requirePermission('booking.read'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const services = await prisma.bookingService.findMany({
+      where: { projectId: user.projectId },
+      orderBy: [{ name: 'asc' }, { id: 'asc' }],
+    });
+
+    return res.json(services);
+  } catch (error: any) {
+    console.error('Error loading booking services', error);
+    return res.status(500).json({ error: 'Failed to load booking services' });
+  }
+});
+
+/**
+ * POST /booking/services
+ * Body: { key, name, durationMinutes, capacity?, isActive? }
+ * `key` is the value the booking form sends in its "service" field.
+ */
+router.post('/services', requireAuth, requirePermission('booking.write'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const parsed = createServiceSchema.parse(req.body);
+
+    const service = await prisma.bookingService.create({
+      data: { projectId: user.projectId, ...parsed },
+    });
+
+    return res.status(201).json(service);
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    if (error && error.code === 'P2002') {
+      return res.status(409).json({ error: 'Service with this key already exists' });
+    }
+    console.error('Error creating booking service', error);
+    return res.status(500).json({ error: 'Failed to create booking service' });
+  }
+});
+
+/**
+ * PATCH /booking/services/:id
+ * Changing duration/capacity affects future slots only; existing bookings keep their times.
+ */
+router.patch('/services/:id', requireAuth, requirePermission('booking.write'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid service id' });
+    }
+
+    const parsed = updateServiceSchema.parse(req.body);
+
+    const existing = await prisma.bookingService.findFirst({
+      where: { id, projectId: user.projectId },
+      select: { id: true },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Service not found' });
+    }
+
+    const service = await prisma.bookingService.update({ where: { id }, data: parsed });
+    return res.json(service);
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    if (error && error.code === 'P2002') {
+      return res.status(409).json({ error: 'Service with this key already exists' });
+    }
+    console.error('Error updating booking service', error);
+    return res.status(500).json({ error: 'Failed to update booking service' });
+  }
+});
+
+/**
+ * DELETE /booking/services/:id
+ * Services with bookings cannot be deleted (history is kept) — deactivate them instead.
+ */
+router.delete('/services/:id', requireAuth, requirePermission('booking.write'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid service id' });
+    }
+
+    const existing = await prisma.bookingService.findFirst({
+      where: { id, projectId: user.projectId },
+      select: { id: true, _count: { select: { bookings: true } } },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Service not found' });
+    }
+    if (existing._count.bookings > 0) {
+      return res.status(409).json({ error: 'Service has bookings; set isActive=false instead' });
+    }
+
+    await prisma.bookingService.delete({ where: { id } });
+    return res.status(204).send();
+  } catch (error: any) {
+    console.error('Error deleting booking service', error);
+    return res.status(500).json({ error: 'Failed to delete booking service' });
+  }
+});
+
+// ---------- Availability ----------
+
+/**
+ * GET /booking/availability
+ * Weekly availability windows (weekday: 1 = Monday ... 7 = Sunday).
+ */
+router.get('/availability', requireAuth, requirePermission('booking.read'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const windows = await prisma.availabilityWindow.findMany({
+      where: { projectId: user.projectId },
+      orderBy: [{ weekday: 'asc' }, { startTime: 'asc' }, { id: 'asc' }],
+    });
+
+    return res.json(windows);
+  } catch (error: any) {
+    console.error('Error loading availability', error);
+    return res.status(500).json({ error: 'Failed to load availability' });
+  }
+});
+
+/**
+ * PUT /booking/availability
+ * Body: { windows: [{ weekday, startTime, endTime, serviceId? }] }
+ * Replaces the whole weekly schedule. serviceId = null applies to every service.
+ */
+router.put('/availability', requireAuth, requirePermission('booking.write'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const parsed = availabilitySchema.parse(req.body);
+    const projectId = user.projectId;
+
+    const foreign = await findForeignServiceIds(projectId, parsed.windows.map((w) => w.serviceId));
+    if (foreign.length) {
+      return res.status(400).json({ error: 'Unknown service', details: foreign.map((id) => ({ serviceId: id })) });
+    }
+
+    const windows = await prisma.$transaction(async (tx) => {
+      await tx.availabilityWindow.deleteMany({ where: { projectId } });
+      if (parsed.windows.length) {
+        await tx.availabilityWindow.createMany({
+          data: parsed.windows.map((w) => ({
+            projectId,
+            serviceId: w.serviceId ?? null,
+            weekday: w.weekday,
+            startTime: w.startTime,
+            endTime: w.endTime,
+          })),
+        });
+      }
+      return tx.availabilityWindow.findMany({
+        where: { projectId },
+        orderBy: [{ weekday: 'asc' }, { startTime: 'asc' }, { id: 'asc' }],
+      });
+    });
+
+    return res.json(windows);
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    console.error('Error updating availability', error);
+    return res.status(500).json({ error: 'Failed to update availability' });
+  }
+});
+
+// ---------- Blackout dates ----------
+
+/**
+ * GET /booking/blackouts?from=YYYY-MM-DD&to=YYYY-MM-DD
+ */
+router.get('/blackouts', requireAuth, requirePermission('booking.read'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const from = req.query.from ? normalizeIsoDate(String(req.query.from)) : null;
+    const to = req.query.to ? normalizeIsoDate(String(req.query.to)) : null;
+    if ((req.query.from && !from) || (req.query.to && !to)) {
+      return res.status(400).json({ error: 'from/to must be YYYY-MM-DD' });
+    }
+
+    const blackouts = await prisma.blackoutDate.findMany({
+      where: {
+        projectId: user.projectId,
+        ...(from || to
+          ? {
+              date: {
+                ...(from ? { gte: toSlotDateTime(from, 0) } : {}),
+                ...(to ? { lte: toSlotDateTime(to, 0) } : {}),
+              },
+            }
+          : {}),
+      },
+      orderBy: [{ date: 'asc' }, { id: 'asc' }],
+    });
+
+    return res.json(blackouts);
+  } catch (error: any) {
+    console.error('Error loading blackout dates', error);
+    return res.status(500).json({ error: 'Failed to load blackout dates' });
+  }
+});
+
+/**
+ * POST /booking/blackouts
+ * Body: { date: "YYYY-MM-DD", serviceId?, reason? }
+ * Existing bookings on that date are kept; only new slots disappear.
+ */
+router.post('/blackouts', requireAuth, requirePermission('booking.write'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const parsed = createBlackoutSchema.parse(req.body);
+
+    const foreign = await findForeignServiceIds(user.projectId, [parsed.serviceId]);
+    if (foreign.length) {
+      return res.status(400).json({ error: 'Unknown service', details: foreign.map((id) => ({ serviceId: id })) });
+    }
+
+    const blackout = await prisma.blackoutDate.create({
+      data: {
+        projectId: user.projectId,
+        serviceId: parsed.serviceId ?? null,
+        date: toSlotDateTime(parsed.date, 0),
+        reason: parsed.reason,
+      },
+    });
+
+    return res.status(201).json(blackout);
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    console.error('Error creating blackout date', error);
+    return res.status(500).json({ error: 'Failed to create blackout date' });
+  }
+});
+
+/**
+ * DELETE /booking/blackouts/:id
+ */
+router.delete('/blackouts/:id', requireAuth, requirePermission('booking.write'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid blackout id' });
+    }
+
+    const result = await prisma.blackoutDate.deleteMany({ where: { id, projectId: user.projectId } });
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'Blackout date not found' });
+    }
+
+    return res.status(204).send();
+  } catch (error: any) {
+    console.error('Error deleting blackout date', error);
+    return res.status(500).json({ error: 'Failed to delete blackout date' });
+  }
+});
+
+// ---------- Bookings ----------
+
+/**
+ * GET /booking/bookings?from=YYYY-MM-DD&to=YYYY-MM-DD&serviceId=&status=
+ * Bookings with their service, contact and case (ordered by start time).
+ */
+router.get('/bookings', requireAuth, requirePermission('booking.read'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const from = req.query.from ? normalizeIsoDate(String(req.query.from)) : null;
+    const to = req.query.to ? normalizeIsoDate(String(req.query.to)) : null;
+    if ((req.query.from && !from) || (req.query.to && !to)) {
+      return res.status(400).json({ error: 'from/to must be YYYY-MM-DD' });
+    }
+
+    const serviceId = req.query.serviceId ? parseId(String(req.query.serviceId)) : null;
+    if (req.query.serviceId && !serviceId) {
+      return res.status(400).json({ error: 'Invalid serviceId' });
+    }
+
+    const status = typeof req.query.status === 'string' && req.query.status ? req.query.status : undefined;
+
+    const bookings = await prisma.booking.findMany({
+      where: {
+        projectId: user.projectId,
+        ...(serviceId ? { serviceId } : {}),
+        ...(status ? { status } : {}),
+        ...(from || to
+          ? {
+              startsAt: {
+                ...(from ? { gte: toSlotDateTime(from, 0) } : {}),
+                ...(to ? { lt: toSlotDateTime(to, 24 * 60) } : {}),
+              },
+            }
+          : {}),
+      },
+      orderBy: [{ startsAt: 'asc' }, { id: 'asc' }],
+      include: {
+        service: { select: { id: true, key: true, name: true } },
+        contact: { select: { id: true, name: true, email: true, phone: true } },
+        case: { select: { id: true, title: true, status: true } },
+      },
+      take: 500,
+    });
+
+    return res.json(bookings);
+  } catch (error: any) {
+    console.error('Error loading bookings', error);
+    return res.status(500).json({ error: 'Failed to load bookings' });
+  }
+});
+
+/**
+ * POST /booking/bookings/:id/cancel
+ * Frees the slot; the linked Case is left as-is.
+ */
+router.post('/bookings/:id/cancel', requireAuth, requirePermission('booking.write'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid booking id' });
+    }
+
+    const existing = await prisma.booking.findFirst({
+      where: { id, projectId: user.projectId },
+      select: { id: true },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Booking not found' });
+    }
+
+    const booking = await prisma.booking.update({
+      where: { id },
+      data: { status: 'cancelled' },
+    });
+
+    return res.json(booking);
+  } catch (error: any) {
+    console.error('Error cancelling booking', error);
+    return res.status(500).json({ error: 'Failed to cancel booking' });
+  }
+});
+
+/**
+ * GET /booking/services/:id/slots?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Same as the public slots endpoint, but includes fully booked slots (remaining = 0).
+ */
+router.get('/services/:id/slots', requireAuth, requirePermission('booking.read'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid service id' });
+    }
+
+    const from = String(req.query.from || '');
+    const dates = listDates(from, String(req.query.to || from));
+    if (!dates) {
+      return res.status(400).json({ error: 'from/to must be YYYY-MM-DD, range up to 31 days' });
+    }
+
+    const service = await prisma.bookingService.findFirst({ where: { id, projectId: user.projectId } });
+    if (!service) {
+      return res.status(404).json({ error: 'Service not found' });
+    }
+
+    const days = await computeBookingSlots(prisma, service, dates);
+    return res.json({ service, days });
+  } catch (error: any) {
+    console.error('Error loading booking slots', error);
+    return res.status(500).json({ error: 'Failed to load booking slots' });
+  }
+});
+
+export default router;
@@ -1,8 +1,12 @@
 import express from 'express';
 import { z, ZodError } from 'zod';
 import prisma from '../db/client';
-import { requireAuth } from '../middleware/auth';
+import { requireAuth, requirePermission } from '../middleware/auth';
 import { AuthRequest } from '../types/auth';
+import { emitWebhookEvent, kickWebhookWorker } from '../services/webhooks';
+import { auditContext, recordAudit } from '../services/auditLog';
+import { listTrashQuerySchema, withPurgeAt } from '../services/trash';
+import { reinstateCaseBooking, releaseCaseBooking } from '../services/booking';
 
 const router = express.Router();
 
@@ -45,7 +49,7 @@ const listCasesQuerySchema = z.object({
 });
 
 // GET /cases - list cases for current project with optional filters
-router.get('/', requireAuth, async (req: AuthRequest, res) => {
+router.get('/', requireAuth, requirePermission('cases.read'), async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -54,7 +58,7 @@ router.get('/', requireAuth, async (req: AuthRequest, res) => {
     const projectId = req.user.projectId;
     const { status, dateFrom, dateTo } = listCasesQuerySchema.parse(req.query);
 
-    const where: any = { projectId };
+    const where: any = { projectId, deletedAt: null };
 
     if (status) {
       // support simple comma-separated list: status=new,in_progress
@@ -110,8 +114,47 @@ router.get('/', requireAuth, async (req: AuthRequest, res) => {
   }
 });
 
+// GET /cases/trash?limit=50&cursor= - deleted cases, newest first, with their purge date
+router.get('/trash', requireAuth, requirePermission('cases.read'), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = req.user.projectId;
+    const query = listTrashQuerySchema.parse(req.query);
+
+    const where: any = { projectId, deletedAt: { not: null } };
+    if (query.cursor) where.id = { lt: query.cursor };
+
+    const limit = query.limit ?? 50;
+    const items = await prisma.case.findMany({
+      where,
+      orderBy: { id: 'desc' },
+      take: limit,
+      include: {
+        contact: true,
+        _count: { select: { tasks: true } },
+      },
+    });
+
+    return res.json({
+      items: items.map(withPurgeAt),
+      nextCursor: items.length === limit ? items[items.length - 1].id : null,
+    });
+  } catch (error: any) {
+    console.error('Error fetching deleted cases', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid query', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to fetch deleted cases' });
+  }
+});
+
 // POST /cases - create a case for current project
-router.post('/', requireAuth, async (req: AuthRequest, res) => {
+router.post('/', requireAuth, requirePermission('cases.write'), async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -129,6 +172,7 @@ router.post('/', requireAuth, async (req: AuthRequest, res) => {
             id: contactId,
             projectId,
           },
+          deletedAt: null,
         },
       });
 
@@ -137,21 +181,33 @@ router.post('/', requireAuth, async (req: AuthRequest, res) => {
       }
     }
 
-    const created = await prisma.case.create({
-      data: {
+    const created = await prisma.$transaction(async (tx) => {
+      const c = await tx.case.create({
+        data: {
+          projectId,
+          contactId: contactId ?? null,
+          title: parsed.title,
+          description: parsed.description ?? null,
+          internalNote: parsed.internalNote ?? null,
+          status: parsed.status || 'new',
+          source: parsed.source || null,
+        },
+        include: {
+          contact: true,
+        },
+      });
+      await emitWebhookEvent(tx, projectId, 'case.created', { case: c });
+      await recordAudit(tx, auditContext(req), {
         projectId,
-        contactId: contactId ?? null,
-        title: parsed.title,
-        description: parsed.description ?? null,
-        internalNote: parsed.internalNote ?? null,
-        status: parsed.status || 'new',
-        source: parsed.source || null,
-      },
-      include: {
-        contact: true,
-      },
+        entityType: 'case',
+        entityId: c.id,
+        action: 'create',
+        after: c,
+      });
+      return c;
     });
 
+    kickWebhookWorker();
     return res.status(201).json(created);
   } catch (error: any) {
     console.error('Error creating case', error);
@@ -168,7 +224,7 @@ router.post('/', requireAuth, async (req: AuthRequest, res) => {
 });
 
 // PATCH /cases/:id - update a case
-router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
+router.patch('/:id', requireAuth, requirePermission('cases.write'), async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -192,6 +248,7 @@ router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
             id: contactId,
             projectId,
           },
+          deletedAt: null,
         },
       });
 
@@ -200,26 +257,54 @@ router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
       }
     }
 
-    const updated = await prisma.case.update({
-      where: {
-        id_projectId: {
-          id,
-          projectId,
+    const updated = await prisma.$transaction(async (tx) => {
+      const before = await tx.case.findUnique({
+        where: { id_projectId: { id, projectId } },
+      });
+
+      const c = await tx.case.update({
+        where: {
+          id_projectId: {
+            id,
+            projectId,
+          },
+          deletedAt: null,
         },
-      },
-      data: {
-        title: data.title,
-        description: data.description,
-        internalNote: data.internalNote,
-        status: data.status,
-        source: data.source,
-        contactId: contactId ?? undefined,
-      },
-      include: {
-        contact: true,
-      },
+        data: {
+          title: data.title,
+          description: data.description,
+          internalNote: data.internalNote,
+          status: data.status,
+          source: data.source,
+          contactId: contactId ?? undefined,
+        },
+        include: {
+          contact: true,
+        },
+      });
+
+      // { field: { from, to } } for fields whose value actually changed.
+      const changes: Record<string, { from: unknown; to: unknown }> = {};
+      if (before) {
+        for (const key of ['title', 'description', 'internalNote', 'status', 'source', 'contactId'] as const) {
+          if (before[key] !== c[key]) changes[key] = { from: before[key], to: c[key] };
+        }
+      }
+      if (Object.keys(changes).length > 0) {
+        await emitWebhookEvent(tx, projectId, 'case.updated', { case: c, changes });
+      }
+      await recordAudit(tx, auditContext(req), {
+        projectId,
+        entityType: 'case',
+        entityId: id,
+        action: 'update',
+        before,
+        after: c,
+      });
+      return c;
     });
 
+    kickWebhookWorker();
     return res.json(updated);
   } catch (error: any) {
     console.error('Error updating case', error);
@@ -243,8 +328,8 @@ router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
   }
 });
 
-// DELETE /cases/:id - delete a case
-router.delete('/:id', requireAuth, async (req: AuthRequest, res) => {
+// DELETE /cases/:id - move a case (with its tasks) to trash; linked transactions stay as they are
+router.delete('/:id', requireAuth, requirePermission('cases.write'), async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -257,13 +342,25 @@ router.delete('/:id', requireAuth, async (req: AuthRequest, res) => {
       return res.status(400).json({ error: 'Invalid case id' });
     }
 
-    await prisma.case.delete({
-      where: {
-        id_projectId: {
-          id,
-          projectId,
+    await prisma.$transaction(async (tx) => {
+      const trashed = await tx.case.update({
+        where: {
+          id_projectId: {
+            id,
+            projectId,
+          },
+          deletedAt: null,
         },
-      },
+        data: { deletedAt: new Date() },
+      });
+      await releaseCaseBooking(tx, id);
+      await recordAudit(tx, auditContext(req), {
+        projectId,
+        entityType: 'case',
+        entityId: id,
+        action: 'delete',
+        before: { ...trashed, deletedAt: null },
+      });
     });
 
     return res.status(204).send();
@@ -278,4 +375,57 @@ router.delete('/:id', requireAuth, async (req: AuthRequest, res) => {
   }
 });
 
+// POST /cases/:id/restore - bring a case (and its tasks, and its booking if the slot is free) back from trash
+router.post('/:id/restore', requireAuth, requirePermission('cases.write'), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = req.user.projectId;
+    const id = Number(req.params.id);
+
+    if (Number.isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid case id' });
+    }
+
+    const restored = await prisma.$transaction(async (tx) => {
+      const before = await tx.case.findUnique({ where: { id_projectId: { id, projectId } } });
+      const c = await tx.case.update({
+        where: {
+          id_projectId: {
+            id,
+            projectId,
+          },
+          deletedAt: { not: null },
+        },
+        data: { deletedAt: null },
+        include: {
+          contact: true,
+        },
+      });
+      const booking = await reinstateCaseBooking(tx, id);
+      await recordAudit(tx, auditContext(req), {
+        projectId,
+        entityType: 'case',
+        entityId: id,
+        action: 'restore',
+        before,
+        after: c,
+      });
+      return booking ? { ...c, booking } : c;
+    });
+
+    return res.json(restored);
+  } catch (error: any) {
+    console.error('Error restoring case', error);
+
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Case not found in trash' });
+    }
+
+    return res.status(500).json({ error: 'Failed to restore case' });
+  }
+});
+
 export default router;
@@ -1,8 +1,23 @@
-import express from 'express';
+import express, { Response } from 'express';
 import { z, ZodError } from 'zod';
 import prisma from '../db/client';
-import { requireAuth } from '../middleware/auth';
-import { AuthRequest } from '../types/auth';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { AuthRequest, AuthUser } from '../types/auth';
+import { emitWebhookEvent, kickWebhookWorker } from '../services/webhooks';
+import { auditContext, recordAudit } from '../services/auditLog';
+import { listTrashQuerySchema, withPurgeAt } from '../services/trash';
+import { contactListQuerySchema, listContactsPage } from '../services/contacts';
+import { getContactDetail, TimelineAccess } from '../services/contactTimeline';
+import { contactImportQuerySchema, importContactsCsv } from '../services/contactImport';
+import { CONTACT_EXPORT_FORMATS, contactExportChunks, contactExportQuerySchema } from '../services/contactExport';
+import {
+  findDuplicateCandidates,
+  listDuplicatesQuerySchema,
+  mergeContacts,
+  mergeContactsSchema,
+} from '../services/contactMerge';
+import { hasPermission, Permission } from '../services/permissions';
+import { ApiKeyResource, hasApiKeyScope } from '../services/apiKeys';
 import { normalizeEmailOptional } from '../utils/normalizeEmail';
 import { normalizePhoneOptional } from '../utils/normalizePhone';
 
@@ -38,8 +53,18 @@ const updateContactSchema = z
     }
   );
 
-// GET /contacts - list contacts for current project
-router.get('/', requireAuth, async (req: AuthRequest, res) => {
+// Old clients expected a plain array; they can opt in with ?format=array (still one page of `limit`).
+// A request without any query parameter gets that array too, newest first and capped at LEGACY_CONTACTS_LIMIT.
+const LEGACY_CONTACTS_LIMIT = 1000;
+
+const listContactsRouteQuerySchema = contactListQuerySchema.extend({
+  format: z.enum(['page', 'array']).optional(),
+});
+
+// GET /contacts?q=&email=&phone=&dateFrom=&dateTo=&publicFormId=&hasOpenCases=&sort=&order=&limit=50&cursor=&format=
+// Search/filter/sort with cursor pagination: { items, nextCursor, total }.
+// Without any query parameter: the legacy array (X-Total-Count tells whether it was cut off).
+router.get('/', requireAuth, requirePermission('contacts.read'), async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -47,20 +72,200 @@ router.get('/', requireAuth, async (req: AuthRequest, res) => {
 
     const projectId = req.user.projectId;
 
-    const contacts = await prisma.contact.findMany({
-      where: { projectId },
-      orderBy: { createdAt: 'desc' },
-    });
+    if (Object.keys(req.query).length === 0) {
+      const legacy = await listContactsPage(projectId, { limit: LEGACY_CONTACTS_LIMIT });
+      if (!legacy.ok) {
+        return res.status(400).json({ error: legacy.error });
+      }
+      res.set('X-Total-Count', String(legacy.total));
+      return res.json(legacy.items);
+    }
 
-    return res.json(contacts);
+    const { format, ...query } = listContactsRouteQuerySchema.parse(req.query);
+    const page = await listContactsPage(projectId, query);
+    if (!page.ok) {
+      return res.status(400).json({ error: page.error });
+    }
+
+    if (format === 'array') {
+      return res.json(page.items);
+    }
+    return res.json({ items: page.items, nextCursor: page.nextCursor, total: page.total });
   } catch (error) {
     console.error('Error fetching contacts', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid query', details: error.errors });
+    }
+
     return res.status(500).json({ error: 'Failed to fetch contacts' });
   }
 });
 
+// GET /contacts/trash?limit=50&cursor= - deleted contacts, newest first, with their purge date
+router.get('/trash', requireAuth, requirePermission('contacts.read'), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = req.user.projectId;
+    const query = listTrashQuerySchema.parse(req.query);
+
+    const where: any = { projectId, deletedAt: { not: null } };
+    if (query.cursor) where.id = { lt: query.cursor };
+
+    const limit = query.limit ?? 50;
+    const items = await prisma.contact.findMany({
+      where,
+      orderBy: { id: 'desc' },
+      take: limit,
+    });
+
+    return res.json({
+      items: items.map(withPurgeAt),
+      nextCursor: items.length === limit ? items[items.length - 1].id : null,
+    });
+  } catch (error) {
+    console.error('Error fetching deleted contacts', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid query', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to fetch deleted contacts' });
+  }
+});
+
+// GET /contacts/duplicates?limit=50 - pairs of contacts that are probably the same person
+router.get('/duplicates', requireAuth, requirePermission('contacts.read'), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const query = listDuplicatesQuerySchema.parse(req.query);
+    const result = await findDuplicateCandidates(req.user.projectId, query.limit);
+
+    return res.json(result);
+  } catch (error) {
+    console.error('Error finding duplicate contacts', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid query', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to find duplicate contacts' });
+  }
+});
+
+/** Related data the caller may see: role permission and, for API keys, the key's scopes. */
+function relatedDataAccess(user: AuthUser): TimelineAccess {
+  const canRead = (permission: Permission, resource: ApiKeyResource) =>
+    hasPermission(user, permission) && (!user.scopes || hasApiKeyScope(user.scopes, `${resource}:read`));
+  return {
+    cases: canRead('cases.read', 'cases'),
+    tasks: canRead('tasks.read', 'tasks'),
+    transactions: canRead('transactions.read', 'transactions'),
+    submissions: canRead('forms.read', 'forms'),
+    emails: canRead('notifications.read', 'notifications'),
+  };
+}
+
+/** Resolves once the response can take more data (or the client went away). */
+function waitForDrain(res: Response): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
+
+// GET /contacts/export?format=csv&include=cases,donations - download the (filtered) contact list
+router.get('/export', requireAuth, requirePermission('contacts.read'), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const query = contactExportQuerySchema.parse(req.query);
+
+    const access = relatedDataAccess(req.user);
+    if (query.include.includes('cases') && !access.cases) {
+      return res.status(403).json({ error: 'Forbidden: case counts need permission "cases.read"' });
+    }
+    if (query.include.includes('donations') && !access.transactions) {
+      return res.status(403).json({ error: 'Forbidden: donation totals need permission "transactions.read"' });
+    }
+
+    const { contentType, extension } = CONTACT_EXPORT_FORMATS[query.format];
+    const fileName = `contacts-${new Date().toISOString().slice(0, 10)}.${extension}`;
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+    for await (const chunk of contactExportChunks(req.user.projectId, query)) {
+      if (res.destroyed) return;
+      if (!res.write(chunk)) await waitForDrain(res);
+    }
+
+    return res.end();
+  } catch (error) {
+    console.error('Error exporting contacts', error);
+
+    // Headers (and part of the file) may already be out; cut the download short instead.
+    if (res.headersSent) return res.destroy();
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid query', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to export contacts' });
+  }
+});
+
+const contactDetailQuerySchema = z.object({
+  order: z.enum(['asc', 'desc']).optional(),
+});
+
+// GET /contacts/:id?order=desc - contact with its activity timeline and lifetime totals
+router.get('/:id', requireAuth, requirePermission('contacts.read'), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = req.user.projectId;
+    const id = Number(req.params.id);
+
+    if (Number.isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid contact id' });
+    }
+
+    const query = contactDetailQuerySchema.parse(req.query);
+    const detail = await getContactDetail(projectId, id, relatedDataAccess(req.user), query.order);
+
+    if (!detail) {
+      return res.status(404).json({ error: 'Contact not found' });
+    }
+
+    return res.json(detail);
+  } catch (error) {
+    console.error('Error fetching contact', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid query', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to fetch contact' });
+  }
+});
+
 // POST /contacts - create a contact
-router.post('/', requireAuth, async (req: AuthRequest, res) => {
+router.post('/', requireAuth, requirePermission('contacts.write'), async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -74,18 +279,30 @@ router.post('/', requireAuth, async (req: AuthRequest, res) => {
     const emailNormalized = normalizeEmailOptional(email);
     const phoneNormalized = normalizePhoneOptional(phone);
 
-    const contact = await prisma.contact.create({
-      data: {
+    const contact = await prisma.$transaction(async (tx) => {
+      const created = await tx.contact.create({
+        data: {
+          projectId,
+          name: safeName,
+          email: email || null,
+          phone: phone || null,
+          emailNormalized: emailNormalized || null,
+          phoneNormalized: phoneNormalized || null,
+          notes: notes || null,
+        },
+      });
+      await emitWebhookEvent(tx, projectId, 'contact.created', { contact: created });
+      await recordAudit(tx, auditContext(req), {
         projectId,
-        name: safeName,
-        email: email || null,
-        phone: phone || null,
-        emailNormalized: emailNormalized || null,
-        phoneNormalized: phoneNormalized || null,
-        notes: notes || null,
-      },
+        entityType: 'contact',
+        entityId: created.id,
+        action: 'create',
+        after: created,
+      });
+      return created;
     });
 
+    kickWebhookWorker();
     return res.status(201).json(contact);
   } catch (error: any) {
     console.error('Error creating contact', error);
@@ -97,12 +314,17 @@ router.post('/', requireAuth, async (req: AuthRequest, res) => {
       });
     }
 
+    if (error.code === 'P2002') {
+      // Trashed contacts keep their email/phone until purged.
+      return res.status(409).json({ error: 'A contact with this email or phone already exists (it may be in trash)' });
+    }
+
     return res.status(500).json({ error: 'Failed to create contact' });
   }
 });
 
 // PATCH /contacts/:id - update a contact
-router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
+router.patch('/:id', requireAuth, requirePermission('contacts.write'), async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -120,18 +342,31 @@ router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
     const emailNormalized = data.email !== undefined ? normalizeEmailOptional(data.email) : undefined;
     const phoneNormalized = data.phone !== undefined ? normalizePhoneOptional(data.phone) : undefined;
 
-    const contact = await prisma.contact.update({
-      where: {
-        id_projectId: {
-          id,
-          projectId,
+    const contact = await prisma.$transaction(async (tx) => {
+      const before = await tx.contact.findUnique({ where: { id_projectId: { id, projectId } } });
+      const updated = await tx.contact.update({
+        where: {
+          id_projectId: {
+            id,
+            projectId,
+          },
+          deletedAt: null,
+        },
+        data: {
+          ...data,
+          ...(emailNormalized !== undefined ? { emailNormalized: emailNormalized || null } : {}),
+          ...(phoneNormalized !== undefined ? { phoneNormalized: phoneNormalized || null } : {}),
         },
-      },
-      data: {
-        ...data,
-        ...(emailNormalized !== undefined ? { emailNormalized: emailNormalized || null } : {}),
-        ...(phoneNormalized !== undefined ? { phoneNormalized: phoneNormalized || null } : {}),
-      },
+      });
+      await recordAudit(tx, auditContext(req), {
+        projectId,
+        entityType: 'contact',
+        entityId: id,
+        action: 'update',
+        before,
+        after: updated,
+      });
+      return updated;
     });
 
     return res.json(contact);
@@ -149,12 +384,16 @@ router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
       return res.status(404).json({ error: 'Contact not found' });
     }
 
+    if (error.code === 'P2002') {
+      return res.status(409).json({ error: 'A contact with this email or phone already exists (it may be in trash)' });
+    }
+
     return res.status(500).json({ error: 'Failed to update contact' });
   }
 });
 
-// DELETE /contacts/:id - delete a contact
-router.delete('/:id', requireAuth, async (req: AuthRequest, res) => {
+// DELETE /contacts/:id - move a contact to trash (its cases and transactions stay linked)
+router.delete('/:id', requireAuth, requirePermission('contacts.write'), async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -167,13 +406,24 @@ router.delete('/:id', requireAuth, async (req: AuthRequest, res) => {
       return res.status(400).json({ error: 'Invalid contact id' });
     }
 
-    await prisma.contact.delete({
-      where: {
-        id_projectId: {
-          id,
-          projectId,
+    await prisma.$transaction(async (tx) => {
+      const trashed = await tx.contact.update({
+        where: {
+          id_projectId: {
+            id,
+            projectId,
+          },
+          deletedAt: null,
         },
-      },
+        data: { deletedAt: new Date() },
+      });
+      await recordAudit(tx, auditContext(req), {
+        projectId,
+        entityType: 'contact',
+        entityId: id,
+        action: 'delete',
+        before: { ...trashed, deletedAt: null },
+      });
     });
 
     return res.status(204).send();
@@ -188,4 +438,128 @@ router.delete('/:id', requireAuth, async (req: AuthRequest, res) => {
   }
 });
 
+// POST /contacts/:id/restore - bring a contact back from trash
+router.post('/:id/restore', requireAuth, requirePermission('contacts.write'), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = req.user.projectId;
+    const id = Number(req.params.id);
+
+    if (Number.isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid contact id' });
+    }
+
+    const contact = await prisma.$transaction(async (tx) => {
+      const before = await tx.contact.findUnique({ where: { id_projectId: { id, projectId } } });
+      const restored = await tx.contact.update({
+        where: {
+          id_projectId: {
+            id,
+            projectId,
+          },
+          deletedAt: { not: null },
+        },
+        data: { deletedAt: null },
+      });
+      await recordAudit(tx, auditContext(req), {
+        projectId,
+        entityType: 'contact',
+        entityId: id,
+        action: 'restore',
+        before,
+        after: restored,
+      });
+      return restored;
+    });
+
+    return res.json(contact);
+  } catch (error: any) {
+    console.error('Error restoring contact', error);
+
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Contact not found in trash' });
+    }
+
+    return res.status(500).json({ error: 'Failed to restore contact' });
+  }
+});
+
+// POST /contacts/merge - merge a duplicate contact into a surviving one
+router.post('/merge', requireAuth, requirePermission('contacts.write'), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = req.user.projectId;
+    const data = mergeContactsSchema.parse(req.body);
+
+    const result = await prisma.$transaction((tx) => mergeContacts(tx, auditContext(req), projectId, data));
+
+    if (!result.ok) {
+      return res.status(404).json({ error: result.error });
+    }
+
+    kickWebhookWorker();
+    return res.json({ contact: result.contact, moved: result.moved });
+  } catch (error: any) {
+    console.error('Error merging contacts', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    return res.status(500).json({ error: 'Failed to merge contacts' });
+  }
+});
+
+// POST /contacts/import?dryRun=true&mapping[email]=E-mail - import contacts from a CSV body (text/csv)
+router.post(
+  '/import',
+  requireAuth,
+  requirePermission('contacts.write'),
+  express.text({ type: ['text/csv', 'text/plain', 'application/csv'], limit: '5mb' }),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Not authenticated' });
+      }
+
+      if (typeof req.body !== 'string') {
+        return res.status(400).json({ error: 'Send the CSV file as the request body with Content-Type: text/csv' });
+      }
+
+      const query = contactImportQuerySchema.parse(req.query);
+      const result = await importContactsCsv(req.user.projectId, req.body, query, auditContext(req));
+
+      if (!result.ok) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      if (!result.dryRun) kickWebhookWorker();
+      return res.json({
+        dryRun: result.dryRun,
+        totals: result.totals,
+        rows: result.rows,
+        completed: result.completed,
+        stoppedAtRow: result.stoppedAtRow,
+      });
+    } catch (error) {
+      console.error('Error importing contacts', error);
+
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: 'Invalid query', details: error.errors });
+      }
+
+      return res.status(500).json({ error: 'Failed to import contacts' });
+    }
+  }
+);
+
 export default router;
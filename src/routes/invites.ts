@@ -1,23 +1,24 @@
 import express from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import type { SignOptions } from 'jsonwebtoken';
 import crypto from 'crypto';
 import { z, ZodError } from 'zod';
 import prisma from '../db/client';
-import { requireAuth } from '../middleware/auth';
+import { requireAuth, requirePermission } from '../middleware/auth';
 import { AuthRequest } from '../types/auth';
 import { normalizeEmail } from '../utils/normalizeEmail';
+import { getRolePermissions, missingGrantPermissions } from '../services/permissions';
+import { getSessionMeta, signLoginChallenge, startSession } from '../services/sessions';
+import {
+  recordLoginFailure,
+  recordLoginSuccess,
+  releaseLoginAttempt,
+  reserveLoginAttempt,
+} from '../services/loginProtection';
+import { AuditContext, auditContext, recordAudit, userAuditContext } from '../services/auditLog';
+import { Prisma, ProjectInvite } from '../generated/prisma/client';
 
 const router = express.Router();
 
-const JWT_SECRET = (process.env.JWT_SECRET || 'dev-mini-crm-secret') as jwt.Secret;
-const JWT_EXPIRES_IN: SignOptions['expiresIn'] = (process.env.JWT_EXPIRES_IN as SignOptions['expiresIn']) || '7d';
-
-function signToken(payload: { userId: number; email: string; role: string; projectId: number }) {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
-}
-
 function normalizeInviteToken(input: unknown): string {
   // The admin UI may carry tokens wrapped in angle brackets from URLs (e.g. "<abc123>").
   // Normalize on the server to avoid confusing 404/"Invite not found" when the token is correct.
@@ -27,9 +28,57 @@ function normalizeInviteToken(input: unknown): string {
     .replace(/[>\s]+$/, '');
 }
 
+type InviteRow = Pick<ProjectInvite, 'id' | 'projectId' | 'role' | 'customRoleId'>;
+
+/** Grants the invite's role (new or existing membership), marks the invite used and audits both. */
+async function applyInvite(
+  tx: Prisma.TransactionClient,
+  ctx: AuditContext,
+  invite: InviteRow,
+  userId: number,
+  usedAt?: Date
+): Promise<void> {
+  const where = { userId_projectId: { userId, projectId: invite.projectId } };
+  const before = await tx.membership.findUnique({ where });
+  const membership = await tx.membership.upsert({
+    where,
+    update: { role: invite.role, customRoleId: invite.customRoleId },
+    create: {
+      projectId: invite.projectId,
+      userId,
+      role: invite.role,
+      customRoleId: invite.customRoleId,
+    },
+  });
+  await recordAudit(tx, ctx, {
+    projectId: invite.projectId,
+    entityType: 'membership',
+    entityId: membership.id,
+    action: before ? 'update' : 'create',
+    before,
+    after: membership,
+  });
+
+  const inviteBefore = await tx.projectInvite.findUnique({ where: { id: invite.id } });
+  const inviteAfter = await tx.projectInvite.update({
+    where: { id: invite.id },
+    data: { usedAt, usedByUserId: userId },
+  });
+  await recordAudit(tx, ctx, {
+    projectId: invite.projectId,
+    entityType: 'invite',
+    entityId: invite.id,
+    action: 'update',
+    before: inviteBefore,
+    after: inviteAfter,
+  });
+}
+
 const createInviteSchema = z
   .object({
     role: z.enum(['admin', 'viewer']).optional().default('admin'),
+    // Custom project role (overrides `role`).
+    roleId: z.number().int().positive().optional(),
     // Back-compat: older clients used `expiresInDays`.
     expiresInDays: z.number().int().positive().max(365).optional(),
     // Newer clients (and our docs/scripts) use `ttlHours` for more control.
@@ -43,6 +92,7 @@ const createInviteSchema = z
     const normalizedTtlHours = ttlHours ?? (expiresInDays ?? 7) * 24;
     return {
       role: v.role ?? 'admin',
+      roleId: v.roleId,
       ttlHours: normalizedTtlHours,
     };
   });
@@ -57,36 +107,67 @@ const acceptInvitePublicSchema = z.object({
   password: z.string().min(6, 'password is required'),
 });
 
-function assertProjectAdmin(role: string): boolean {
-  return role === 'owner' || role === 'admin';
-}
-
 // POST /invites — create invite token for current project
-router.post('/', requireAuth, async (req: AuthRequest, res) => {
+router.post('/', requireAuth, requirePermission('members.manage'), async (req: AuthRequest, res) => {
   try {
     if (!req.user) return res.status(401).json({ error: 'Unauthorized' });
-    if (!assertProjectAdmin(req.user.role)) {
-      return res.status(403).json({ error: 'Forbidden' });
-    }
 
     const parsed = createInviteSchema.parse(req.body || {});
 
+    // A custom role is stored as role "viewer" + customRoleId (same as on Membership).
+    let role: 'admin' | 'viewer' = parsed.role;
+    let customRole: { id: number; name: string } | null = null;
+    let granted: string[] = getRolePermissions(role);
+    if (parsed.roleId) {
+      const found = await prisma.projectRole.findFirst({
+        where: { id: parsed.roleId, projectId: req.user.projectId },
+      });
+      if (!found) {
+        return res.status(404).json({ error: 'Role not found' });
+      }
+      role = 'viewer';
+      customRole = { id: found.id, name: found.name };
+      granted = found.permissions;
+    }
+
+    const missing = missingGrantPermissions(req.user, granted);
+    if (missing.length > 0) {
+      return res.status(403).json({
+        error: `Forbidden: cannot grant permissions you do not have (${missing.join(', ')})`,
+        requiredPermission: missing[0],
+      });
+    }
+
     const token = crypto.randomBytes(16).toString('hex');
     const expiresAt = new Date(Date.now() + parsed.ttlHours * 60 * 60 * 1000);
 
-    const invite = await prisma.projectInvite.create({
-      data: {
-        projectId: req.user.projectId,
-        token,
-        role: parsed.role,
-        expiresAt,
-        createdByUserId: req.user.id,
-      },
+    const projectId = req.user.projectId;
+    const createdByUserId = req.user.id;
+    const invite = await prisma.$transaction(async (tx) => {
+      const created = await tx.projectInvite.create({
+        data: {
+          projectId,
+          token,
+          role,
+          customRoleId: customRole?.id ?? null,
+          expiresAt,
+          createdByUserId,
+        },
+      });
+      await recordAudit(tx, auditContext(req), {
+        projectId,
+        entityType: 'invite',
+        entityId: created.id,
+        action: 'create',
+        after: created,
+      });
+      return created;
     });
 
     return res.status(201).json({
       token: invite.token,
       role: invite.role,
+      customRole,
       expiresAt: invite.expiresAt,
     });
   } catch (error) {
@@ -101,12 +182,9 @@ router.post('/', requireAuth, async (req: AuthRequest, res) => {
 });
 
 // GET /invites — list active (unused) invites for current project
-router.get('/', requireAuth, async (req: AuthRequest, res) => {
+router.get('/', requireAuth, requirePermission('members.manage'), async (req: AuthRequest, res) => {
   try {
     if (!req.user) return res.status(401).json({ error: 'Unauthorized' });
-    if (!assertProjectAdmin(req.user.role)) {
-      return res.status(403).json({ error: 'Forbidden' });
-    }
 
     const now = new Date();
 
@@ -116,6 +194,7 @@ router.get('/', requireAuth, async (req: AuthRequest, res) => {
         usedAt: null,
         OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
       },
+      include: { customRole: { select: { id: true, name: true } } },
       orderBy: { createdAt: 'desc' },
     });
 
@@ -123,6 +202,7 @@ router.get('/', requireAuth, async (req: AuthRequest, res) => {
       invites.map((i) => ({
         token: i.token,
         role: i.role,
+        customRole: i.customRole,
         expiresAt: i.expiresAt,
         createdAt: i.createdAt,
       }))
@@ -173,12 +253,23 @@ router.post('/accept-public', async (req, res) => {
 			const emailNormalized = normalizeEmail(email);
     const now = new Date();
 
+    // Same brute-force limits as /auth/login (this endpoint also checks passwords).
+    const attempt = { endpoint: 'accept_invite' as const, emailNormalized, meta: getSessionMeta(req) };
+    const gate = await reserveLoginAttempt(attempt);
+    if (!gate.allowed) {
+      res.set('Retry-After', String(gate.retryAfterSeconds));
+      return res.status(429).json({ error: gate.error, retryAfterSeconds: gate.retryAfterSeconds });
+    }
+
     // Pre-check password if the user exists. We do this BEFORE consuming the invite,
     // so a wrong password doesn't burn a one-time link.
 	    const existingUser = await prisma.user.findUnique({ where: { emailNormalized } });
     if (existingUser) {
       const ok = await bcrypt.compare(parsed.password, (existingUser as any).password || '');
-      if (!ok) return res.status(401).json({ error: 'Invalid credentials' });
+      if (!ok) {
+        await recordLoginFailure(attempt, 'invalid_password');
+        return res.status(401).json({ error: 'Invalid credentials' });
+      }
     }
 
     const result = await prisma.$transaction(async (tx) => {
@@ -229,34 +320,31 @@ router.post('/accept-public', async (req, res) => {
         }
       }
 
-      // ensure membership (idempotent)
-      await tx.membership.upsert({
-        where: { userId_projectId: { userId: (user as any).id, projectId: invite.projectId } },
-        update: { role: invite.role },
-        create: {
-          projectId: invite.projectId,
+      // ensure membership (idempotent) and attach who used the invite
+      await applyInvite(tx, userAuditContext(req, user), invite, (user as any).id);
+
+      if ((user as any).totpEnabledAt) {
+        // Existing account with 2FA: membership is granted, the login finishes via POST /auth/login/2fa.
+        const challengeToken = signLoginChallenge({
           userId: (user as any).id,
           role: invite.role,
-        },
-      });
-
-      // attach who used it (best-effort, still idempotent)
-      await tx.projectInvite.update({
-        where: { id: invite.id },
-        data: { usedByUserId: (user as any).id },
-      });
+          projectId: invite.projectId,
+        });
+        return { kind: 'two_factor' as const, challengeToken };
+      }
 
-      const jwtToken = signToken({
-        userId: (user as any).id,
-        email: (user as any).email,
-        role: invite.role,
-        projectId: invite.projectId,
-      });
+      const session = await startSession(
+        tx,
+        user,
+        { role: invite.role, projectId: invite.projectId },
+        getSessionMeta(req)
+      );
 
       return {
         kind: 'ok' as const,
         invite,
-        token: jwtToken,
+        token: session.token,
+        refreshToken: session.refreshToken,
         user: {
           id: (user as any).id,
           email: (user as any).email,
@@ -266,11 +354,19 @@ router.post('/accept-public', async (req, res) => {
       };
     });
 
-    if (result.kind === 'not_found') return res.status(404).json({ error: 'Invite not found' });
+    if (result.kind === 'not_found') {
+      await recordLoginFailure(attempt, 'invalid_invite');
+      return res.status(404).json({ error: 'Invite not found' });
+    }
+    await releaseLoginAttempt(attempt);
     if (result.kind === 'used') return res.status(409).json({ error: 'Invite already used' });
     if (result.kind === 'expired') return res.status(410).json({ error: 'Invite expired' });
+    if (result.kind === 'two_factor') {
+      return res.json({ twoFactorRequired: true, challengeToken: result.challengeToken });
+    }
 
-    return res.json({ token: result.token, user: result.user });
+    if (existingUser) await recordLoginSuccess(emailNormalized);
+    return res.json({ token: result.token, refreshToken: result.refreshToken, user: result.user });
   } catch (error) {
     console.error('Failed to accept invite (public)', error);
 
@@ -314,30 +410,8 @@ router.post('/accept', requireAuth, async (req: AuthRequest, res) => {
     }
 
     // If user already has membership, just mark invite used (idempotent-ish)
-    await prisma.membership.upsert({
-      where: {
-        userId_projectId: {
-          userId: req.user.id,
-          projectId: invite.projectId,
-        },
-      },
-      update: {
-        role: invite.role,
-      },
-      create: {
-        userId: req.user.id,
-        projectId: invite.projectId,
-        role: invite.role,
-      },
-    });
-
-    await prisma.projectInvite.update({
-      where: { id: invite.id },
-      data: {
-        usedAt: new Date(),
-        usedByUserId: req.user.id,
-      },
-    });
+    const userId = req.user.id;
+    await prisma.$transaction((tx) => applyInvite(tx, auditContext(req), invite, userId, new Date()));
 
     return res.json({
       ok: true,
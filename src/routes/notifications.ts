@@ -0,0 +1,150 @@
+import express from 'express';
+import { z, ZodError } from 'zod';
+import prisma from '../db/client';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { AuthRequest } from '../types/auth';
+import { NOTIFICATION_STATUSES, requeueFailedNotifications } from '../services/notificationOutbox';
+
+const router = express.Router();
+
+function parseId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isFinite(id) && id > 0 ? id : null;
+}
+
+const listNotificationsQuerySchema = z.object({
+  status: z.enum(NOTIFICATION_STATUSES as [string, ...string[]]).optional(),
+  kind: z.string().max(32).optional(),
+  caseId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  // Id of the last item from the previous page (results are newest first).
+  cursor: z.coerce.number().int().positive().optional(),
+});
+
+/**
+ * GET /notifications?status=failed&kind=lead&caseId=1&limit=50&cursor=123
+ * Outbox of the current project, newest first, with cursor pagination.
+ */
+router.get('/', requireAuth, requirePermission('notifications.read'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const query = listNotificationsQuerySchema.parse(req.query);
+    const where: any = { projectId: user.projectId };
+    if (query.status) where.status = query.status;
+    if (query.kind) where.kind = query.kind;
+    if (query.caseId) where.caseId = query.caseId;
+    if (query.cursor) where.id = { lt: query.cursor };
+
+    const limit = query.limit ?? 50;
+    const items = await prisma.notification.findMany({
+      where,
+      orderBy: { id: 'desc' },
+      take: limit,
+    });
+
+    return res.json({
+      items,
+      nextCursor: items.length === limit ? items[items.length - 1].id : null,
+    });
+  } catch (error: any) {
+    console.error('Error listing notifications', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid query', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to list notifications' });
+  }
+});
+
+/**
+ * GET /notifications/:id
+ * Single notification with its delivery attempts (oldest first).
+ */
+router.get('/:id', requireAuth, requirePermission('notifications.read'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid notification id' });
+    }
+
+    const notification = await prisma.notification.findFirst({
+      where: { id, projectId: user.projectId },
+      include: { attemptLog: { orderBy: { attempt: 'asc' } } },
+    });
+    if (!notification) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+
+    return res.json(notification);
+  } catch (error: any) {
+    console.error('Error loading notification', error);
+    return res.status(500).json({ error: 'Failed to load notification' });
+  }
+});
+
+/**
+ * POST /notifications/retry-failed
+ * Requeues every failed notification of the project.
+ */
+router.post('/retry-failed', requireAuth, requirePermission('notifications.manage'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const requeued = await requeueFailedNotifications(user.projectId);
+    return res.json({ requeued });
+  } catch (error: any) {
+    console.error('Error retrying failed notifications', error);
+    return res.status(500).json({ error: 'Failed to retry notifications' });
+  }
+});
+
+/**
+ * POST /notifications/:id/retry
+ * Requeues a failed notification with a fresh attempt budget.
+ */
+router.post('/:id/retry', requireAuth, requirePermission('notifications.manage'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid notification id' });
+    }
+
+    const existing = await prisma.notification.findFirst({
+      where: { id, projectId: user.projectId },
+      select: { id: true, status: true },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+    if (existing.status !== 'failed') {
+      return res.status(409).json({ error: 'Only failed notifications can be retried' });
+    }
+
+    await requeueFailedNotifications(user.projectId, [id]);
+    const notification = await prisma.notification.findUnique({ where: { id } });
+    return res.json(notification);
+  } catch (error: any) {
+    console.error('Error retrying notification', error);
+    return res.status(500).json({ error: 'Failed to retry notification' });
+  }
+});
+
+export default router;
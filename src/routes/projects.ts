@@ -1,35 +1,135 @@
 import express from 'express';
-import jwt from 'jsonwebtoken';
-import type { SignOptions } from 'jsonwebtoken';
 import { z, ZodError } from 'zod';
 import prisma from '../db/client';
-import { requireAuth } from '../middleware/auth';
-import { AuthRequest } from '../types/auth';
-
-const JWT_SECRET = (process.env.JWT_SECRET || 'dev-mini-crm-secret') as jwt.Secret;
-const JWT_EXPIRES_IN: SignOptions['expiresIn'] = (process.env.JWT_EXPIRES_IN as SignOptions['expiresIn']) || '7d';
-
-function signToken(payload: { userId: number; email: string; role: string; projectId: number }) {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
-}
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { AuthRequest, AuthUser } from '../types/auth';
+import {
+  BUILTIN_ROLES,
+  PERMISSIONS,
+  ROLE_PERMISSIONS,
+  getRolePermissions,
+  hasPermission,
+  missingGrantPermissions,
+  resolveMembershipPermissions,
+} from '../services/permissions';
+import {
+  DEFAULT_NOTIFICATION_TEMPLATES,
+  NOTIFICATION_TEMPLATE_VARIABLES,
+  SAMPLE_NOTIFICATION_INPUTS,
+  STAFF_NOTIFICATION_KINDS,
+  buildNotificationVars,
+  getNotificationTemplate,
+  renderNotificationTemplate,
+  validateNotificationTemplate,
+} from '../services/notificationTemplates';
+import { describeUserAgent, setSessionProject, signAccessToken } from '../services/sessions';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTOR_TYPES,
+  AUDIT_ENTITY_TYPES,
+  auditContext,
+  recordAudit,
+} from '../services/auditLog';
 
 const router = express.Router();
 
 const MembershipRoleSchema = z.enum(['owner', 'admin', 'viewer']);
 
-function requireRole(req: AuthRequest, res: express.Response, roles: Array<'owner' | 'admin' | 'viewer'>) {
-  const user = req.user;
-  if (!user) {
-    res.status(401).json({ error: 'Unauthorized' });
-    return false;
+// Either a built-in role or a custom project role id.
+const assignMemberRoleSchema = z
+  .object({
+    role: MembershipRoleSchema.optional(),
+    roleId: z.number().int().positive().optional(),
+  })
+  .refine((v) => (v.role === undefined) !== (v.roleId === undefined), {
+    message: 'Provide either role or roleId',
+    path: ['role'],
+  });
+
+function forbidUngrantable(res: express.Response, missing: string[]) {
+  return res.status(403).json({
+    error: `Forbidden: cannot grant permissions you do not have (${missing.join(', ')})`,
+    requiredPermission: missing[0],
+  });
+}
+
+/**
+ * Changing or removing a membership needs every permission it currently has (so a custom role with
+ * members.assignRoles cannot demote anyone above it), and owner memberships can only be touched by
+ * owners. Sends the 403 and returns true when the caller may not.
+ */
+function forbidUntouchableMember(
+  res: express.Response,
+  user: AuthUser,
+  target: { role: string; customRole: { permissions: string[] } | null }
+): boolean {
+  if (target.role === 'owner' && user.role !== 'owner') {
+    res.status(403).json({ error: 'Forbidden: only owners can change or remove owners' });
+    return true;
   }
-  if (!roles.includes(user.role as any)) {
-    res.status(403).json({ error: 'Forbidden' });
-    return false;
+  const missing = missingGrantPermissions(user, resolveMembershipPermissions(target.role, target.customRole));
+  if (missing.length > 0) {
+    res.status(403).json({
+      error: `Forbidden: the member has permissions you do not have (${missing.join(', ')})`,
+      requiredPermission: missing[0],
+    });
+    return true;
   }
-  return true;
+  return false;
+}
+
+// Requiring 2FA without having it yourself would lock you out of the admin routes.
+async function lacksOwnTwoFactor(userId: number): Promise<boolean> {
+  const account = await prisma.user.findUnique({ where: { id: userId }, select: { totpEnabledAt: true } });
+  return !account?.totpEnabledAt;
 }
 
+const listFailedLoginsQuerySchema = z.object({
+  userId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  // Id of the last item from the previous page (results are newest first).
+  cursor: z.coerce.number().int().positive().optional(),
+});
+
+const listAuditLogQuerySchema = z.object({
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.coerce.number().int().positive().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  actorType: z.enum(AUDIT_ACTOR_TYPES).optional(),
+  actorUserId: z.coerce.number().int().positive().optional(),
+  requestId: z.string().max(100).optional(),
+  dateFrom: z.coerce.date().optional(),
+  dateTo: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  // Id of the last item from the previous page (results are newest first).
+  cursor: z.coerce.number().int().positive().optional(),
+});
+
+const permissionListSchema = z
+  .array(z.enum(PERMISSIONS))
+  .transform((list) => Array.from(new Set(list)));
+
+const createProjectRoleSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'name is required')
+    .max(64)
+    .refine((name) => !(BUILTIN_ROLES as readonly string[]).includes(name.toLowerCase()), 'name is reserved for a built-in role'),
+  description: z.string().max(255).nullable().optional(),
+  // Start from a built-in preset; `permissions` (if given) replaces the preset list.
+  preset: z.enum(BUILTIN_ROLES).optional(),
+  permissions: permissionListSchema.optional(),
+});
+
+const updateProjectRoleSchema = createProjectRoleSchema
+  .omit({ preset: true })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+    path: ['name'],
+  });
+
 const createProjectSchema = z.object({
   name: z.string().min(1, 'name is required'),
   slug: z
@@ -52,6 +152,32 @@ const transactionCategoryConfigItemSchema = z.object({
   order: z.number().int().nonnegative().optional(),
 });
 
+const notificationTemplateSchema = z
+  .object({
+    subject: z.string().max(255).optional(),
+    text: z.string().max(10000).optional(),
+    html: z.string().max(50000).nullable().optional(),
+  })
+  .strict();
+
+// null resets a kind to the built-in default.
+const notificationTemplatesSchema = z
+  .object({
+    lead: notificationTemplateSchema.nullable().optional(),
+    donation: notificationTemplateSchema.nullable().optional(),
+    booking: notificationTemplateSchema.nullable().optional(),
+    feedback: notificationTemplateSchema.nullable().optional(),
+    custom: notificationTemplateSchema.nullable().optional(),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    for (const kind of STAFF_NOTIFICATION_KINDS) {
+      for (const e of validateNotificationTemplate(kind, data[kind])) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: e.message, path: e.field.split('.').slice(1) });
+      }
+    }
+  });
+
 const updateProjectConfigSchema = z
   .object({
     caseStatuses: z
@@ -65,6 +191,7 @@ const updateProjectConfigSchema = z
         notifyOnDonation: z.boolean().optional(),
         notifyOnBooking: z.boolean().optional(),
         notifyOnFeedback: z.boolean().optional(),
+        notifyOnCustom: z.boolean().optional(),
       })
       .partial()
       .optional(),
@@ -72,12 +199,21 @@ const updateProjectConfigSchema = z
       .array(transactionCategoryConfigItemSchema)
       .min(1, 'at least one transaction category is required')
       .optional(),
+    notificationTemplates: notificationTemplatesSchema.optional(),
+    security: z
+      .object({
+        // Owners and admins must enable 2FA before they can use admin routes.
+        requireTwoFactor: z.boolean(),
+      })
+      .optional(),
   })
   .refine(
     (data) =>
       data.caseStatuses ||
       data.notifications ||
-      data.transactionCategories,
+      data.transactionCategories ||
+      data.notificationTemplates ||
+      data.security,
     {
       message: 'At least one config section must be provided',
     }
@@ -95,12 +231,16 @@ export const DEFAULT_PROJECT_CONFIG = {
     notifyOnDonation: true,
     notifyOnBooking: true,
     notifyOnFeedback: true,
+    notifyOnCustom: true,
   },
   transactionCategories: [
     { code: 'donation', label: 'Пожертвування', color: '#3b82f6', type: 'income', order: 1 },
     { code: 'service', label: 'Послуга', color: '#22c55e', type: 'income', order: 2 },
     { code: 'refund', label: 'Повернення', color: '#ef4444', type: 'expense', order: 3 },
   ],
+  security: {
+    requireTwoFactor: false,
+  },
 };
 
 type ProjectConfigUpdateInput = z.infer<typeof updateProjectConfigSchema>;
@@ -145,6 +285,11 @@ function buildNextProjectConfig(existingConfig: any, parsed: ProjectConfigUpdate
           ? parsed.notifications.notifyOnFeedback
           : existingNotifications.notifyOnFeedback ??
             DEFAULT_PROJECT_CONFIG.notifications.notifyOnFeedback,
+      notifyOnCustom:
+        typeof parsed.notifications.notifyOnCustom === 'boolean'
+          ? parsed.notifications.notifyOnCustom
+          : existingNotifications.notifyOnCustom ??
+            DEFAULT_PROJECT_CONFIG.notifications.notifyOnCustom,
     };
   }
 
@@ -172,6 +317,32 @@ function buildNextProjectConfig(existingConfig: any, parsed: ProjectConfigUpdate
     });
   }
 
+  if (parsed.notificationTemplates) {
+    const existingTemplates =
+      existingConfig && typeof existingConfig.notificationTemplates === 'object' && existingConfig.notificationTemplates
+        ? existingConfig.notificationTemplates
+        : {};
+    const next: any = { ...existingTemplates };
+
+    for (const kind of STAFF_NOTIFICATION_KINDS) {
+      const patch = parsed.notificationTemplates[kind];
+      if (patch === undefined) continue;
+      if (patch === null) {
+        delete next[kind];
+        continue;
+      }
+      const merged: any = { ...(next[kind] || {}), ...patch };
+      if (merged.html === null) delete merged.html;
+      next[kind] = merged;
+    }
+
+    base.notificationTemplates = next;
+  }
+
+  if (parsed.security) {
+    base.security = { requireTwoFactor: parsed.security.requireTwoFactor };
+  }
+
   return base;
 }
 
@@ -204,6 +375,10 @@ function normalizeProjectConfig(rawConfig: any) {
         typeof existing.notifyOnFeedback === 'boolean'
           ? existing.notifyOnFeedback
           : DEFAULT_PROJECT_CONFIG.notifications.notifyOnFeedback,
+      notifyOnCustom:
+        typeof existing.notifyOnCustom === 'boolean'
+          ? existing.notifyOnCustom
+          : DEFAULT_PROJECT_CONFIG.notifications.notifyOnCustom,
     };
   }
 
@@ -236,6 +411,10 @@ function normalizeProjectConfig(rawConfig: any) {
       .sort((a: any, b: any) => (a.order ?? 0) - (b.order ?? 0));
   }
 
+  config.security = {
+    requireTwoFactor: config.security?.requireTwoFactor === true,
+  };
+
   return config;
 }
 
@@ -288,11 +467,13 @@ router.post('/select', requireAuth, async (req: AuthRequest, res) => {
       return res.status(403).json({ error: 'Forbidden' });
     }
 
-    const token = signToken({
+    await setSessionProject(req.user.sessionId, projectId);
+    const token = signAccessToken({
       userId: req.user.id,
       email: req.user.email,
       role: membership.role,
       projectId,
+      sid: req.user.sessionId,
     });
 
     return res.json({
@@ -311,7 +492,7 @@ router.post('/select', requireAuth, async (req: AuthRequest, res) => {
 });
 
 // GET /projects/current — project for current authenticated user
-router.get('/current', requireAuth, async (req: AuthRequest, res) => {
+router.get('/current', requireAuth, requirePermission('project.read'), async (req: AuthRequest, res) => {
   try {
     const user = req.user;
     if (!user) {
@@ -366,8 +547,8 @@ router.get('/:slug/config', async (req, res) => {
   }
 });
 
-// PATCH /projects/current/config — update project config (caseStatuses, notifications, transactionCategories)
-router.patch('/current/config', requireAuth, async (req: AuthRequest, res) => {
+// PATCH /projects/current/config — update project config (caseStatuses, notifications, transactionCategories, notificationTemplates, security)
+router.patch('/current/config', requireAuth, requirePermission('project.configure'), async (req: AuthRequest, res) => {
   try {
     const user = req.user;
     if (!user) {
@@ -376,6 +557,10 @@ router.patch('/current/config', requireAuth, async (req: AuthRequest, res) => {
 
     const parsed = updateProjectConfigSchema.parse(req.body);
 
+    if (parsed.security?.requireTwoFactor && (await lacksOwnTwoFactor(user.id))) {
+      return res.status(409).json({ error: 'Enable two-factor authentication for your account before requiring it' });
+    }
+
     const project = await prisma.project.findUnique({
       where: { id: user.projectId },
     });
@@ -389,9 +574,20 @@ router.patch('/current/config', requireAuth, async (req: AuthRequest, res) => {
 
     const nextConfig = buildNextProjectConfig(existingConfig, parsed);
 
-    const updated = await prisma.project.update({
-      where: { id: project.id },
-      data: { config: nextConfig },
+    const updated = await prisma.$transaction(async (tx) => {
+      const saved = await tx.project.update({
+        where: { id: project.id },
+        data: { config: nextConfig },
+      });
+      await recordAudit(tx, auditContext(req), {
+        projectId: project.id,
+        entityType: 'project',
+        entityId: project.id,
+        action: 'update',
+        before: { config: existingConfig },
+        after: { config: nextConfig },
+      });
+      return saved;
     });
 
     return res.json({
@@ -415,7 +611,7 @@ router.patch('/current/config', requireAuth, async (req: AuthRequest, res) => {
 });
 
 // PATCH /projects/:slug/config — update config by slug for current user's project
-router.patch('/:slug/config', requireAuth, async (req: AuthRequest, res) => {
+router.patch('/:slug/config', requireAuth, requirePermission('project.configure'), async (req: AuthRequest, res) => {
   try {
     const user = req.user;
     if (!user) {
@@ -425,6 +621,10 @@ router.patch('/:slug/config', requireAuth, async (req: AuthRequest, res) => {
     const { slug } = req.params;
     const parsed = updateProjectConfigSchema.parse(req.body);
 
+    if (parsed.security?.requireTwoFactor && (await lacksOwnTwoFactor(user.id))) {
+      return res.status(409).json({ error: 'Enable two-factor authentication for your account before requiring it' });
+    }
+
     const project = await prisma.project.findUnique({
       where: { slug },
     });
@@ -442,9 +642,20 @@ router.patch('/:slug/config', requireAuth, async (req: AuthRequest, res) => {
 
     const nextConfig = buildNextProjectConfig(existingConfig, parsed);
 
-    const updated = await prisma.project.update({
-      where: { id: project.id },
-      data: { config: nextConfig },
+    const updated = await prisma.$transaction(async (tx) => {
+      const saved = await tx.project.update({
+        where: { id: project.id },
+        data: { config: nextConfig },
+      });
+      await recordAudit(tx, auditContext(req), {
+        projectId: project.id,
+        entityType: 'project',
+        entityId: project.id,
+        action: 'update',
+        before: { config: existingConfig },
+        after: { config: nextConfig },
+      });
+      return saved;
     });
 
     return res.json({
@@ -479,22 +690,42 @@ router.post('/', requireAuth, async (req: AuthRequest, res) => {
       .toString('hex')
       .slice(0, 32);
 
-    const project = await prisma.project.create({
-      data: {
-        name: parsed.name,
-        slug: parsed.slug,
-        publicKey,
-        config: DEFAULT_PROJECT_CONFIG,
-        createdByUserId: req.user.id,
-      },
-    });
+    const userId = req.user.id;
+    const project = await prisma.$transaction(async (tx) => {
+      const created = await tx.project.create({
+        data: {
+          name: parsed.name,
+          slug: parsed.slug,
+          publicKey,
+          config: DEFAULT_PROJECT_CONFIG,
+          createdByUserId: userId,
+        },
+      });
 
-    await prisma.membership.create({
-      data: {
-        userId: req.user.id,
-        projectId: project.id,
-        role: 'owner',
-      },
+      const membership = await tx.membership.create({
+        data: {
+          userId,
+          projectId: created.id,
+          role: 'owner',
+        },
+      });
+
+      const ctx = auditContext(req);
+      await recordAudit(tx, ctx, {
+        projectId: created.id,
+        entityType: 'project',
+        entityId: created.id,
+        action: 'create',
+        after: created,
+      });
+      await recordAudit(tx, ctx, {
+        projectId: created.id,
+        entityType: 'membership',
+        entityId: membership.id,
+        action: 'create',
+        after: membership,
+      });
+      return created;
     });
 
     return res.status(201).json({
@@ -522,13 +753,132 @@ router.post('/', requireAuth, async (req: AuthRequest, res) => {
   }
 });
 
+// ------------------------------
+// Staff notification templates
+// ------------------------------
+
+const previewNotificationTemplateSchema = z.object({
+  kind: z.enum(STAFF_NOTIFICATION_KINDS as [string, ...string[]]),
+  // Unsaved template to try out; omitted parts use the project's current template.
+  template: notificationTemplateSchema.optional(),
+  // Overrides for the built-in sample submission of this kind.
+  sample: z
+    .object({
+      caseId: z.number().int().positive().optional(),
+      contact: z
+        .object({
+          name: z.string().max(255).nullable().optional(),
+          email: z.string().max(255).nullable().optional(),
+          phone: z.string().max(64).nullable().optional(),
+        })
+        .optional(),
+      data: z.record(z.any()).optional(),
+      message: z.string().max(5000).nullable().optional(),
+      source: z.string().max(255).nullable().optional(),
+      amount: z.number().nullable().optional(),
+      currency: z.string().max(8).nullable().optional(),
+      rating: z.number().nullable().optional(),
+      booking: z
+        .object({
+          service: z.string().max(255).nullable().optional(),
+          date: z.string().max(32).nullable().optional(),
+          time: z.string().max(16).nullable().optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+});
+
+// GET /projects/current/notification-templates — effective templates, defaults and variables
+router.get('/current/notification-templates', requireAuth, requirePermission('project.read'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: user.projectId },
+      select: { config: true },
+    });
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const templates: Record<string, any> = {};
+    for (const kind of STAFF_NOTIFICATION_KINDS) {
+      templates[kind] = getNotificationTemplate(project.config, kind);
+    }
+
+    return res.json({
+      templates,
+      defaults: DEFAULT_NOTIFICATION_TEMPLATES,
+      variables: [...NOTIFICATION_TEMPLATE_VARIABLES, 'fields.<fieldName>'],
+    });
+  } catch (error) {
+    console.error('Failed to load notification templates', error);
+    return res.status(500).json({ error: 'Failed to load notification templates' });
+  }
+});
+
+// POST /projects/current/notification-templates/preview — render a template against a sample submission
+router.post('/current/notification-templates/preview', requireAuth, requirePermission('project.read'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const parsed = previewNotificationTemplateSchema.parse(req.body);
+    const kind = parsed.kind as (typeof STAFF_NOTIFICATION_KINDS)[number];
+
+    const problems = validateNotificationTemplate(kind, parsed.template);
+    if (problems.length) {
+      return res.status(400).json({ error: 'Invalid template', details: problems });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: user.projectId },
+      select: { name: true, slug: true, config: true },
+    });
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const current = getNotificationTemplate(project.config, kind);
+    const template = {
+      subject: parsed.template?.subject ?? current.subject,
+      text: parsed.template?.text ?? current.text,
+      html: parsed.template?.html !== undefined ? parsed.template.html : current.html,
+    };
+
+    const sample = { ...SAMPLE_NOTIFICATION_INPUTS[kind], ...(parsed.sample || {}) };
+    const rendered = renderNotificationTemplate(
+      template,
+      buildNotificationVars({ ...sample, project: { name: project.name, slug: project.slug } })
+    );
+
+    return res.json({ kind, template, sample, rendered });
+  } catch (error) {
+    console.error('Failed to preview notification template', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: 'Invalid preview payload',
+        details: error.errors,
+      });
+    }
+
+    return res.status(500).json({ error: 'Failed to preview notification template' });
+  }
+});
+
 // ------------------------------
 // P2-min: Integration helpers (per-project allowlist)
 // ------------------------------
 
-router.get('/current/integration', requireAuth, async (req: AuthRequest, res) => {
+router.get('/current/integration', requireAuth, requirePermission('project.read'), async (req: AuthRequest, res) => {
   try {
-    if (!requireRole(req, res, ['owner', 'admin', 'viewer'])) return;
     const user = req.user;
     if (!user || !user.projectId) {
       return res.status(403).json({ error: 'Project context is required' });
@@ -559,9 +909,8 @@ router.get('/current/integration', requireAuth, async (req: AuthRequest, res) =>
   }
 });
 
-router.get('/current/allowed-origins', requireAuth, async (req: AuthRequest, res) => {
+router.get('/current/allowed-origins', requireAuth, requirePermission('project.read'), async (req: AuthRequest, res) => {
   try {
-    if (!requireRole(req, res, ['owner', 'admin', 'viewer'])) return;
     const user = req.user;
     if (!user || !user.projectId) {
       return res.status(403).json({ error: 'Project context is required' });
@@ -579,9 +928,8 @@ router.get('/current/allowed-origins', requireAuth, async (req: AuthRequest, res
   }
 });
 
-router.post('/current/allowed-origins', requireAuth, async (req: AuthRequest, res) => {
+router.post('/current/allowed-origins', requireAuth, requirePermission('project.configure'), async (req: AuthRequest, res) => {
   try {
-    if (!requireRole(req, res, ['owner', 'admin'])) return;
     const user = req.user;
     if (!user || !user.projectId) {
       return res.status(403).json({ error: 'Project context is required' });
@@ -600,12 +948,23 @@ router.post('/current/allowed-origins', requireAuth, async (req: AuthRequest, re
       return res.status(400).json({ error: 'origin must be a valid URL origin (e.g. https://example.com)' });
     }
 
-    const created = await prisma.projectAllowedOrigin.create({
-      data: {
-        projectId: user.projectId,
-        origin: normalized,
-      },
-      select: { id: true, origin: true, createdAt: true },
+    const projectId = user.projectId;
+    const created = await prisma.$transaction(async (tx) => {
+      const row = await tx.projectAllowedOrigin.create({
+        data: {
+          projectId,
+          origin: normalized,
+        },
+        select: { id: true, origin: true, createdAt: true },
+      });
+      await recordAudit(tx, auditContext(req), {
+        projectId,
+        entityType: 'allowed_origin',
+        entityId: row.id,
+        action: 'create',
+        after: row,
+      });
+      return row;
     });
 
     return res.status(201).json(created);
@@ -619,9 +978,8 @@ router.post('/current/allowed-origins', requireAuth, async (req: AuthRequest, re
   }
 });
 
-router.delete('/current/allowed-origins/:id', requireAuth, async (req: AuthRequest, res) => {
+router.delete('/current/allowed-origins/:id', requireAuth, requirePermission('project.configure'), async (req: AuthRequest, res) => {
   try {
-    if (!requireRole(req, res, ['owner', 'admin'])) return;
     const user = req.user;
     if (!user || !user.projectId) {
       return res.status(403).json({ error: 'Project context is required' });
@@ -632,8 +990,29 @@ router.delete('/current/allowed-origins/:id', requireAuth, async (req: AuthReque
       return res.status(400).json({ error: 'Invalid origin id' });
     }
 
-    const deleted = await prisma.projectAllowedOrigin.deleteMany({
-      where: { id, projectId: user.projectId },
+    const projectId = user.projectId;
+    const existing = await prisma.projectAllowedOrigin.findFirst({
+      where: { id, projectId },
+      select: { id: true, origin: true },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Origin not found' });
+    }
+
+    const deleted = await prisma.$transaction(async (tx) => {
+      const result = await tx.projectAllowedOrigin.deleteMany({
+        where: { id, projectId },
+      });
+      if (result.count > 0) {
+        await recordAudit(tx, auditContext(req), {
+          projectId,
+          entityType: 'allowed_origin',
+          entityId: id,
+          action: 'delete',
+          before: existing,
+        });
+      }
+      return result;
     });
 
     if (deleted.count === 0) {
@@ -648,7 +1027,7 @@ router.delete('/current/allowed-origins/:id', requireAuth, async (req: AuthReque
 });
 
 // --- Membership management (P1.1) ---
-router.get('/current/members', requireAuth, async (req: AuthRequest, res) => {
+router.get('/current/members', requireAuth, requirePermission('members.read'), async (req: AuthRequest, res) => {
   try {
     const user = req.user;
     if (!user || !user.projectId) {
@@ -660,6 +1039,7 @@ router.get('/current/members', requireAuth, async (req: AuthRequest, res) => {
       where: { projectId: user.projectId },
       include: {
         user: { select: { id: true, email: true } },
+        customRole: { select: { id: true, name: true } },
       },
       orderBy: [{ role: 'asc' }, { createdAt: 'asc' }],
     });
@@ -670,6 +1050,7 @@ router.get('/current/members', requireAuth, async (req: AuthRequest, res) => {
         userId: m.userId,
         email: m.user.email,
         role: m.role,
+        customRole: m.customRole,
         createdAt: m.createdAt,
       }))
     );
@@ -679,9 +1060,102 @@ router.get('/current/members', requireAuth, async (req: AuthRequest, res) => {
   }
 });
 
-router.patch('/current/members/:id', requireAuth, async (req: AuthRequest, res) => {
+// GET /projects/current/failed-logins?userId=&limit=50&cursor= — failed sign-ins of this project's members (owners)
+router.get('/current/failed-logins', requireAuth, requirePermission('audit.read'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const query = listFailedLoginsQuerySchema.parse(req.query);
+    const where: any = {
+      user: { memberships: { some: { projectId: user.projectId } } },
+    };
+    if (query.userId) where.userId = query.userId;
+    if (query.cursor) where.id = { lt: query.cursor };
+
+    const limit = query.limit ?? 50;
+    const items = await prisma.loginAttempt.findMany({
+      where,
+      include: { user: { select: { email: true } } },
+      orderBy: { id: 'desc' },
+      take: limit,
+    });
+
+    return res.json({
+      items: items.map((a) => ({
+        id: a.id,
+        userId: a.userId,
+        email: a.user?.email ?? null,
+        endpoint: a.endpoint,
+        reason: a.reason,
+        ip: a.ip,
+        device: describeUserAgent(a.userAgent),
+        createdAt: a.createdAt,
+      })),
+      nextCursor: items.length === limit ? items[items.length - 1].id : null,
+    });
+  } catch (error) {
+    console.error('Failed to list failed logins', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid query', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to list failed logins' });
+  }
+});
+
+// GET /projects/current/audit-log?entityType=&entityId=&action=&actorType=&actorUserId=&requestId=&dateFrom=&dateTo=&limit=50&cursor=
+// Who changed what in this project (owners), newest first.
+router.get('/current/audit-log', requireAuth, requirePermission('audit.read'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const query = listAuditLogQuerySchema.parse(req.query);
+    const where: any = { projectId: user.projectId };
+    if (query.entityType) where.entityType = query.entityType;
+    if (query.entityId) where.entityId = query.entityId;
+    if (query.action) where.action = query.action;
+    if (query.actorType) where.actorType = query.actorType;
+    if (query.actorUserId) where.actorUserId = query.actorUserId;
+    if (query.requestId) where.requestId = query.requestId;
+    if (query.dateFrom || query.dateTo) {
+      where.createdAt = {
+        ...(query.dateFrom ? { gte: query.dateFrom } : {}),
+        ...(query.dateTo ? { lte: query.dateTo } : {}),
+      };
+    }
+    if (query.cursor) where.id = { lt: query.cursor };
+
+    const limit = query.limit ?? 50;
+    const items = await prisma.auditLog.findMany({
+      where,
+      orderBy: { id: 'desc' },
+      take: limit,
+    });
+
+    return res.json({
+      items,
+      nextCursor: items.length === limit ? items[items.length - 1].id : null,
+    });
+  } catch (error) {
+    console.error('Failed to list audit log', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid query', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to list audit log' });
+  }
+});
+
+router.patch('/current/members/:id', requireAuth, requirePermission('members.assignRoles'), async (req: AuthRequest, res) => {
   try {
-    if (!requireRole(req, res, ['owner'])) return;
     const user = req.user;
     if (!user || !user.projectId) {
       return res.status(403).json({ error: 'Project context is required' });
@@ -692,17 +1166,39 @@ router.patch('/current/members/:id', requireAuth, async (req: AuthRequest, res)
       return res.status(400).json({ error: 'Invalid member id' });
     }
 
-    const bodySchema = z.object({ role: MembershipRoleSchema });
-    const { role } = bodySchema.parse(req.body);
+    const { role: builtinRole, roleId } = assignMemberRoleSchema.parse(req.body);
 
     const target = await prisma.membership.findFirst({
       where: { id, projectId: user.projectId },
-      include: { user: { select: { id: true, email: true } } },
+      include: { user: { select: { id: true, email: true } }, customRole: { select: { id: true, permissions: true } } },
     });
 
     if (!target) {
       return res.status(404).json({ error: 'Member not found' });
     }
+    if (forbidUntouchableMember(res, user, target)) return;
+
+    // A custom role is stored as role "viewer" + customRoleId.
+    let role: 'owner' | 'admin' | 'viewer' = builtinRole ?? 'viewer';
+    let customRoleId: number | null = null;
+    let granted: string[] = getRolePermissions(role);
+    if (roleId) {
+      const customRole = await prisma.projectRole.findFirst({ where: { id: roleId, projectId: user.projectId } });
+      if (!customRole) {
+        return res.status(404).json({ error: 'Role not found' });
+      }
+      role = 'viewer';
+      customRoleId = customRole.id;
+      granted = customRole.permissions;
+    }
+
+    const missing = missingGrantPermissions(user, granted);
+    if (missing.length > 0) {
+      return forbidUngrantable(res, missing);
+    }
+    if (role === 'owner' && user.role !== 'owner') {
+      return res.status(403).json({ error: 'Forbidden: only owners can make someone an owner' });
+    }
 
     // Prevent removing the last owner role via role change.
     if (target.role === 'owner' && role !== 'owner') {
@@ -714,20 +1210,36 @@ router.patch('/current/members/:id', requireAuth, async (req: AuthRequest, res)
       }
     }
 
-    const updated = await prisma.membership.update({
-      where: { id },
-      data: { role },
-      include: { user: { select: { id: true, email: true } } },
+    const projectId = user.projectId;
+    const updated = await prisma.$transaction(async (tx) => {
+      const membership = await tx.membership.update({
+        where: { id },
+        data: { role, customRoleId },
+        include: {
+          user: { select: { id: true, email: true } },
+          customRole: { select: { id: true, name: true } },
+        },
+      });
+      await recordAudit(tx, auditContext(req), {
+        projectId,
+        entityType: 'membership',
+        entityId: id,
+        action: 'update',
+        before: target,
+        after: membership,
+      });
+      return membership;
     });
 
     // If the updated membership is the current user, re-issue JWT with new role.
     let token: string | undefined;
     if (updated.userId === user.id) {
-      token = signToken({
+      token = signAccessToken({
         userId: user.id,
         email: user.email,
         role: updated.role,
         projectId: user.projectId,
+        sid: user.sessionId,
       });
     }
 
@@ -737,6 +1249,7 @@ router.patch('/current/members/:id', requireAuth, async (req: AuthRequest, res)
         userId: updated.userId,
         email: updated.user.email,
         role: updated.role,
+        customRole: updated.customRole,
         createdAt: updated.createdAt,
       },
       token: token || null,
@@ -750,9 +1263,8 @@ router.patch('/current/members/:id', requireAuth, async (req: AuthRequest, res)
   }
 });
 
-router.delete('/current/members/:id', requireAuth, async (req: AuthRequest, res) => {
+router.delete('/current/members/:id', requireAuth, requirePermission('members.manage'), async (req: AuthRequest, res) => {
   try {
-    if (!requireRole(req, res, ['owner','admin'])) return;
     const user = req.user;
     if (!user || !user.projectId) {
       return res.status(403).json({ error: 'Project context is required' });
@@ -763,18 +1275,24 @@ router.delete('/current/members/:id', requireAuth, async (req: AuthRequest, res)
       return res.status(400).json({ error: 'Invalid member id' });
     }
 
-    const target = await prisma.membership.findFirst({ where: { id, projectId: user.projectId } });
+    const target = await prisma.membership.findFirst({
+      where: { id, projectId: user.projectId },
+      include: { customRole: { select: { id: true, permissions: true } } },
+    });
     if (!target) {
       return res.status(404).json({ error: 'Member not found' });
     }
 
-    // Admin is allowed to remove ONLY viewers. Owner can remove anyone (except last owner).
-    if (user.role === 'admin') {
-      if (target.role !== 'viewer') {
-        return res.status(403).json({ error: 'Admins can remove only viewers' });
-      }
+    // Without members.assignRoles (e.g. admins) only viewers can be removed. Owner can remove anyone (except last owner).
+    if (target.role !== 'viewer' && !hasPermission(user, 'members.assignRoles')) {
+      return res.status(403).json({
+        error: 'Forbidden: missing permission "members.assignRoles" (required to remove non-viewer members)',
+        requiredPermission: 'members.assignRoles',
+      });
     }
 
+    if (forbidUntouchableMember(res, user, target)) return;
+
     // Prevent deleting the last owner.
     if (target.role === 'owner') {
       const ownersCount = await prisma.membership.count({
@@ -785,7 +1303,17 @@ router.delete('/current/members/:id', requireAuth, async (req: AuthRequest, res)
       }
     }
 
-    await prisma.membership.delete({ where: { id } });
+    const projectId = user.projectId;
+    await prisma.$transaction(async (tx) => {
+      await tx.membership.delete({ where: { id } });
+      await recordAudit(tx, auditContext(req), {
+        projectId,
+        entityType: 'membership',
+        entityId: id,
+        action: 'delete',
+        before: target,
+      });
+    });
     return res.json({ ok: true });
   } catch (error) {
     console.error('Failed to remove member', error);
@@ -793,4 +1321,222 @@ router.delete('/current/members/:id', requireAuth, async (req: AuthRequest, res)
   }
 });
 
+// --- Custom roles ---
+// Project-defined permission sets assignable to members (PATCH /current/members/:id { roleId })
+// and invites. Built-in roles stay available as presets.
+
+const projectRoleSelect = {
+  id: true,
+  name: true,
+  description: true,
+  permissions: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: { select: { memberships: true } },
+} as const;
+
+function toProjectRoleResponse(role: any) {
+  const { _count, ...rest } = role;
+  return { ...rest, memberCount: _count?.memberships ?? 0 };
+}
+
+/** Role fields as stored, for audit entries. */
+function projectRoleAuditFields(role: any) {
+  const { _count, ...rest } = role;
+  return rest;
+}
+
+// GET /projects/current/roles — built-in presets, custom roles and the list of all permissions
+router.get('/current/roles', requireAuth, requirePermission('members.read'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const roles = await prisma.projectRole.findMany({
+      where: { projectId: user.projectId },
+      select: projectRoleSelect,
+      orderBy: { name: 'asc' },
+    });
+
+    return res.json({
+      presets: BUILTIN_ROLES.map((key) => ({ key, permissions: ROLE_PERMISSIONS[key] })),
+      roles: roles.map(toProjectRoleResponse),
+      permissions: PERMISSIONS,
+    });
+  } catch (error) {
+    console.error('Failed to list roles', error);
+    return res.status(500).json({ error: 'Failed to list roles' });
+  }
+});
+
+// POST /projects/current/roles — create a custom role { name, description?, preset?, permissions? }
+router.post('/current/roles', requireAuth, requirePermission('members.assignRoles'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const parsed = createProjectRoleSchema.parse(req.body);
+    const permissions = parsed.permissions ?? (parsed.preset ? getRolePermissions(parsed.preset) : []);
+    if (permissions.length === 0) {
+      return res.status(400).json({ error: 'Role must have at least one permission' });
+    }
+
+    const missing = missingGrantPermissions(user, permissions);
+    if (missing.length > 0) {
+      return forbidUngrantable(res, missing);
+    }
+
+    const projectId = user.projectId;
+    const role = await prisma.$transaction(async (tx) => {
+      const created = await tx.projectRole.create({
+        data: {
+          projectId,
+          name: parsed.name,
+          description: parsed.description ?? null,
+          permissions,
+        },
+        select: projectRoleSelect,
+      });
+      await recordAudit(tx, auditContext(req), {
+        projectId,
+        entityType: 'project_role',
+        entityId: created.id,
+        action: 'create',
+        after: projectRoleAuditFields(created),
+      });
+      return created;
+    });
+
+    return res.status(201).json(toProjectRoleResponse(role));
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: error.errors });
+    }
+    if (error?.code === 'P2002') {
+      return res.status(409).json({ error: 'Role name already exists' });
+    }
+    console.error('Failed to create role', error);
+    return res.status(500).json({ error: 'Failed to create role' });
+  }
+});
+
+// PATCH /projects/current/roles/:id — rename or change permissions (applies to members immediately)
+router.patch('/current/roles/:id', requireAuth, requirePermission('members.assignRoles'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const id = Number(req.params.id);
+    if (!Number.isFinite(id) || id <= 0) {
+      return res.status(400).json({ error: 'Invalid role id' });
+    }
+
+    const parsed = updateProjectRoleSchema.parse(req.body);
+
+    const existing = await prisma.projectRole.findFirst({
+      where: { id, projectId: user.projectId },
+      select: projectRoleSelect,
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Role not found' });
+    }
+
+    if (parsed.permissions) {
+      if (parsed.permissions.length === 0) {
+        return res.status(400).json({ error: 'Role must have at least one permission' });
+      }
+      const missing = missingGrantPermissions(user, parsed.permissions);
+      if (missing.length > 0) {
+        return forbidUngrantable(res, missing);
+      }
+    }
+
+    const projectId = user.projectId;
+    const role = await prisma.$transaction(async (tx) => {
+      const updated = await tx.projectRole.update({
+        where: { id },
+        data: parsed,
+        select: projectRoleSelect,
+      });
+      await recordAudit(tx, auditContext(req), {
+        projectId,
+        entityType: 'project_role',
+        entityId: id,
+        action: 'update',
+        before: projectRoleAuditFields(existing),
+        after: projectRoleAuditFields(updated),
+      });
+      return updated;
+    });
+
+    return res.json(toProjectRoleResponse(role));
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: error.errors });
+    }
+    if (error?.code === 'P2002') {
+      return res.status(409).json({ error: 'Role name already exists' });
+    }
+    console.error('Failed to update role', error);
+    return res.status(500).json({ error: 'Failed to update role' });
+  }
+});
+
+// DELETE /projects/current/roles/:id — only when no member or pending invite uses the role
+router.delete('/current/roles/:id', requireAuth, requirePermission('members.assignRoles'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const id = Number(req.params.id);
+    if (!Number.isFinite(id) || id <= 0) {
+      return res.status(400).json({ error: 'Invalid role id' });
+    }
+
+    const existing = await prisma.projectRole.findFirst({ where: { id, projectId: user.projectId } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Role not found' });
+    }
+
+    const [members, pendingInvites] = await Promise.all([
+      prisma.membership.count({ where: { customRoleId: id } }),
+      prisma.projectInvite.count({ where: { customRoleId: id, usedAt: null } }),
+    ]);
+    if (members > 0 || pendingInvites > 0) {
+      return res.status(409).json({
+        error: 'Role is assigned to members or pending invites',
+        members,
+        pendingInvites,
+      });
+    }
+
+    const projectId = user.projectId;
+    await prisma.$transaction(async (tx) => {
+      // Used invites keep their built-in role value only.
+      await tx.projectInvite.updateMany({ where: { customRoleId: id }, data: { customRoleId: null } });
+      await tx.projectRole.delete({ where: { id } });
+      await recordAudit(tx, auditContext(req), {
+        projectId,
+        entityType: 'project_role',
+        entityId: id,
+        action: 'delete',
+        before: existing,
+      });
+    });
+
+    return res.json({ ok: true });
+  } catch (error) {
+    console.error('Failed to delete role', error);
+    return res.status(500).json({ error: 'Failed to delete role' });
+  }
+});
+
 export default router;
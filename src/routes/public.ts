@@ -1,10 +1,39 @@
 import express from 'express';
 import { z, ZodError } from 'zod';
 import rateLimit from 'express-rate-limit';
-import jwt from 'jsonwebtoken';
 import prisma from '../db/client';
-import { sendNotificationMail } from '../services/mailer';
-import { findOrCreateContact } from '../services/contacts';
+import { verifyAccessToken } from '../middleware/auth';
+import { enqueueSubmitterConfirmation } from '../services/autoResponder';
+import { enqueueNotification, kickNotificationWorker } from '../services/notificationOutbox';
+import { buildSubmissionWebhookEvents, emitWebhookEvents, kickWebhookWorker } from '../services/webhooks';
+import {
+  buildNotificationVars,
+  getNotificationTemplate,
+  renderNotificationTemplate,
+} from '../services/notificationTemplates';
+import { findOrCreateContactWithStatus } from '../services/contacts';
+import { resolvePublicSubmission } from '../services/publicFormMapping';
+import {
+  BUILTIN_FORM_KEYS,
+  PublicFormSchema,
+  buildDefaultSchemaForForm,
+  getStoredPublicFormSchema,
+  normalizeIsoDate,
+  normalizeIsoTime,
+  toPublicFieldConfig,
+  validatePublicPayloadBySchema,
+} from '../services/publicFormSchema';
+import { getCurrentPublicFormRevisionId } from '../services/publicFormRevisions';
+import { getSubmissionMeta, recordSubmission } from '../services/submissions';
+import { publicFormAuditContext, recordSubmissionAudit } from '../services/auditLog';
+import {
+  computeBookingSlots,
+  listDates,
+  reserveBookingSlot,
+  timeToMinutes,
+  toSlotDateTime,
+  wallClockNow,
+} from '../services/booking';
 import { sanitizeText } from '../utils/sanitizeText';
 
 const router = express.Router();
@@ -41,12 +70,6 @@ function getHeader(req: any, name: string): string | undefined {
   return v ? String(v).trim() : undefined;
 }
 
-function getJwtSecret(): string {
-  // Must match src/middleware/auth.ts
-  // NOTE: The admin UI uses the same JWT secret fallback.
-  return String(process.env.JWT_SECRET || 'dev-mini-crm-secret');
-}
-
 async function isAuthedMemberForProject(req: any, projectId: number): Promise<boolean> {
   // Preview/Demo page is served from /admin and has access to the admin token in localStorage.
   // We allow bypassing Origin/Referer allowlist ONLY when a valid admin JWT is presented.
@@ -58,17 +81,9 @@ async function isAuthedMemberForProject(req: any, projectId: number): Promise<bo
   if (!token) return false;
 
   try {
-    const payload: any = jwt.verify(token, getJwtSecret());
-    const userId = Number(payload && payload.userId);
-    const tokenProjectId = Number(payload && payload.projectId);
-    if (!userId || !tokenProjectId) return false;
-    if (Number(projectId) !== tokenProjectId) return false;
-
-    const membership = await prisma.membership.findFirst({
-      where: { userId, projectId },
-      select: { id: true },
-    });
-    return !!membership;
+    // Same checks as requireAuth: membership, revoked tokens and revoked sessions.
+    const verified = await verifyAccessToken(token, req);
+    return verified.ok && verified.membership.projectId === Number(projectId);
   } catch {
     return false;
   }
@@ -78,198 +93,6 @@ async function isAuthedMemberForProject(req: any, projectId: number): Promise<bo
 // Here we only sanitize user-provided strings for safe storage/output.
 
 
-// ---------- Public form schema (P2.1 PR1) ----------
-
-type PublicFieldType =
-  | 'text'
-  | 'email'
-  | 'tel'
-  | 'textarea'
-  | 'number'
-  | 'amount'
-  | 'select'
-  | 'checkbox';
-
-type PublicFormField = {
-  name: string;
-  type: PublicFieldType;
-  label?: string;
-  required?: boolean;
-  placeholder?: string;
-  min?: number; // string length OR numeric min (depends on type)
-  max?: number; // string length OR numeric max (depends on type)
-  pattern?: string;
-  options?: Array<{ value: string; label: string }>;
-  defaultValue?: any;
-};
-
-type PublicFormSchema = {
-  configVersion: string;
-  fields: PublicFormField[];
-  rules?: Record<string, any>;
-};
-
-function buildDefaultSchemaForForm(formKey: string): PublicFormSchema {
-  // NOTE: Source of truth is PublicForm.config.
-  // These defaults are used ONLY when config is missing (legacy DB rows),
-  // to avoid breaking existing widget installations.
-
-  if (formKey === 'donation') {
-    return {
-      configVersion: 'legacy-1',
-      fields: [
-        { name: 'name', type: 'text', label: "Ім'я", max: 100 },
-        { name: 'email', type: 'email', label: 'Email', max: 255 },
-        { name: 'phone', type: 'tel', label: 'Телефон', max: 30 },
-        { name: 'amount', type: 'amount', label: 'Сума', required: true, min: 0.01, max: 1_000_000 },
-        { name: 'message', type: 'textarea', label: 'Коментар', max: 2000 },
-      ],
-      rules: { requireOneOf: ['name', 'email', 'phone'] },
-    };
-  }
-
-  if (formKey === 'booking') {
-    return {
-      configVersion: 'legacy-1',
-      fields: [
-        { name: 'name', type: 'text', label: "Ім'я", max: 100 },
-        { name: 'email', type: 'email', label: 'Email', max: 255 },
-        { name: 'phone', type: 'tel', label: 'Телефон', max: 30 },
-        { name: 'service', type: 'text', label: 'Послуга', max: 120 },
-        { name: 'date', type: 'text', label: 'Дата', max: 50 },
-        { name: 'time', type: 'text', label: 'Час', max: 50 },
-        { name: 'message', type: 'textarea', label: 'Коментар', max: 2000 },
-      ],
-      rules: { requireOneOf: ['name', 'email', 'phone'] },
-    };
-  }
-
-  if (formKey === 'feedback') {
-    return {
-      configVersion: 'legacy-1',
-      fields: [
-        { name: 'name', type: 'text', label: "Ім'я", max: 100 },
-        { name: 'email', type: 'email', label: 'Email', max: 255 },
-        { name: 'phone', type: 'tel', label: 'Телефон', max: 30 },
-        { name: 'message', type: 'textarea', label: 'Відгук', required: true, max: 2000 },
-        { name: 'rating', type: 'number', label: 'Оцінка', min: 1, max: 5 },
-      ],
-      rules: { requireOneOf: ['name', 'email', 'phone'] },
-    };
-  }
-
-  // lead (default)
-  return {
-    configVersion: 'legacy-1',
-    fields: [
-      { name: 'name', type: 'text', label: "Ім'я", max: 100 },
-      { name: 'email', type: 'email', label: 'Email', max: 255 },
-      { name: 'phone', type: 'tel', label: 'Телефон', max: 30 },
-      { name: 'message', type: 'textarea', label: 'Повідомлення', max: 2000 },
-    ],
-    rules: { requireOneOf: ['name', 'email', 'phone'] },
-  };
-}
-
-function validatePublicPayloadBySchema(schema: PublicFormSchema, body: any) {
-  const errors: Array<{ field: string; message: string }> = [];
-  const out: Record<string, any> = {};
-
-  const getVal = (name: string) =>
-    body && Object.prototype.hasOwnProperty.call(body, name) ? (body as any)[name] : undefined;
-
-  for (const f of schema.fields) {
-    const raw = getVal(f.name);
-
-    const isEmpty =
-      raw === undefined ||
-      raw === null ||
-      (typeof raw === 'string' && raw.trim() === '') ||
-      (typeof raw === 'number' && Number.isNaN(raw));
-
-    if (f.required && isEmpty) {
-      errors.push({ field: f.name, message: 'Required' });
-      continue;
-    }
-
-    if (isEmpty) continue;
-
-    if (f.type === 'checkbox') {
-      const v = raw === true || raw === 'true' || raw === '1' || raw === 1;
-      out[f.name] = v;
-      continue;
-    }
-
-    if (f.type === 'number' || f.type === 'amount') {
-      const n = typeof raw === 'number' ? raw : Number(String(raw).replace(',', '.'));
-      if (!Number.isFinite(n)) {
-        errors.push({ field: f.name, message: 'Must be a number' });
-        continue;
-      }
-      if (typeof f.min === 'number' && n < f.min) {
-        errors.push({ field: f.name, message: `Must be >= ${f.min}` });
-        continue;
-      }
-      if (typeof f.max === 'number' && n > f.max) {
-        errors.push({ field: f.name, message: `Must be <= ${f.max}` });
-        continue;
-      }
-      out[f.name] = n;
-      continue;
-    }
-
-    const s = String(raw).trim();
-    if (typeof f.min === 'number' && s.length < f.min) {
-      errors.push({ field: f.name, message: `Min length ${f.min}` });
-      continue;
-    }
-    if (typeof f.max === 'number' && s.length > f.max) {
-      errors.push({ field: f.name, message: `Max length ${f.max}` });
-      continue;
-    }
-    if (f.pattern) {
-      try {
-        const r = new RegExp(f.pattern);
-        if (!r.test(s)) {
-          errors.push({ field: f.name, message: 'Invalid format' });
-          continue;
-        }
-      } catch {
-        // ignore invalid server pattern
-      }
-    }
-    if (f.type === 'email') {
-      const emailLike = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-      if (!emailLike.test(s)) {
-        errors.push({ field: f.name, message: 'Invalid email' });
-        continue;
-      }
-    }
-
-    out[f.name] = s;
-  }
-
-  const requireOneOf =
-    schema.rules && Array.isArray((schema.rules as any).requireOneOf)
-      ? (schema.rules as any).requireOneOf
-      : null;
-  if (requireOneOf && requireOneOf.length > 0) {
-    const ok = requireOneOf.some((k: string) => {
-      const v = out[k];
-      return v !== undefined && v !== null && !(typeof v === 'string' && v.trim() === '');
-    });
-    if (!ok) {
-      errors.push({
-        field: requireOneOf[0] || 'name',
-        message: `At least one of ${requireOneOf.join(', ')} is required`,
-      });
-    }
-  }
-
-  return { ok: errors.length === 0, errors, data: out };
-}
-
-
 function isPrismaUniqueConstraintError(err: any): boolean {
   return Boolean(err && typeof err === 'object' && (err as any).code === 'P2002');
 }
@@ -445,6 +268,8 @@ function getNotificationConfig(project: any) {
       typeof notifications.notifyOnBooking === 'boolean' ? notifications.notifyOnBooking : true,
     notifyOnFeedback:
       typeof notifications.notifyOnFeedback === 'boolean' ? notifications.notifyOnFeedback : true,
+    notifyOnCustom:
+      typeof notifications.notifyOnCustom === 'boolean' ? notifications.notifyOnCustom : true,
   };
 }
 
@@ -525,16 +350,12 @@ router.get('/forms/:projectSlug/:formKey/config', publicConfigLimiter, async (re
       return res.status(404).json({ error: 'Form not found' });
     }
 
-    const cfg: any = publicForm.config || null;
-    const schema: any = cfg && typeof cfg === 'object' && Array.isArray((cfg as any).fields)
-      ? {
-          configVersion: String((cfg as any).configVersion || '1'),
-          fields: (cfg as any).fields,
-          rules: (cfg as any).rules || {},
-        }
-      : buildDefaultSchemaForForm(publicForm.formKey);
+    const schema: any =
+      getStoredPublicFormSchema(publicForm.config) || buildDefaultSchemaForForm(publicForm.formKey);
 
-    const publicFields = (schema.fields || []).filter((f: any) => f && f.name && !['source','clientRequestId'].includes(String(f.name)));
+    const publicFields = (schema.fields || [])
+      .filter((f: any) => f && f.name && !['source','clientRequestId'].includes(String(f.name)))
+      .map(toPublicFieldConfig);
 
 
     return res.json({
@@ -551,6 +372,68 @@ router.get('/forms/:projectSlug/:formKey/config', publicConfigLimiter, async (re
   }
 });
 
+// Active booking services (for the "service" select of the booking widget)
+router.get('/forms/:projectSlug/booking/services', publicConfigLimiter, async (req, res) => {
+  try {
+    const project = await requirePublicProject(req, res, req.params.projectSlug);
+    if (!project) {
+      return;
+    }
+
+    const services = await prisma.bookingService.findMany({
+      where: { projectId: project.id, isActive: true },
+      select: { key: true, name: true, durationMinutes: true },
+      orderBy: [{ name: 'asc' }, { id: 'asc' }],
+    });
+
+    return res.json({ services });
+  } catch (e) {
+    console.error('[public] booking services error', e);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Free booking slots: ?service=<key>&from=YYYY-MM-DD&to=YYYY-MM-DD (up to 31 days, past slots skipped)
+router.get('/forms/:projectSlug/booking/slots', publicConfigLimiter, async (req, res) => {
+  try {
+    const project = await requirePublicProject(req, res, req.params.projectSlug);
+    if (!project) {
+      return;
+    }
+
+    const from = String(req.query.from || '');
+    const dates = listDates(from, String(req.query.to || from));
+    if (!dates) {
+      return res.status(400).json({ error: 'from/to must be YYYY-MM-DD, range up to 31 days' });
+    }
+
+    const service = await prisma.bookingService.findFirst({
+      where: { projectId: project.id, key: String(req.query.service || ''), isActive: true },
+    });
+    if (!service) {
+      return res.status(404).json({ error: 'Service not found' });
+    }
+
+    const now = wallClockNow();
+    const today = now.toISOString().slice(0, 10);
+    const days = await computeBookingSlots(prisma, service, dates.filter((d) => d >= today));
+
+    // Today's slots that have already started cannot be booked either.
+    const isFuture = (date: string, time: string) => toSlotDateTime(date, timeToMinutes(time) ?? 0) > now;
+
+    return res.json({
+      service: { key: service.key, name: service.name, durationMinutes: service.durationMinutes },
+      days: days.map((d) => ({
+        date: d.date,
+        slots: d.slots.filter((s) => s.remaining > 0 && isFuture(d.date, s.time)),
+      })),
+    });
+  } catch (e) {
+    console.error('[public] booking slots error', e);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Unified handler for public forms
 router.post('/forms/:projectSlug/:formKey', publicSubmitLimiter, async (req, res) => {
   try {
@@ -589,7 +472,7 @@ router.post('/forms/:projectSlug/:formKey', publicSubmitLimiter, async (req, res
 
       if (existingCase) {
         let tx: any = null;
-        if (formKey === 'donation') {
+        if (formKey === 'donation' || !BUILTIN_FORM_KEYS.includes(formKey)) {
           tx = await prisma.transaction.findFirst({
             where: { projectId: projectGuard.id, caseId: existingCase.id },
             orderBy: { id: 'desc' },
@@ -620,14 +503,13 @@ if (!publicFormRow.isActive) {
   return res.status(410).json({ error: 'Form is disabled' });
 }
 
-const cfg: any = publicFormRow.config || null;
-const schema: any = cfg && typeof cfg === 'object' && Array.isArray((cfg as any).fields)
-  ? {
-      configVersion: String((cfg as any).configVersion || '1'),
-      fields: (cfg as any).fields,
-      rules: (cfg as any).rules || {},
-    }
-  : buildDefaultSchemaForForm(publicFormRow.formKey);
+const storedSchema = getStoredPublicFormSchema(publicFormRow.config);
+const schema: PublicFormSchema = storedSchema || buildDefaultSchemaForForm(publicFormRow.formKey);
+
+// Custom forms have no built-in defaults: they are only submittable with a stored schema.
+if (!BUILTIN_FORM_KEYS.includes(formKey) && !storedSchema) {
+  return res.status(404).json({ error: 'Unknown public form' });
+}
 
 const validated = validatePublicPayloadBySchema(schema, req.body);
 if (!validated.ok) {
@@ -639,6 +521,19 @@ if (!validated.ok) {
 
 // Merge sanitized/coerced values back (keeps __hp/clientRequestId if present)
 req.body = { ...(req.body || {}), ...(validated.data || {}) };
+
+// Cases remember the config revision they were validated against (fields may be renamed later).
+const publicFormRevisionId = await getCurrentPublicFormRevisionId(publicFormRow);
+
+// Raw submission (validated payload + request metadata) is stored next to the Case.
+const submissionBase = {
+  projectId: projectGuard.id,
+  publicFormId: publicFormRow.id,
+  publicFormRevisionId,
+  payload: validated.data,
+  meta: getSubmissionMeta(req),
+  clientRequestId: normalizedClientRequestId || null,
+};
     // ----- LEAD -----
     if (formKey === 'lead') {
       const parsed = publicLeadSchema.parse(req.body);
@@ -697,7 +592,12 @@ req.body = { ...(req.body || {}), ...(validated.data || {}) };
 
       try {
         const result = await prisma.$transaction(async (tx) => {
-          const createdOrExistingContact = await findOrCreateContact(
+          const {
+            contact: createdOrExistingContact,
+            created: contactCreated,
+            restored: contactRestored,
+            before: contactBefore,
+          } = await findOrCreateContactWithStatus(
             project.id,
             { name, email, phone, notes: message || null },
             tx
@@ -709,6 +609,7 @@ req.body = { ...(req.body || {}), ...(validated.data || {}) };
               contactId: createdOrExistingContact.id,
               publicFormId: publicForm ? publicForm.id : null,
               clientRequestId: normalizedClientRequestId || null,
+              publicFormRevisionId,
               title: 'Новий лід з сайту',
               description: message || null,
               status: 'new',
@@ -716,6 +617,63 @@ req.body = { ...(req.body || {}), ...(validated.data || {}) };
             },
           });
 
+          const submission = await recordSubmission(tx, {
+            ...submissionBase,
+            caseId: createdCase.id,
+            contactId: createdOrExistingContact.id,
+          });
+          await recordSubmissionAudit(tx, publicFormAuditContext(req, publicFormRow.formKey), project.id, {
+            contact: createdOrExistingContact,
+            contactCreated,
+            contactRestoredFrom: contactRestored ? contactBefore : null,
+            case: createdCase,
+          });
+
+          // Stored with the case; the outbox worker delivers them after commit.
+          const notifCfg = getNotificationConfig(project);
+          if (!isSmokeRequest && notifCfg.notifyOnLead && notifCfg.emails.length) {
+            const rendered = renderNotificationTemplate(
+              getNotificationTemplate(project.config, 'lead'),
+              buildNotificationVars({
+                project,
+                form: publicFormRow,
+                caseId: createdCase.id,
+                contact: { name, email, phone },
+                data: validated.data,
+                message,
+                source,
+              })
+            );
+            await enqueueNotification(tx, {
+              projectId: project.id,
+              caseId: createdCase.id,
+              kind: 'lead',
+              to: notifCfg.emails,
+              ...rendered,
+            });
+          }
+
+          if (!isSmokeRequest) {
+            await enqueueSubmitterConfirmation(tx, {
+              project,
+              form: publicFormRow,
+              data: validated.data,
+              caseId: createdCase.id,
+              email: email,
+            });
+            await emitWebhookEvents(
+              tx,
+              project.id,
+              buildSubmissionWebhookEvents({
+                formKey: publicFormRow.formKey,
+                contact: createdOrExistingContact,
+                contactCreated,
+                case: createdCase,
+                submission,
+              })
+            );
+          }
+
           return { createdOrExistingContact, createdCase };
         });
 
@@ -741,29 +699,8 @@ req.body = { ...(req.body || {}), ...(validated.data || {}) };
         return res.status(500).json({ error: 'Failed to create case' });
       }
 
-      const notifCfg = getNotificationConfig(project);
-      if (!isSmokeRequest && notifCfg.notifyOnLead && notifCfg.emails.length) {
-        const subject = `Новий лід з сайту — ${project.name}`;
-        const lines: string[] = [];
-        if (name) lines.push(`Ім'я: ${name}`);
-        if (email) lines.push(`Email: ${email}`);
-        if (phone) lines.push(`Телефон: ${phone}`);
-        if (message) lines.push(`Повідомлення: ${message}`);
-        if (source) lines.push(`Джерело: ${source}`);
-        if (leadCase && leadCase.id) {
-          lines.push(`Case ID: ${leadCase.id}`);
-        }
-        const text = lines.join('\n');
-        await sendNotificationMail({
-          kind: 'lead',
-          projectName: project.name,
-          projectSlug: project.slug,
-          to: notifCfg.emails,
-          subject,
-          text,
-        });
-      }
-
+      kickNotificationWorker();
+      kickWebhookWorker();
       return res.status(201).json({ contact, case: leadCase });
     }
 
@@ -857,7 +794,12 @@ req.body = { ...(req.body || {}), ...(validated.data || {}) };
 
       try {
         const created = await prisma.$transaction(async (tx) => {
-          const contact = await findOrCreateContact(
+          const {
+            contact,
+            created: contactCreated,
+            restored: contactRestored,
+            before: contactBefore,
+          } = await findOrCreateContactWithStatus(
             project.id,
             { name: contactName, email, phone, notes: message || null },
             tx
@@ -869,6 +811,7 @@ req.body = { ...(req.body || {}), ...(validated.data || {}) };
               contactId: contact.id,
               publicFormId: publicForm ? publicForm.id : null,
               clientRequestId: normalizedClientRequestId || null,
+              publicFormRevisionId,
               title: 'Нове пожертвування з сайту',
               description: donationDescription || null,
               status: 'new',
@@ -890,6 +833,67 @@ req.body = { ...(req.body || {}), ...(validated.data || {}) };
             },
           });
 
+          const submission = await recordSubmission(tx, {
+            ...submissionBase,
+            caseId: c.id,
+            contactId: contact.id,
+            transactionId: t.id,
+          });
+          await recordSubmissionAudit(tx, publicFormAuditContext(req, publicFormRow.formKey), project.id, {
+            contact,
+            contactCreated,
+            contactRestoredFrom: contactRestored ? contactBefore : null,
+            case: c,
+            transaction: t,
+          });
+
+          const notifCfg = getNotificationConfig(project);
+          if (!isSmokeRequest && notifCfg.notifyOnDonation && notifCfg.emails.length) {
+            const rendered = renderNotificationTemplate(
+              getNotificationTemplate(project.config, 'donation'),
+              buildNotificationVars({
+                project,
+                form: publicFormRow,
+                caseId: c.id,
+                contact: { name, email, phone },
+                data: validated.data,
+                message,
+                source,
+                amount,
+                currency: 'UAH',
+              })
+            );
+            await enqueueNotification(tx, {
+              projectId: project.id,
+              caseId: c.id,
+              kind: 'donation',
+              to: notifCfg.emails,
+              ...rendered,
+            });
+          }
+
+          if (!isSmokeRequest) {
+            await enqueueSubmitterConfirmation(tx, {
+              project,
+              form: publicFormRow,
+              data: validated.data,
+              caseId: c.id,
+              email: email,
+            });
+            await emitWebhookEvents(
+              tx,
+              project.id,
+              buildSubmissionWebhookEvents({
+                formKey: publicFormRow.formKey,
+                contact: contact,
+                contactCreated,
+                case: c,
+                transaction: t,
+                submission,
+              })
+            );
+          }
+
           return { contact, c, t };
         });
 
@@ -932,30 +936,8 @@ req.body = { ...(req.body || {}), ...(validated.data || {}) };
         return res.status(500).json({ error: 'Failed to process donation' });
       }
 
-      const notifCfg = getNotificationConfig(project);
-      if (!isSmokeRequest && notifCfg.notifyOnDonation && notifCfg.emails.length) {
-        const subject = `Нове пожертвування — ${project.name}`;
-        const lines: string[] = [];
-        if (name) lines.push(`Ім'я: ${name}`);
-        if (email) lines.push(`Email: ${email}`);
-        if (phone) lines.push(`Телефон: ${phone}`);
-        lines.push(`Сума: ${amount} UAH`);
-        if (message) lines.push(`Коментар: ${message}`);
-        if (source) lines.push(`Джерело: ${source}`);
-        if (donationCase && donationCase.id) {
-          lines.push(`Case ID: ${donationCase.id}`);
-        }
-        const text = lines.join('\n');
-        await sendNotificationMail({
-          kind: 'donation',
-          projectName: project.name,
-          projectSlug: project.slug,
-          to: notifCfg.emails,
-          subject,
-          text,
-        });
-      }
-
+      kickNotificationWorker();
+      kickWebhookWorker();
       return res.status(201).json({
         contact,
         case: donationCase,
@@ -1018,8 +1000,29 @@ req.body = { ...(req.body || {}), ...(validated.data || {}) };
           });
         }
       }
+
+      // Scheduling: once the project has active booking services, "service" must be one of them
+      // and date+time must be a free slot. Projects without services keep free-text bookings.
+      const bookingServices = await prisma.bookingService.findMany({
+        where: { projectId: project.id, isActive: true },
+      });
+      const bookingService = bookingServices.find((s) => s.key === service) || null;
+      const slotDate = date ? normalizeIsoDate(date) : null;
+      const slotTime = time ? normalizeIsoTime(time) : null;
+
+      if (bookingServices.length) {
+        const slotErrors: Array<{ field: string; message: string }> = [];
+        if (!bookingService) slotErrors.push({ field: 'service', message: 'Unknown service' });
+        if (!slotDate) slotErrors.push({ field: 'date', message: 'Required (YYYY-MM-DD)' });
+        if (!slotTime) slotErrors.push({ field: 'time', message: 'Required (HH:MM)' });
+        if (slotErrors.length) {
+          return res.status(400).json({ error: 'Invalid form payload', details: slotErrors });
+        }
+      }
+
       const detailsParts: string[] = [];
-      if (service) detailsParts.push(`Послуга: ${service}`);
+      if (bookingService) detailsParts.push(`Послуга: ${bookingService.name}`);
+      else if (service) detailsParts.push(`Послуга: ${service}`);
       if (date || time) {
         const dt = [date, time].filter(Boolean).join(' ');
         detailsParts.push(`Коли: ${dt}`);
@@ -1031,9 +1034,23 @@ req.body = { ...(req.body || {}), ...(validated.data || {}) };
 
       let bookingCase: any = null;
       let contact: any = null;
+      let booking: any = null;
       try {
         const created = await prisma.$transaction(async (tx) => {
-          const contact = await findOrCreateContact(
+          // Slot check and Booking insert share the transaction with the Case (see reserveBookingSlot).
+          let slot: { startsAt: Date; endsAt: Date } | null = null;
+          if (bookingService && slotDate && slotTime) {
+            const reserved = await reserveBookingSlot(tx, bookingService, slotDate, slotTime);
+            if (!reserved.ok) return { rejected: reserved };
+            slot = reserved;
+          }
+
+          const {
+            contact,
+            created: contactCreated,
+            restored: contactRestored,
+            before: contactBefore,
+          } = await findOrCreateContactWithStatus(
             project.id,
             { name: contactName, email, phone, notes: message || null },
             tx
@@ -1045,6 +1062,7 @@ req.body = { ...(req.body || {}), ...(validated.data || {}) };
               contactId: contact.id,
               publicFormId: publicForm ? publicForm.id : null,
               clientRequestId: normalizedClientRequestId || null,
+              publicFormRevisionId,
               title: 'Нове бронювання з сайту',
               status: 'new',
               source: source || 'booking-widget',
@@ -1052,11 +1070,87 @@ req.body = { ...(req.body || {}), ...(validated.data || {}) };
             },
           });
 
-          return { contact, createdCase };
+          const createdBooking =
+            bookingService && slot
+              ? await tx.booking.create({
+                  data: {
+                    projectId: project.id,
+                    serviceId: bookingService.id,
+                    caseId: createdCase.id,
+                    contactId: contact.id,
+                    startsAt: slot.startsAt,
+                    endsAt: slot.endsAt,
+                  },
+                })
+              : null;
+
+          const submission = await recordSubmission(tx, {
+            ...submissionBase,
+            caseId: createdCase.id,
+            contactId: contact.id,
+          });
+          await recordSubmissionAudit(tx, publicFormAuditContext(req, publicFormRow.formKey), project.id, {
+            contact,
+            contactCreated,
+            contactRestoredFrom: contactRestored ? contactBefore : null,
+            case: createdCase,
+          });
+
+          const notifCfg = getNotificationConfig(project);
+          if (!isSmokeRequest && notifCfg.notifyOnBooking && notifCfg.emails.length) {
+            const rendered = renderNotificationTemplate(
+              getNotificationTemplate(project.config, 'booking'),
+              buildNotificationVars({
+                project,
+                form: publicFormRow,
+                caseId: createdCase.id,
+                contact: { name, email, phone },
+                data: validated.data,
+                message,
+                source,
+                booking: { service: bookingService ? bookingService.name : service, date, time },
+              })
+            );
+            await enqueueNotification(tx, {
+              projectId: project.id,
+              caseId: createdCase.id,
+              kind: 'booking',
+              to: notifCfg.emails,
+              ...rendered,
+            });
+          }
+
+          if (!isSmokeRequest) {
+            await enqueueSubmitterConfirmation(tx, {
+              project,
+              form: publicFormRow,
+              data: validated.data,
+              caseId: createdCase.id,
+              email: email,
+            });
+            await emitWebhookEvents(
+              tx,
+              project.id,
+              buildSubmissionWebhookEvents({
+                formKey: publicFormRow.formKey,
+                contact: contact,
+                contactCreated,
+                case: createdCase,
+                submission,
+              })
+            );
+          }
+
+          return { contact, createdCase, createdBooking };
         });
 
+        if (created.rejected) {
+          return res.status(created.rejected.status).json({ error: created.rejected.error });
+        }
+
         contact = created.contact;
         bookingCase = created.createdCase;
+        booking = created.createdBooking;
       } catch (caseError: any) {
         if (normalizedClientRequestId && isPrismaUniqueConstraintError(caseError)) {
           const existing = await prisma.case.findFirst({
@@ -1076,37 +1170,12 @@ req.body = { ...(req.body || {}), ...(validated.data || {}) };
         return res.status(500).json({ error: 'Failed to create case' });
       }
 
-      const notifCfg = getNotificationConfig(project);
-      if (!isSmokeRequest && notifCfg.notifyOnBooking && notifCfg.emails.length) {
-        const subject = `Нове бронювання — ${project.name}`;
-        const lines: string[] = [];
-        if (name) lines.push(`Ім'я: ${name}`);
-        if (email) lines.push(`Email: ${email}`);
-        if (phone) lines.push(`Телефон: ${phone}`);
-        if (service) lines.push(`Послуга: ${service}`);
-        if (date || time) {
-          const dt = [date, time].filter(Boolean).join(' ');
-          lines.push(`Коли: ${dt}`);
-        }
-        if (message) lines.push(`Коментар: ${message}`);
-        if (source) lines.push(`Джерело: ${source}`);
-        if (bookingCase && bookingCase.id) {
-          lines.push(`Case ID: ${bookingCase.id}`);
-        }
-        const text = lines.join('\n');
-        await sendNotificationMail({
-          kind: 'booking',
-          projectName: project.name,
-          projectSlug: project.slug,
-          to: notifCfg.emails,
-          subject,
-          text,
-        });
-      }
-
+      kickNotificationWorker();
+      kickWebhookWorker();
       return res.status(201).json({
         contact,
         case: bookingCase,
+        ...(booking ? { booking } : {}),
       });
     }
 
@@ -1164,7 +1233,12 @@ req.body = { ...(req.body || {}), ...(validated.data || {}) };
       const safeName =
         nameS || (emailS ? emailS.split('@')[0] : undefined) || phoneS || 'Anonymous';
       const { contact, feedbackCase } = await prisma.$transaction(async (tx) => {
-        const contact = await findOrCreateContact(
+        const {
+          contact,
+          created: contactCreated,
+          restored: contactRestored,
+          before: contactBefore,
+        } = await findOrCreateContactWithStatus(
           project.id,
           { name: safeName, email: emailS, phone: phoneS, notes: null },
           tx
@@ -1184,44 +1258,265 @@ req.body = { ...(req.body || {}), ...(validated.data || {}) };
             source: 'public:feedback',
             description: parts.join('\n\n') || null,
             clientRequestId: normalizedClientRequestId || null,
+            publicFormRevisionId,
           },
         });
 
+        const submission = await recordSubmission(tx, {
+          ...submissionBase,
+          caseId: feedbackCase.id,
+          contactId: contact.id,
+        });
+        await recordSubmissionAudit(tx, publicFormAuditContext(req, publicFormRow.formKey), project.id, {
+          contact,
+          contactCreated,
+          contactRestoredFrom: contactRestored ? contactBefore : null,
+          case: feedbackCase,
+        });
+
+        const notifCfg = getNotificationConfig(project);
+        if (!isSmokeRequest && notifCfg.notifyOnFeedback && notifCfg.emails.length) {
+          const rendered = renderNotificationTemplate(
+            getNotificationTemplate(project.config, 'feedback'),
+            buildNotificationVars({
+              project,
+              form: publicForm,
+              caseId: feedbackCase.id,
+              contact,
+              data: validated.data,
+              message,
+              rating: typeof rating === 'number' ? rating : null,
+            })
+          );
+          await enqueueNotification(tx, {
+            projectId: project.id,
+            caseId: feedbackCase.id,
+            kind: 'feedback',
+            to: notifCfg.emails,
+            ...rendered,
+          });
+        }
+
+        if (!isSmokeRequest) {
+          await enqueueSubmitterConfirmation(tx, {
+            project,
+            form: publicFormRow,
+            data: validated.data,
+            caseId: feedbackCase.id,
+            email: emailS,
+          });
+          await emitWebhookEvents(
+            tx,
+            project.id,
+            buildSubmissionWebhookEvents({
+              formKey: publicFormRow.formKey,
+              contact: contact,
+              contactCreated,
+              case: feedbackCase,
+              submission,
+            })
+          );
+        }
+
         return { contact, feedbackCase };
       });
 
-      const notifCfg = getNotificationConfig(project);
-      if (!isSmokeRequest && notifCfg.notifyOnFeedback && notifCfg.emails.length) {
-        const subject = `[${project.name}] Feedback: ${publicForm.title}`;
-        const lines: string[] = [];
-        lines.push(`Project: ${project.name} (${project.slug})`);
-        lines.push(`Form: ${publicForm.title} (${publicForm.formKey})`);
-        if (contact?.name) lines.push(`Name: ${contact.name}`);
-        if (contact?.email) lines.push(`Email: ${contact.email}`);
-        if (contact?.phone) lines.push(`Phone: ${contact.phone}`);
-        if (typeof rating === 'number') lines.push(`Rating: ${rating}/5`);
-        if (message) {
-          lines.push('');
-          lines.push('Message:');
-          lines.push(message);
+      kickNotificationWorker();
+      kickWebhookWorker();
+      return res.status(201).json({ contact, case: feedbackCase });
+    }
+
+    // ----- CUSTOM (schema-driven) -----
+    // Any other form is handled generically: PublicForm.config.fields drives validation (above),
+    // PublicForm.config.mapping decides what goes to Contact / Case / Transaction.
+    if (req.body && typeof req.body.__hp === 'string' && req.body.__hp.trim().length > 0) {
+      console.warn(`Honeypot (${formKey}) triggered for project`, projectSlug);
+      return res.status(202).json({ received: true });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectGuard.id },
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const resolved = resolvePublicSubmission(
+      { formKey: publicFormRow.formKey, title: publicFormRow.title },
+      schema.fields,
+      schema.mapping,
+      validated.data
+    );
+
+    const txCategory = resolved.transaction
+      ? pickProjectTransactionCategory(
+          project,
+          resolved.transaction.category ? [resolved.transaction.category] : [],
+          resolved.transaction.type
+        )
+      : null;
+
+    const contactName =
+      resolved.contact.name ||
+      (resolved.contact.email ? resolved.contact.email.split('@')[0] : undefined) ||
+      resolved.contact.phone ||
+      'Anonymous';
+
+    let customCase: any = null;
+    let transaction: any = null;
+    let contact: any = null;
+
+    try {
+      const created = await prisma.$transaction(async (tx) => {
+        const {
+          contact,
+          created: contactCreated,
+          restored: contactRestored,
+          before: contactBefore,
+        } = await findOrCreateContactWithStatus(
+          project.id,
+          {
+            name: contactName,
+            email: resolved.contact.email,
+            phone: resolved.contact.phone,
+            notes: resolved.contact.notes || null,
+          },
+          tx
+        );
+
+        const c = await tx.case.create({
+          data: {
+            projectId: project.id,
+            contactId: contact.id,
+            publicFormId: publicFormRow.id,
+            clientRequestId: normalizedClientRequestId || null,
+            publicFormRevisionId,
+            title: resolved.case.title,
+            description: resolved.case.description || null,
+            status: resolved.case.status,
+            source: resolved.case.source,
+          },
+        });
+
+        let t: any = null;
+        if (resolved.transaction) {
+          t = await tx.transaction.create({
+            data: {
+              projectId: project.id,
+              contactId: contact.id,
+              caseId: c.id,
+              publicFormId: publicFormRow.id,
+              type: resolved.transaction.type,
+              amount: resolved.transaction.amount,
+              currency: resolved.transaction.currency,
+              category: resolved.transaction.category || (txCategory ? txCategory.code : null),
+              description: resolved.transaction.description || null,
+            },
+          });
+        }
+
+        const submission = await recordSubmission(tx, {
+          ...submissionBase,
+          caseId: c.id,
+          contactId: contact.id,
+          transactionId: t ? t.id : null,
+        });
+        await recordSubmissionAudit(tx, publicFormAuditContext(req, publicFormRow.formKey), project.id, {
+          contact,
+          contactCreated,
+          contactRestoredFrom: contactRestored ? contactBefore : null,
+          case: c,
+          transaction: t,
+        });
+
+        const notifCfg = getNotificationConfig(project);
+        if (!isSmokeRequest && notifCfg.notifyOnCustom && notifCfg.emails.length) {
+          const rendered = renderNotificationTemplate(
+            getNotificationTemplate(project.config, 'custom'),
+            buildNotificationVars({
+              project,
+              form: publicFormRow,
+              caseId: c.id,
+              caseTitle: resolved.case.title,
+              contact: resolved.contact,
+              data: validated.data,
+              message: resolved.case.description,
+              source: resolved.case.source,
+              amount: t ? resolved.transaction!.amount : null,
+              currency: t ? resolved.transaction!.currency : null,
+            })
+          );
+          await enqueueNotification(tx, {
+            projectId: project.id,
+            caseId: c.id,
+            kind: 'custom',
+            to: notifCfg.emails,
+            ...rendered,
+          });
+        }
+
+        if (!isSmokeRequest) {
+          await enqueueSubmitterConfirmation(tx, {
+            project,
+            form: publicFormRow,
+            data: validated.data,
+            caseId: c.id,
+            email: resolved.contact.email,
+          });
+          await emitWebhookEvents(
+            tx,
+            project.id,
+            buildSubmissionWebhookEvents({
+              formKey: publicFormRow.formKey,
+              contact: contact,
+              contactCreated,
+              case: c,
+              transaction: t,
+              submission,
+            })
+          );
         }
-        lines.push('');
-        lines.push(`Case ID: ${feedbackCase.id}`);
-
-        await sendNotificationMail({
-          to: notifCfg.emails,
-          kind: 'feedback',
-          projectName: project.name,
-          projectSlug: project.slug,
-          subject,
-            text: lines.join('\n'),
+
+        return { contact, c, t };
+      });
+
+      contact = created.contact;
+      customCase = created.c;
+      transaction = created.t;
+    } catch (err: any) {
+      if (normalizedClientRequestId && isPrismaUniqueConstraintError(err)) {
+        const existingCase = await prisma.case.findFirst({
+          where: { projectId: project.id, clientRequestId: normalizedClientRequestId },
+          include: { contact: true },
         });
+
+        if (existingCase) {
+          const existingTx = await prisma.transaction.findFirst({
+            where: { projectId: project.id, caseId: existingCase.id },
+            orderBy: { id: 'desc' },
+          });
+
+          return res.status(200).json({
+            contact: existingCase.contact,
+            case: existingCase,
+            transaction: existingTx,
+            idempotent: true,
+          });
+        }
       }
 
-      return res.status(201).json({ contact, case: feedbackCase });
+      console.error(`Error creating case for form ${formKey}`, err);
+      return res.status(500).json({ error: 'Failed to create case' });
     }
 
-    return res.status(404).json({ error: 'Unknown public form' });
+    kickNotificationWorker();
+    kickWebhookWorker();
+    return res.status(201).json({
+      contact,
+      case: customCase,
+      transaction,
+    });
   } catch (error: any) {
     if (error instanceof ZodError) {
       // Validation errors are expected in normal operation (and in smoke validation tests).
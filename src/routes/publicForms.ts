@@ -1,8 +1,24 @@
 import express from 'express';
 import { z, ZodError } from 'zod';
 import prisma from '../db/client';
-import { requireAuth } from '../middleware/auth';
+import { requireAuth, requirePermission } from '../middleware/auth';
 import { AuthRequest } from '../types/auth';
+import {
+  BUILTIN_FORM_KEYS,
+  PublicFormField,
+  nextConfigVersion,
+  publicFormAutoResponderSchema,
+  publicFormFieldSchema,
+  publicFormMappingSchema,
+  publicFormRulesSchema,
+  validatePublicFormConfig,
+} from '../services/publicFormSchema';
+import {
+  diffPublicFormConfigs,
+  ensureBaselinePublicFormRevision,
+  recordPublicFormRevision,
+} from '../services/publicFormRevisions';
+import { AuditContext, auditContext, recordAudit } from '../services/auditLog';
 
 const router = express.Router();
 
@@ -32,8 +48,8 @@ function buildDefaultFormConfig(formKey: string) {
         { name: 'email', type: 'email', label: 'Email', max: 255 },
         { name: 'phone', type: 'tel', label: 'Телефон', max: 30 },
         { name: 'service', type: 'text', label: 'Послуга', max: 120 },
-        { name: 'date', type: 'text', label: 'Дата', max: 50 },
-        { name: 'time', type: 'text', label: 'Час', max: 50 },
+        { name: 'date', type: 'date', label: 'Дата', minDate: 'today' },
+        { name: 'time', type: 'time', label: 'Час' },
         { name: 'message', type: 'textarea', label: 'Коментар', max: 2000 },
         { name: 'source', type: 'text', label: 'Джерело', max: 100 },
       ],
@@ -76,7 +92,7 @@ function buildDefaultFormConfig(formKey: string) {
  * GET /public-forms
  * Returns all public forms for the current project of the authenticated user.
  */
-router.get('/', requireAuth, async (req: AuthRequest, res) => {
+router.get('/', requireAuth, requirePermission('forms.read'), async (req: AuthRequest, res) => {
   try {
     const user = req.user;
     if (!user || !user.projectId) {
@@ -101,7 +117,7 @@ router.get('/', requireAuth, async (req: AuthRequest, res) => {
  * Ensures the default set of public forms exists for the current project.
  * Creates (upserts) 4 default forms: lead, donation, booking, feedback.
  */
-router.post('/seed', requireAuth, async (req: AuthRequest, res) => {
+router.post('/seed', requireAuth, requirePermission('forms.configure'), async (req: AuthRequest, res) => {
   try {
     const user = req.user;
     if (!user || !user.projectId) {
@@ -120,30 +136,56 @@ router.post('/seed', requireAuth, async (req: AuthRequest, res) => {
     for (const d of defaults) {
       const existing = await prisma.publicForm.findFirst({
         where: { projectId, formKey: d.formKey },
-        select: { id: true, config: true },
+        select: { id: true, type: true, config: true },
       });
 
       if (!existing) {
-        await prisma.publicForm.create({
-          data: {
+        await prisma.$transaction(async (tx) => {
+          const created = await tx.publicForm.create({
+            data: {
+              projectId,
+              formKey: d.formKey,
+              type: d.type,
+              title: d.title,
+              isActive: true,
+              config: buildDefaultFormConfig(d.formKey),
+            },
+          });
+          await recordPublicFormRevision(tx, {
+            publicFormId: created.id,
+            config: created.config,
+            action: 'create',
+            createdByUserId: user.id,
+          });
+          await recordAudit(tx, auditContext(req), {
             projectId,
-            formKey: d.formKey,
-            type: d.type,
-            title: d.title,
-            isActive: true,
-            config: buildDefaultFormConfig(d.formKey),
-          },
+            entityType: 'public_form',
+            entityId: created.id,
+            action: 'create',
+            after: created,
+          });
         });
       } else {
         
-await prisma.publicForm.update({
-  where: { id: existing.id },
-  data: {
-    // Keep user changes if they already exist (do not overwrite title/isActive).
-    type: d.type,
-    // If config is empty (legacy), initialize it once from defaults.
-    ...(existing.config == null ? { config: buildDefaultFormConfig(d.formKey) } : {}),
-  },
+await prisma.$transaction(async (tx) => {
+  const updated = await tx.publicForm.update({
+    where: { id: existing.id },
+    data: {
+      // Keep user changes if they already exist (do not overwrite title/isActive).
+      type: d.type,
+      // If config is empty (legacy), initialize it once from defaults.
+      ...(existing.config == null ? { config: buildDefaultFormConfig(d.formKey) } : {}),
+    },
+  });
+  await ensureBaselinePublicFormRevision(tx, updated, user.id);
+  await recordAudit(tx, auditContext(req), {
+    projectId,
+    entityType: 'public_form',
+    entityId: existing.id,
+    action: 'update',
+    before: existing,
+    after: { id: updated.id, type: updated.type, config: updated.config },
+  });
 });
       }
     }
@@ -170,7 +212,7 @@ const updatePublicFormSchema = z.object({
  * PATCH /public-forms/:id
  * Allows updating title/description/isActive of a public form for the current project.
  */
-router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
+router.patch('/:id', requireAuth, requirePermission('forms.configure'), async (req: AuthRequest, res) => {
   try {
     const user = req.user;
     if (!user || !user.projectId) {
@@ -184,26 +226,44 @@ router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
 
     const parsed = updatePublicFormSchema.parse(req.body);
 
-    const updated = await prisma.publicForm.updateMany({
-      where: {
-        id,
-        projectId: user.projectId,
-      },
-      data: {
-        title: parsed.title,
-        description: parsed.description,
-        isActive: parsed.isActive,
-      },
-    });
-
-    if (updated.count === 0) {
+    const projectId = user.projectId;
+    const before = await prisma.publicForm.findFirst({ where: { id, projectId } });
+    if (!before) {
       return res.status(404).json({ error: 'Form not found for this project' });
     }
 
-    const form = await prisma.publicForm.findUnique({
-      where: { id },
+    const form = await prisma.$transaction(async (tx) => {
+      const updated = await tx.publicForm.updateMany({
+        where: {
+          id,
+          projectId,
+        },
+        data: {
+          title: parsed.title,
+          description: parsed.description,
+          isActive: parsed.isActive,
+        },
+      });
+      if (updated.count === 0) return null;
+
+      const after = await tx.publicForm.findUnique({
+        where: { id },
+      });
+      await recordAudit(tx, auditContext(req), {
+        projectId,
+        entityType: 'public_form',
+        entityId: id,
+        action: 'update',
+        before,
+        after,
+      });
+      return after;
     });
 
+    if (!form) {
+      return res.status(404).json({ error: 'Form not found for this project' });
+    }
+
     return res.json(form);
   } catch (error: any) {
     console.error('Error updating public form', error);
@@ -219,4 +279,672 @@ router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
   }
 });
 
+const createPublicFormSchema = z.object({
+  formKey: z
+    .string()
+    .min(1, 'formKey is required')
+    .max(64)
+    .regex(/^[a-z0-9][a-z0-9_-]*$/, 'formKey can contain lowercase letters, digits, "-" and "_" only'),
+  title: z.string().min(1, 'title is required').max(255),
+  type: z.string().min(1).max(50).optional(),
+  description: z.string().max(2000).nullable().optional(),
+  isActive: z.boolean().optional(),
+  fields: z.array(publicFormFieldSchema).min(1, 'at least one field is required').max(100).optional(),
+  rules: publicFormRulesSchema.optional(),
+  mapping: publicFormMappingSchema.nullable().optional(),
+  autoResponder: publicFormAutoResponderSchema.nullable().optional(),
+});
+
+const replaceFormConfigSchema = z.object({
+  fields: z.array(publicFormFieldSchema).min(1, 'at least one field is required').max(100),
+  rules: publicFormRulesSchema.optional(),
+  mapping: publicFormMappingSchema.nullable().optional(),
+  autoResponder: publicFormAutoResponderSchema.nullable().optional(),
+});
+
+const patchFormConfigSchema = z
+  .object({
+    // Upsert by name: props are merged into the existing field, unknown names are appended.
+    fields: z.array(z.object({ name: z.string().min(1) }).passthrough()).max(100).optional(),
+    removeFields: z.array(z.string().min(1)).optional(),
+    // Shallow merge; `null` removes a rule.
+    rules: z.record(z.any()).optional(),
+    mapping: publicFormMappingSchema.nullable().optional(),
+    autoResponder: publicFormAutoResponderSchema.nullable().optional(),
+  })
+  .refine(
+    (data) =>
+      data.fields !== undefined ||
+      data.removeFields !== undefined ||
+      data.rules !== undefined ||
+      data.mapping !== undefined ||
+      data.autoResponder !== undefined,
+    {
+      message: 'At least one of fields, removeFields, rules, mapping or autoResponder must be provided',
+      path: ['fields'],
+    }
+  );
+
+function parseFormId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isFinite(id) && id > 0 ? id : null;
+}
+
+/** Current config of a form; legacy rows without fields start from the built-in defaults. */
+function getEditableConfig(form: { formKey: string; config: any }): any {
+  const cfg = form.config && typeof form.config === 'object' ? form.config : null;
+  if (cfg && Array.isArray(cfg.fields)) return cfg;
+  if (BUILTIN_FORM_KEYS.includes(form.formKey)) {
+    return { ...(cfg || {}), ...buildDefaultFormConfig(form.formKey) };
+  }
+  return { ...(cfg || {}), configVersion: cfg?.configVersion, fields: [], rules: {} };
+}
+
+/**
+ * GET /public-forms/:id
+ * Returns a single public form of the current project (including full config).
+ */
+router.get('/:id', requireAuth, requirePermission('forms.read'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const id = parseFormId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid form id' });
+    }
+
+    const form = await prisma.publicForm.findFirst({
+      where: { id, projectId: user.projectId },
+    });
+
+    if (!form) {
+      return res.status(404).json({ error: 'Form not found for this project' });
+    }
+
+    return res.json(form);
+  } catch (error: any) {
+    console.error('Error loading public form', error);
+    return res.status(500).json({ error: 'Failed to load public form' });
+  }
+});
+
+/**
+ * POST /public-forms
+ * Creates a form with an arbitrary formKey. Built-in keys (lead/donation/booking/feedback)
+ * may omit `fields` to start from defaults; custom forms must provide them.
+ */
+router.post('/', requireAuth, requirePermission('forms.configure'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const parsed = createPublicFormSchema.parse(req.body);
+    const isBuiltin = BUILTIN_FORM_KEYS.includes(parsed.formKey);
+
+    if (!parsed.fields && !isBuiltin) {
+      return res.status(400).json({
+        error: 'Invalid form config',
+        details: [{ field: 'fields', message: 'fields are required for custom forms' }],
+      });
+    }
+
+    const base: any = parsed.fields ? { configVersion: '1', fields: [], rules: {} } : buildDefaultFormConfig(parsed.formKey);
+    const config: any = {
+      ...base,
+      ...(parsed.fields ? { fields: parsed.fields } : {}),
+      ...(parsed.rules ? { rules: parsed.rules } : {}),
+      ...(parsed.mapping !== undefined ? { mapping: parsed.mapping } : {}),
+      ...(parsed.autoResponder !== undefined ? { autoResponder: parsed.autoResponder } : {}),
+    };
+
+    const configErrors = validatePublicFormConfig(config);
+    if (configErrors.length) {
+      return res.status(400).json({ error: 'Invalid form config', details: configErrors });
+    }
+
+    const form = await prisma.$transaction(async (tx) => {
+      const created = await tx.publicForm.create({
+        data: {
+          projectId: user.projectId,
+          formKey: parsed.formKey,
+          title: parsed.title,
+          type: parsed.type || (isBuiltin ? parsed.formKey : 'custom'),
+          description: parsed.description ?? null,
+          isActive: parsed.isActive ?? true,
+          config,
+        },
+      });
+      await recordPublicFormRevision(tx, {
+        publicFormId: created.id,
+        config,
+        action: 'create',
+        createdByUserId: user.id,
+      });
+      await recordAudit(tx, auditContext(req), {
+        projectId: user.projectId,
+        entityType: 'public_form',
+        entityId: created.id,
+        action: 'create',
+        after: created,
+      });
+      return created;
+    });
+
+    return res.status(201).json(form);
+  } catch (error: any) {
+    console.error('Error creating public form', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: 'Invalid form payload',
+        details: error.errors,
+      });
+    }
+
+    if (error?.code === 'P2002') {
+      return res.status(409).json({ error: 'Form with this formKey already exists' });
+    }
+
+    return res.status(500).json({ error: 'Failed to create public form' });
+  }
+});
+
+async function saveFormConfig(
+  req: AuthRequest,
+  res: express.Response,
+  buildNext: (current: any) => { config?: any; errors?: Array<{ field: string; message: string }> }
+) {
+  const user = req.user;
+  if (!user || !user.projectId) {
+    return res.status(403).json({ error: 'Project context is required' });
+  }
+
+  const id = parseFormId(req.params.id);
+  if (!id) {
+    return res.status(400).json({ error: 'Invalid form id' });
+  }
+
+  const form = await prisma.publicForm.findFirst({
+    where: { id, projectId: user.projectId },
+  });
+
+  if (!form) {
+    return res.status(404).json({ error: 'Form not found for this project' });
+  }
+
+  const current = getEditableConfig(form);
+  const next = buildNext(current);
+  if (next.errors && next.errors.length) {
+    return res.status(400).json({ error: 'Invalid form config', details: next.errors });
+  }
+
+  const config = { ...next.config, configVersion: nextConfigVersion(current.configVersion) };
+  const configErrors = validatePublicFormConfig(config);
+  if (configErrors.length) {
+    return res.status(400).json({ error: 'Invalid form config', details: configErrors });
+  }
+
+  const updated = await writeFormConfig(form, config, user.id, auditContext(req), 'update');
+
+  return res.json(updated);
+}
+
+/**
+ * Stores a new config and its immutable revision in one DB transaction.
+ * Legacy forms get a baseline revision of the previous config first.
+ */
+async function writeFormConfig(
+  form: { id: number; projectId: number; config: any },
+  config: any,
+  userId: number,
+  audit: AuditContext,
+  action: 'update' | 'rollback',
+  rolledBackFromRevisionId?: number
+) {
+  return prisma.$transaction(async (tx) => {
+    await ensureBaselinePublicFormRevision(tx, form, userId);
+
+    const updated = await tx.publicForm.update({
+      where: { id: form.id },
+      data: { config },
+    });
+
+    const revision = await recordPublicFormRevision(tx, {
+      publicFormId: form.id,
+      config,
+      action,
+      createdByUserId: userId,
+      rolledBackFromRevisionId: rolledBackFromRevisionId ?? null,
+    });
+
+    await recordAudit(tx, audit, {
+      projectId: form.projectId,
+      entityType: 'public_form',
+      entityId: form.id,
+      action: 'update',
+      before: { config: form.config },
+      after: { config },
+    });
+
+    return { ...updated, revision: { id: revision.id, revision: revision.revision } };
+  });
+}
+
+/**
+ * PUT /public-forms/:id/config
+ * Replaces fields and rules of PublicForm.config (mapping/autoResponder are kept unless provided).
+ */
+router.put('/:id/config', requireAuth, requirePermission('forms.configure'), async (req: AuthRequest, res) => {
+  try {
+    const parsed = replaceFormConfigSchema.parse(req.body);
+
+    return await saveFormConfig(req, res, (current) => ({
+      config: {
+        ...current,
+        fields: parsed.fields,
+        rules: parsed.rules || {},
+        ...(parsed.mapping !== undefined ? { mapping: parsed.mapping } : {}),
+        ...(parsed.autoResponder !== undefined ? { autoResponder: parsed.autoResponder } : {}),
+      },
+    }));
+  } catch (error: any) {
+    console.error('Error replacing public form config', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: 'Invalid form config',
+        details: error.errors,
+      });
+    }
+
+    return res.status(500).json({ error: 'Failed to update public form config' });
+  }
+});
+
+/**
+ * PATCH /public-forms/:id/config
+ * Upserts/removes individual fields and merges rules of PublicForm.config.
+ */
+router.patch('/:id/config', requireAuth, requirePermission('forms.configure'), async (req: AuthRequest, res) => {
+  try {
+    const parsed = patchFormConfigSchema.parse(req.body);
+
+    return await saveFormConfig(req, res, (current) => {
+      const errors: Array<{ field: string; message: string }> = [];
+      let fields: PublicFormField[] = [...(current.fields || [])];
+
+      if (parsed.removeFields) {
+        for (const name of parsed.removeFields) {
+          if (!fields.some((f) => f.name === name)) {
+            errors.push({ field: `removeFields.${name}`, message: `Unknown form field "${name}"` });
+          }
+        }
+        fields = fields.filter((f) => !parsed.removeFields!.includes(f.name));
+      }
+
+      for (const patch of parsed.fields || []) {
+        const idx = fields.findIndex((f) => f.name === patch.name);
+        const merged = idx >= 0 ? { ...fields[idx], ...patch } : patch;
+        // `null` in a patch clears an optional prop (e.g. { "pattern": null }).
+        for (const key of Object.keys(merged)) {
+          if ((merged as any)[key] === null) delete (merged as any)[key];
+        }
+
+        const check = publicFormFieldSchema.safeParse(merged);
+        if (!check.success) {
+          for (const issue of check.error.errors) {
+            errors.push({ field: ['fields', patch.name, ...issue.path].join('.'), message: issue.message });
+          }
+          continue;
+        }
+
+        if (idx >= 0) fields[idx] = check.data as PublicFormField;
+        else fields.push(check.data as PublicFormField);
+      }
+
+      let rules: any = { ...(current.rules || {}) };
+      if (parsed.rules) {
+        for (const [key, value] of Object.entries(parsed.rules)) {
+          if (value === null) delete rules[key];
+          else rules[key] = value;
+        }
+        const check = publicFormRulesSchema.safeParse(rules);
+        if (!check.success) {
+          for (const issue of check.error.errors) {
+            errors.push({ field: ['rules', ...issue.path].join('.'), message: issue.message });
+          }
+        } else {
+          rules = check.data;
+        }
+      }
+
+      if (fields.length === 0) {
+        errors.push({ field: 'fields', message: 'at least one field is required' });
+      }
+
+      return {
+        errors,
+        config: {
+          ...current,
+          fields,
+          rules,
+          ...(parsed.mapping !== undefined ? { mapping: parsed.mapping } : {}),
+          ...(parsed.autoResponder !== undefined ? { autoResponder: parsed.autoResponder } : {}),
+        },
+      };
+    });
+  } catch (error: any) {
+    console.error('Error patching public form config', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: 'Invalid form config',
+        details: error.errors,
+      });
+    }
+
+    return res.status(500).json({ error: 'Failed to update public form config' });
+  }
+});
+
+const revisionSummarySelect = {
+  id: true,
+  revision: true,
+  configVersion: true,
+  action: true,
+  diff: true,
+  rolledBackFromRevisionId: true,
+  createdAt: true,
+  createdByUser: { select: { id: true, email: true } },
+} as const;
+
+async function findProjectForm(req: AuthRequest, res: express.Response) {
+  const user = req.user;
+  if (!user || !user.projectId) {
+    res.status(403).json({ error: 'Project context is required' });
+    return null;
+  }
+
+  const id = parseFormId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'Invalid form id' });
+    return null;
+  }
+
+  const form = await prisma.publicForm.findFirst({
+    where: { id, projectId: user.projectId },
+  });
+
+  if (!form) {
+    res.status(404).json({ error: 'Form not found for this project' });
+    return null;
+  }
+
+  return form;
+}
+
+/**
+ * GET /public-forms/:id/revisions
+ * Lists config revisions of a form (newest first, without full config snapshots).
+ */
+router.get('/:id/revisions', requireAuth, requirePermission('forms.read'), async (req: AuthRequest, res) => {
+  try {
+    const form = await findProjectForm(req, res);
+    if (!form) return;
+
+    const revisions = await prisma.publicFormRevision.findMany({
+      where: { publicFormId: form.id },
+      orderBy: { revision: 'desc' },
+      select: revisionSummarySelect,
+    });
+
+    return res.json(revisions);
+  } catch (error: any) {
+    console.error('Error listing public form revisions', error);
+    return res.status(500).json({ error: 'Failed to list public form revisions' });
+  }
+});
+
+/**
+ * GET /public-forms/:id/revisions/diff?from=<revision>&to=<revision>
+ * Diff between two revisions (by revision number). `to` defaults to the latest revision.
+ */
+router.get('/:id/revisions/diff', requireAuth, requirePermission('forms.read'), async (req: AuthRequest, res) => {
+  try {
+    const form = await findProjectForm(req, res);
+    if (!form) return;
+
+    const query = z
+      .object({
+        from: z.coerce.number().int().positive(),
+        to: z.coerce.number().int().positive().optional(),
+      })
+      .parse(req.query);
+
+    const from = await prisma.publicFormRevision.findUnique({
+      where: { publicFormId_revision: { publicFormId: form.id, revision: query.from } },
+    });
+    const to = query.to
+      ? await prisma.publicFormRevision.findUnique({
+          where: { publicFormId_revision: { publicFormId: form.id, revision: query.to } },
+        })
+      : await prisma.publicFormRevision.findFirst({
+          where: { publicFormId: form.id },
+          orderBy: { revision: 'desc' },
+        });
+
+    if (!from || !to) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    return res.json({
+      from: { revision: from.revision, configVersion: from.configVersion, createdAt: from.createdAt },
+      to: { revision: to.revision, configVersion: to.configVersion, createdAt: to.createdAt },
+      diff: diffPublicFormConfigs(from.config, to.config),
+    });
+  } catch (error: any) {
+    console.error('Error diffing public form revisions', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid query', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to diff public form revisions' });
+  }
+});
+
+/**
+ * GET /public-forms/:id/revisions/:revision
+ * Single revision with its full config snapshot.
+ */
+router.get('/:id/revisions/:revision', requireAuth, requirePermission('forms.read'), async (req: AuthRequest, res) => {
+  try {
+    const form = await findProjectForm(req, res);
+    if (!form) return;
+
+    const revisionNo = parseFormId(req.params.revision);
+    if (!revisionNo) {
+      return res.status(400).json({ error: 'Invalid revision' });
+    }
+
+    const revision = await prisma.publicFormRevision.findUnique({
+      where: { publicFormId_revision: { publicFormId: form.id, revision: revisionNo } },
+      select: { ...revisionSummarySelect, config: true },
+    });
+
+    if (!revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    return res.json(revision);
+  } catch (error: any) {
+    console.error('Error loading public form revision', error);
+    return res.status(500).json({ error: 'Failed to load public form revision' });
+  }
+});
+
+/**
+ * POST /public-forms/:id/revisions/:revision/rollback
+ * Restores the config of an older revision. History is append-only:
+ * the rollback itself becomes a new revision with a bumped configVersion.
+ */
+router.post('/:id/revisions/:revision/rollback', requireAuth, requirePermission('forms.configure'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+
+    const form = await findProjectForm(req, res);
+    if (!form || !user) return;
+
+    const revisionNo = parseFormId(req.params.revision);
+    if (!revisionNo) {
+      return res.status(400).json({ error: 'Invalid revision' });
+    }
+
+    const target = await prisma.publicFormRevision.findUnique({
+      where: { publicFormId_revision: { publicFormId: form.id, revision: revisionNo } },
+    });
+
+    if (!target) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    const current = getEditableConfig(form);
+    const config = {
+      ...(target.config as any),
+      configVersion: nextConfigVersion(current.configVersion),
+    };
+
+    const updated = await writeFormConfig(form, config, user.id, auditContext(req), 'rollback', target.id);
+
+    return res.json(updated);
+  } catch (error: any) {
+    console.error('Error rolling back public form config', error);
+    return res.status(500).json({ error: 'Failed to roll back public form config' });
+  }
+});
+
+const listSubmissionsQuerySchema = z.object({
+  dateFrom: z.string().optional(),
+  dateTo: z.string().optional(),
+  caseId: z.coerce.number().int().positive().optional(),
+  contactId: z.coerce.number().int().positive().optional(),
+  revisionId: z.coerce.number().int().positive().optional(),
+  // Exact match on a payload field, e.g. ?field=city&value=odesa
+  field: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/).optional(),
+  value: z.string().max(255).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  // Id of the last item from the previous page (results are newest first).
+  cursor: z.coerce.number().int().positive().optional(),
+});
+
+/**
+ * GET /public-forms/:id/submissions
+ * Lists raw submissions of a form, newest first, with simple filters and cursor pagination.
+ */
+router.get('/:id/submissions', requireAuth, requirePermission('forms.read'), async (req: AuthRequest, res) => {
+  try {
+    const form = await findProjectForm(req, res);
+    if (!form) return;
+
+    const query = listSubmissionsQuerySchema.parse(req.query);
+    const where: any = { projectId: form.projectId, publicFormId: form.id };
+
+    if (query.dateFrom || query.dateTo) {
+      const createdAt: any = {};
+      if (query.dateFrom) {
+        const dFrom = new Date(query.dateFrom);
+        if (Number.isNaN(dFrom.getTime())) {
+          return res.status(400).json({ error: 'Invalid dateFrom' });
+        }
+        createdAt.gte = dFrom;
+      }
+      if (query.dateTo) {
+        const dTo = new Date(query.dateTo);
+        if (Number.isNaN(dTo.getTime())) {
+          return res.status(400).json({ error: 'Invalid dateTo' });
+        }
+        createdAt.lte = dTo;
+      }
+      where.createdAt = createdAt;
+    }
+
+    if (query.caseId) where.caseId = query.caseId;
+    if (query.contactId) where.contactId = query.contactId;
+    if (query.revisionId) where.publicFormRevisionId = query.revisionId;
+
+    if (query.field) {
+      if (query.value === undefined) {
+        return res.status(400).json({ error: 'value is required when field is set' });
+      }
+      where.payload = { path: [query.field], equals: query.value };
+    }
+
+    if (query.cursor) where.id = { lt: query.cursor };
+
+    const limit = query.limit ?? 50;
+    const items = await prisma.submission.findMany({
+      where,
+      orderBy: { id: 'desc' },
+      take: limit,
+      include: {
+        contact: { select: { id: true, name: true, email: true, phone: true } },
+        case: { select: { id: true, title: true, status: true } },
+      },
+    });
+
+    return res.json({
+      items,
+      nextCursor: items.length === limit ? items[items.length - 1].id : null,
+    });
+  } catch (error: any) {
+    console.error('Error listing submissions', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid query', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to list submissions' });
+  }
+});
+
+/**
+ * GET /public-forms/:id/submissions/:submissionId
+ * Single submission with linked entities and the form revision it was validated against.
+ */
+router.get('/:id/submissions/:submissionId', requireAuth, requirePermission('forms.read'), async (req: AuthRequest, res) => {
+  try {
+    const form = await findProjectForm(req, res);
+    if (!form) return;
+
+    const submissionId = parseFormId(req.params.submissionId);
+    if (!submissionId) {
+      return res.status(400).json({ error: 'Invalid submission id' });
+    }
+
+    const submission = await prisma.submission.findFirst({
+      where: { id: submissionId, projectId: form.projectId, publicFormId: form.id },
+      include: {
+        contact: true,
+        case: true,
+        transaction: true,
+        publicFormRevision: { select: { id: true, revision: true, configVersion: true, config: true } },
+      },
+    });
+
+    if (!submission) {
+      return res.status(404).json({ error: 'Submission not found' });
+    }
+
+    return res.json(submission);
+  } catch (error: any) {
+    console.error('Error loading submission', error);
+    return res.status(500).json({ error: 'Failed to load submission' });
+  }
+});
+
 export default router;
@@ -1,8 +1,9 @@
 import express from 'express';
 import { z, ZodError } from 'zod';
 import prisma from '../db/client';
-import { requireAuth } from '../middleware/auth';
+import { requireAuth, requirePermission } from '../middleware/auth';
 import { AuthRequest } from '../types/auth';
+import { auditContext, recordAudit } from '../services/auditLog';
 
 const router = express.Router();
 
@@ -24,7 +25,7 @@ const updateTaskSchema = z
   );
 
 // GET /cases/:id/tasks - list tasks for a case
-router.get('/cases/:id/tasks', requireAuth, async (req: AuthRequest, res) => {
+router.get('/cases/:id/tasks', requireAuth, requirePermission('tasks.read'), async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -41,6 +42,7 @@ router.get('/cases/:id/tasks', requireAuth, async (req: AuthRequest, res) => {
       where: {
         id: caseId,
         projectId,
+        deletedAt: null,
       },
       select: { id: true },
     });
@@ -62,7 +64,7 @@ router.get('/cases/:id/tasks', requireAuth, async (req: AuthRequest, res) => {
 });
 
 // POST /cases/:id/tasks - create task for a case
-router.post('/cases/:id/tasks', requireAuth, async (req: AuthRequest, res) => {
+router.post('/cases/:id/tasks', requireAuth, requirePermission('tasks.write'), async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -81,6 +83,7 @@ router.post('/cases/:id/tasks', requireAuth, async (req: AuthRequest, res) => {
       where: {
         id: caseId,
         projectId,
+        deletedAt: null,
       },
       select: { id: true },
     });
@@ -89,11 +92,21 @@ router.post('/cases/:id/tasks', requireAuth, async (req: AuthRequest, res) => {
       return res.status(404).json({ error: 'Case not found for this project' });
     }
 
-    const task = await prisma.task.create({
-      data: {
-        title: parsed.title.trim(),
-        caseId,
-      },
+    const task = await prisma.$transaction(async (tx) => {
+      const created = await tx.task.create({
+        data: {
+          title: parsed.title.trim(),
+          caseId,
+        },
+      });
+      await recordAudit(tx, auditContext(req), {
+        projectId,
+        entityType: 'task',
+        entityId: created.id,
+        action: 'create',
+        after: created,
+      });
+      return created;
     });
 
     return res.status(201).json(task);
@@ -109,7 +122,7 @@ router.post('/cases/:id/tasks', requireAuth, async (req: AuthRequest, res) => {
 });
 
 // PATCH /tasks/:taskId - update task
-router.patch('/tasks/:taskId', requireAuth, async (req: AuthRequest, res) => {
+router.patch('/tasks/:taskId', requireAuth, requirePermission('tasks.write'), async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -130,18 +143,29 @@ router.patch('/tasks/:taskId', requireAuth, async (req: AuthRequest, res) => {
         id: taskId,
         case: {
           projectId,
+          deletedAt: null,
         },
       },
-      select: { id: true },
     });
 
     if (!existingTask) {
       return res.status(404).json({ error: 'Task not found for this project' });
     }
 
-    const updated = await prisma.task.update({
-      where: { id: taskId },
-      data: parsed,
+    const updated = await prisma.$transaction(async (tx) => {
+      const task = await tx.task.update({
+        where: { id: taskId },
+        data: parsed,
+      });
+      await recordAudit(tx, auditContext(req), {
+        projectId,
+        entityType: 'task',
+        entityId: taskId,
+        action: 'update',
+        before: existingTask,
+        after: task,
+      });
+      return task;
     });
 
     return res.json(updated);
@@ -161,7 +185,7 @@ router.patch('/tasks/:taskId', requireAuth, async (req: AuthRequest, res) => {
 });
 
 // DELETE /tasks/:taskId - delete task
-router.delete('/tasks/:taskId', requireAuth, async (req: AuthRequest, res) => {
+router.delete('/tasks/:taskId', requireAuth, requirePermission('tasks.write'), async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -180,17 +204,26 @@ router.delete('/tasks/:taskId', requireAuth, async (req: AuthRequest, res) => {
         id: taskId,
         case: {
           projectId,
+          deletedAt: null,
         },
       },
-      select: { id: true },
     });
 
     if (!existingTask) {
       return res.status(404).json({ error: 'Task not found for this project' });
     }
 
-    await prisma.task.delete({
-      where: { id: taskId },
+    await prisma.$transaction(async (tx) => {
+      await tx.task.delete({
+        where: { id: taskId },
+      });
+      await recordAudit(tx, auditContext(req), {
+        projectId,
+        entityType: 'task',
+        entityId: taskId,
+        action: 'delete',
+        before: existingTask,
+      });
     });
 
     return res.status(204).send();
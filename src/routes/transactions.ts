@@ -1,8 +1,11 @@
 import express from 'express';
 import { z, ZodError } from 'zod';
 import prisma from '../db/client';
-import { requireAuth } from '../middleware/auth';
+import { requireAuth, requirePermission } from '../middleware/auth';
 import { AuthRequest } from '../types/auth';
+import { emitWebhookEvent, kickWebhookWorker } from '../services/webhooks';
+import { auditContext, recordAudit } from '../services/auditLog';
+import { listTrashQuerySchema, withPurgeAt } from '../services/trash';
 import { DEFAULT_PROJECT_CONFIG } from './projects';
 
 const router = express.Router();
@@ -118,7 +121,7 @@ function getEffectiveTransactionType(
 
 
 // GET /transactions - list transactions for current project with filters
-router.get('/', requireAuth, async (req: AuthRequest, res) => {
+router.get('/', requireAuth, requirePermission('transactions.read'), async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -127,7 +130,7 @@ router.get('/', requireAuth, async (req: AuthRequest, res) => {
     const projectId = req.user.projectId;
     const query = listTransactionsQuerySchema.parse(req.query);
 
-    const where: any = { projectId };
+    const where: any = { projectId, deletedAt: null };
 
     // NOTE:
     // We intentionally do NOT filter by query.type at the database level anymore.
@@ -232,7 +235,7 @@ router.get('/', requireAuth, async (req: AuthRequest, res) => {
 
 
 // GET /transactions/summary - simple totals for income/expense in period
-router.get('/summary', requireAuth, async (req: AuthRequest, res) => {
+router.get('/summary', requireAuth, requirePermission('transactions.read'), async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -241,7 +244,7 @@ router.get('/summary', requireAuth, async (req: AuthRequest, res) => {
     const projectId = req.user.projectId;
     const query = listTransactionsQuerySchema.parse(req.query);
 
-    const baseWhere: any = { projectId };
+    const baseWhere: any = { projectId, deletedAt: null };
 
     if (query.category) {
       baseWhere.category = query.category;
@@ -319,9 +322,47 @@ router.get('/summary', requireAuth, async (req: AuthRequest, res) => {
   }
 });
 
+// GET /transactions/trash?limit=50&cursor= - deleted transactions, newest first, with their purge date
+router.get('/trash', requireAuth, requirePermission('transactions.read'), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = req.user.projectId;
+    const query = listTrashQuerySchema.parse(req.query);
+
+    const where: any = { projectId, deletedAt: { not: null } };
+    if (query.cursor) where.id = { lt: query.cursor };
+
+    const limit = query.limit ?? 50;
+    const items = await prisma.transaction.findMany({
+      where,
+      orderBy: { id: 'desc' },
+      take: limit,
+      include: {
+        contact: true,
+        case: true,
+      },
+    });
+
+    return res.json({
+      items: items.map(withPurgeAt),
+      nextCursor: items.length === limit ? items[items.length - 1].id : null,
+    });
+  } catch (error: any) {
+    console.error('Error fetching deleted transactions', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid query', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to fetch deleted transactions' });
+  }
+});
 
 // POST /transactions - create a transaction
-router.post('/', requireAuth, async (req: AuthRequest, res) => {
+router.post('/', requireAuth, requirePermission('transactions.write'), async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -340,6 +381,7 @@ router.post('/', requireAuth, async (req: AuthRequest, res) => {
             id: contactId,
             projectId,
           },
+          deletedAt: null,
         },
       });
 
@@ -355,6 +397,7 @@ router.post('/', requireAuth, async (req: AuthRequest, res) => {
             id: caseId,
             projectId,
           },
+          deletedAt: null,
         },
       });
 
@@ -372,24 +415,36 @@ router.post('/', requireAuth, async (req: AuthRequest, res) => {
       happenedAt = d;
     }
 
-    const created = await prisma.transaction.create({
-      data: {
+    const created = await prisma.$transaction(async (tx) => {
+      const transaction = await tx.transaction.create({
+        data: {
+          projectId,
+          contactId: contactId ?? null,
+          caseId: caseId ?? null,
+          type: parsed.type,
+          amount: parsed.amount,
+          currency: parsed.currency || 'UAH',
+          category: parsed.category || null,
+          description: parsed.description || null,
+          happenedAt: happenedAt,
+        },
+        include: {
+          contact: true,
+          case: true,
+        },
+      });
+      await emitWebhookEvent(tx, projectId, 'transaction.created', { transaction });
+      await recordAudit(tx, auditContext(req), {
         projectId,
-        contactId: contactId ?? null,
-        caseId: caseId ?? null,
-        type: parsed.type,
-        amount: parsed.amount,
-        currency: parsed.currency || 'UAH',
-        category: parsed.category || null,
-        description: parsed.description || null,
-        happenedAt: happenedAt,
-      },
-      include: {
-        contact: true,
-        case: true,
-      },
+        entityType: 'transaction',
+        entityId: transaction.id,
+        action: 'create',
+        after: transaction,
+      });
+      return transaction;
     });
 
+    kickWebhookWorker();
     return res.status(201).json(created);
   } catch (error: any) {
     console.error('Error creating transaction', error);
@@ -406,7 +461,7 @@ router.post('/', requireAuth, async (req: AuthRequest, res) => {
 });
 
 // PATCH /transactions/:id - update a transaction
-router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
+router.patch('/:id', requireAuth, requirePermission('transactions.write'), async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -431,6 +486,7 @@ router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
             id: contactId,
             projectId,
           },
+          deletedAt: null,
         },
       });
 
@@ -446,6 +502,7 @@ router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
             id: caseId,
             projectId,
           },
+          deletedAt: null,
         },
       });
 
@@ -465,38 +522,56 @@ router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
     }
 
     // Prevent cross-project modifications (IDOR): mutate only within the current project.
-    const upd = await prisma.transaction.updateMany({
-      where: {
-        id,
-        projectId,
-      },
-      data: {
-        type: data.type,
-        amount: data.amount,
-        currency: data.currency,
-        category: data.category,
-        description: data.description,
-        contactId: contactId ?? undefined,
-        caseId: caseId ?? undefined,
-        happenedAt: happenedAt ?? undefined,
-      },
-    });
-
-    if (upd.count === 0) {
+    const before = await prisma.transaction.findFirst({ where: { id, projectId, deletedAt: null } });
+    if (!before) {
       return res.status(404).json({ error: 'Transaction not found' });
     }
 
-    const updated = await prisma.transaction.findFirst({
-      where: {
-        id,
+    const updated = await prisma.$transaction(async (tx) => {
+      const upd = await tx.transaction.updateMany({
+        where: {
+          id,
+          projectId,
+          deletedAt: null,
+        },
+        data: {
+          type: data.type,
+          amount: data.amount,
+          currency: data.currency,
+          category: data.category,
+          description: data.description,
+          contactId: contactId ?? undefined,
+          caseId: caseId ?? undefined,
+          happenedAt: happenedAt ?? undefined,
+        },
+      });
+      if (upd.count === 0) return null;
+
+      const transaction = await tx.transaction.findFirst({
+        where: {
+          id,
+          projectId,
+        },
+        include: {
+          contact: true,
+          case: true,
+        },
+      });
+      await recordAudit(tx, auditContext(req), {
         projectId,
-      },
-      include: {
-        contact: true,
-        case: true,
-      },
+        entityType: 'transaction',
+        entityId: id,
+        action: 'update',
+        before,
+        after: transaction,
+      });
+      return transaction;
     });
 
+    if (!updated) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
     return res.json(updated);
   } catch (error: any) {
     console.error('Error updating transaction', error);
@@ -512,8 +587,8 @@ router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
   }
 });
 
-// DELETE /transactions/:id - delete a transaction
-router.delete('/:id', requireAuth, async (req: AuthRequest, res) => {
+// DELETE /transactions/:id - move a transaction to trash
+router.delete('/:id', requireAuth, requirePermission('transactions.write'), async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -526,15 +601,34 @@ router.delete('/:id', requireAuth, async (req: AuthRequest, res) => {
       return res.status(400).json({ error: 'Invalid transaction id' });
     }
 
-    // Prevent cross-project deletions (IDOR): delete only within the current project.
-    const del = await prisma.transaction.deleteMany({
-      where: {
-        id,
+    // Prevent cross-project deletions (IDOR): trash only within the current project.
+    const before = await prisma.transaction.findFirst({ where: { id, projectId, deletedAt: null } });
+    if (!before) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
+    const deleted = await prisma.$transaction(async (tx) => {
+      const del = await tx.transaction.updateMany({
+        where: {
+          id,
+          projectId,
+          deletedAt: null,
+        },
+        data: { deletedAt: new Date() },
+      });
+      if (del.count === 0) return false;
+
+      await recordAudit(tx, auditContext(req), {
         projectId,
-      },
+        entityType: 'transaction',
+        entityId: id,
+        action: 'delete',
+        before,
+      });
+      return true;
     });
 
-    if (del.count === 0) {
+    if (!deleted) {
       return res.status(404).json({ error: 'Transaction not found' });
     }
 
@@ -546,4 +640,66 @@ router.delete('/:id', requireAuth, async (req: AuthRequest, res) => {
   }
 });
 
+// POST /transactions/:id/restore - bring a transaction back from trash
+router.post('/:id/restore', requireAuth, requirePermission('transactions.write'), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = req.user.projectId;
+    const id = Number(req.params.id);
+
+    if (Number.isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid transaction id' });
+    }
+
+    const before = await prisma.transaction.findFirst({ where: { id, projectId, deletedAt: { not: null } } });
+    if (!before) {
+      return res.status(404).json({ error: 'Transaction not found in trash' });
+    }
+
+    const restored = await prisma.$transaction(async (tx) => {
+      const upd = await tx.transaction.updateMany({
+        where: {
+          id,
+          projectId,
+          deletedAt: { not: null },
+        },
+        data: { deletedAt: null },
+      });
+      if (upd.count === 0) return null;
+
+      const transaction = await tx.transaction.findFirst({
+        where: {
+          id,
+          projectId,
+        },
+        include: {
+          contact: true,
+          case: true,
+        },
+      });
+      await recordAudit(tx, auditContext(req), {
+        projectId,
+        entityType: 'transaction',
+        entityId: id,
+        action: 'restore',
+        before,
+        after: transaction,
+      });
+      return transaction;
+    });
+
+    if (!restored) {
+      return res.status(404).json({ error: 'Transaction not found in trash' });
+    }
+
+    return res.json(restored);
+  } catch (error: any) {
+    console.error('Error restoring transaction', error);
+    return res.status(500).json({ error: 'Failed to restore transaction' });
+  }
+});
+
 export default router;
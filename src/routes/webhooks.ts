@@ -0,0 +1,365 @@
+import express from 'express';
+import { z, ZodError } from 'zod';
+import prisma from '../db/client';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { AuthRequest } from '../types/auth';
+import {
+  WEBHOOK_DELIVERY_STATUSES,
+  WEBHOOK_EVENTS,
+  generateWebhookSecret,
+  isWebhookUrl,
+  maskWebhookSecret,
+  requeueWebhookDelivery,
+  sendWebhookTestEvent,
+} from '../services/webhooks';
+
+const router = express.Router();
+
+function parseId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isFinite(id) && id > 0 ? id : null;
+}
+
+const eventsSchema = z
+  .array(z.enum(['*', ...WEBHOOK_EVENTS]))
+  .min(1, 'at least one event is required')
+  .transform((list) => Array.from(new Set(list)));
+
+const createEndpointSchema = z.object({
+  url: z.string().max(2000).refine(isWebhookUrl, 'url must be an http(s) URL'),
+  events: eventsSchema,
+  description: z.string().max(255).optional(),
+  isActive: z.boolean().optional(),
+  // Optional custom secret (e.g. shared with an existing receiver); generated when omitted.
+  secret: z.string().min(16).max(255).optional(),
+});
+
+const updateEndpointSchema = createEndpointSchema
+  .omit({ secret: true })
+  .partial()
+  .extend({ description: z.string().max(255).nullable().optional() })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+    path: ['url'],
+  });
+
+const listDeliveriesQuerySchema = z.object({
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES as [string, ...string[]]).optional(),
+  event: z.string().max(64).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  // Id of the last item from the previous page (results are newest first).
+  cursor: z.coerce.number().int().positive().optional(),
+});
+
+function toEndpointResponse<T extends { secret: string }>(endpoint: T) {
+  return { ...endpoint, secret: maskWebhookSecret(endpoint.secret) };
+}
+
+async function findProjectEndpoint(projectId: number, rawId: string) {
+  const id = parseId(rawId);
+  if (!id) return null;
+  return prisma.webhookEndpoint.findFirst({ where: { id, projectId } });
+}
+
+// ---------- Endpoints ----------
+
+/**
+ * GET /webhooks
+ * Webhook endpoints of the current project (secrets masked) and the supported events.
+ */
+router.get('/', requireAuth, requirePermission('webhooks.read'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { projectId: user.projectId },
+      orderBy: { id: 'asc' },
+    });
+
+    return res.json({ items: endpoints.map(toEndpointResponse), events: WEBHOOK_EVENTS });
+  } catch (error: any) {
+    console.error('Error loading webhook endpoints', error);
+    return res.status(500).json({ error: 'Failed to load webhook endpoints' });
+  }
+});
+
+/**
+ * POST /webhooks
+ * Body: { url, events: ["case.created", ...] | ["*"], description?, isActive?, secret? }
+ * The response is the only place the full secret is returned (besides rotate-secret).
+ */
+router.post('/', requireAuth, requirePermission('webhooks.manage'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const data = createEndpointSchema.parse(req.body);
+    const endpoint = await prisma.webhookEndpoint.create({
+      data: {
+        projectId: user.projectId,
+        url: data.url,
+        events: data.events,
+        description: data.description ?? null,
+        isActive: data.isActive ?? true,
+        secret: data.secret ?? generateWebhookSecret(),
+      },
+    });
+
+    return res.status(201).json(endpoint);
+  } catch (error: any) {
+    console.error('Error creating webhook endpoint', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to create webhook endpoint' });
+  }
+});
+
+/**
+ * PATCH /webhooks/:id
+ * Body: any of { url, events, description, isActive }.
+ */
+router.patch('/:id', requireAuth, requirePermission('webhooks.manage'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    if (!parseId(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid webhook id' });
+    }
+    const existing = await findProjectEndpoint(user.projectId, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const data = updateEndpointSchema.parse(req.body);
+    const endpoint = await prisma.webhookEndpoint.update({
+      where: { id: existing.id },
+      data,
+    });
+
+    return res.json(toEndpointResponse(endpoint));
+  } catch (error: any) {
+    console.error('Error updating webhook endpoint', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to update webhook endpoint' });
+  }
+});
+
+/**
+ * DELETE /webhooks/:id
+ * Deletes the endpoint together with its delivery log.
+ */
+router.delete('/:id', requireAuth, requirePermission('webhooks.manage'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    if (!parseId(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid webhook id' });
+    }
+    const existing = await findProjectEndpoint(user.projectId, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    await prisma.webhookEndpoint.delete({ where: { id: existing.id } });
+    return res.status(204).send();
+  } catch (error: any) {
+    console.error('Error deleting webhook endpoint', error);
+    return res.status(500).json({ error: 'Failed to delete webhook endpoint' });
+  }
+});
+
+/**
+ * POST /webhooks/:id/rotate-secret
+ * Generates a new signing secret; returns it in full once.
+ */
+router.post('/:id/rotate-secret', requireAuth, requirePermission('webhooks.manage'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    if (!parseId(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid webhook id' });
+    }
+    const existing = await findProjectEndpoint(user.projectId, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const endpoint = await prisma.webhookEndpoint.update({
+      where: { id: existing.id },
+      data: { secret: generateWebhookSecret() },
+    });
+
+    return res.json(endpoint);
+  } catch (error: any) {
+    console.error('Error rotating webhook secret', error);
+    return res.status(500).json({ error: 'Failed to rotate webhook secret' });
+  }
+});
+
+/**
+ * POST /webhooks/:id/test
+ * Sends a signed `webhook.test` event right away (also to inactive endpoints) and returns
+ * the delivery with the receiver's status code and response body.
+ */
+router.post('/:id/test', requireAuth, requirePermission('webhooks.manage'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    if (!parseId(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid webhook id' });
+    }
+    const existing = await findProjectEndpoint(user.projectId, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const delivery = await sendWebhookTestEvent(user.projectId, existing.id);
+    return res.json(delivery);
+  } catch (error: any) {
+    console.error('Error sending webhook test event', error);
+    return res.status(500).json({ error: 'Failed to send test event' });
+  }
+});
+
+// ---------- Delivery log ----------
+
+/**
+ * GET /webhooks/:id/deliveries?status=failed&event=case.created&limit=50&cursor=123
+ * Delivery log of an endpoint, newest first.
+ */
+router.get('/:id/deliveries', requireAuth, requirePermission('webhooks.read'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    if (!parseId(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid webhook id' });
+    }
+    const endpoint = await findProjectEndpoint(user.projectId, req.params.id);
+    if (!endpoint) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const query = listDeliveriesQuerySchema.parse(req.query);
+    const where: any = { endpointId: endpoint.id };
+    if (query.status) where.status = query.status;
+    if (query.event) where.event = query.event;
+    if (query.cursor) where.id = { lt: query.cursor };
+
+    const limit = query.limit ?? 50;
+    const items = await prisma.webhookDelivery.findMany({
+      where,
+      orderBy: { id: 'desc' },
+      take: limit,
+    });
+
+    return res.json({
+      items,
+      nextCursor: items.length === limit ? items[items.length - 1].id : null,
+    });
+  } catch (error: any) {
+    console.error('Error listing webhook deliveries', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: 'Invalid query', details: error.errors });
+    }
+
+    return res.status(500).json({ error: 'Failed to list webhook deliveries' });
+  }
+});
+
+/**
+ * GET /webhooks/deliveries/:deliveryId
+ * Single delivery with payload and all HTTP attempts.
+ */
+router.get('/deliveries/:deliveryId', requireAuth, requirePermission('webhooks.read'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const id = parseId(req.params.deliveryId);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid delivery id' });
+    }
+
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: { id, projectId: user.projectId },
+      include: { attemptLog: { orderBy: { attempt: 'asc' } } },
+    });
+    if (!delivery) {
+      return res.status(404).json({ error: 'Delivery not found' });
+    }
+
+    return res.json(delivery);
+  } catch (error: any) {
+    console.error('Error loading webhook delivery', error);
+    return res.status(500).json({ error: 'Failed to load webhook delivery' });
+  }
+});
+
+/**
+ * POST /webhooks/deliveries/:deliveryId/redeliver
+ * Queues a delivered or failed delivery again (same event id and payload).
+ */
+router.post('/deliveries/:deliveryId/redeliver', requireAuth, requirePermission('webhooks.manage'), async (req: AuthRequest, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.projectId) {
+      return res.status(403).json({ error: 'Project context is required' });
+    }
+
+    const id = parseId(req.params.deliveryId);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid delivery id' });
+    }
+
+    const existing = await prisma.webhookDelivery.findFirst({
+      where: { id, projectId: user.projectId },
+      select: { id: true },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Delivery not found' });
+    }
+
+    const requeued = await requeueWebhookDelivery(user.projectId, id);
+    if (!requeued) {
+      return res.status(409).json({ error: 'Delivery is already queued' });
+    }
+
+    const delivery = await prisma.webhookDelivery.findUnique({ where: { id } });
+    return res.json(delivery);
+  } catch (error: any) {
+    console.error('Error redelivering webhook', error);
+    return res.status(500).json({ error: 'Failed to redeliver webhook' });
+  }
+});
+
+export default router;
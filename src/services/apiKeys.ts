@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import prisma from '../db/client';
+
+// ---------- Project API keys ----------
+// Keys look like "mcrm_<32 random chars>" and are sent as `Authorization: Bearer mcrm_...`
+// (or `X-Api-Key: mcrm_...`). Only the SHA-256 hash is stored.
+//
+// Scopes are "<resource>:<action>"; "read" covers GET requests, "write" everything else and
+// implies "read". Each admin route prefix maps to one resource (see API_KEY_ROUTE_RESOURCES);
+// routes without a mapping (auth, project members, invites, API keys themselves) reject keys.
+
+export const API_KEY_PREFIX = 'mcrm_';
+
+export const API_KEY_RESOURCES = [
+  'contacts',
+  'cases',
+  'tasks',
+  'transactions',
+  'booking',
+  'forms',
+  'notifications',
+  'webhooks',
+] as const;
+
+export type ApiKeyResource = (typeof API_KEY_RESOURCES)[number];
+
+/** Resources whose write routes record the acting user, which an API key does not have. */
+const READ_ONLY_RESOURCES: ApiKeyResource[] = ['forms'];
+
+export const API_KEY_SCOPES: string[] = API_KEY_RESOURCES.flatMap((r) =>
+  READ_ONLY_RESOURCES.includes(r) ? [`${r}:read`] : [`${r}:read`, `${r}:write`]
+);
+
+// Order matters: task routes live under /cases/:id/tasks. Case-insensitive, like Express routing
+// (otherwise "/cases/1/TASKS" would need only a cases scope).
+const API_KEY_ROUTE_RESOURCES: Array<[RegExp, ApiKeyResource]> = [
+  [/^\/cases\/[^/]+\/tasks(\/|$)/i, 'tasks'],
+  [/^\/tasks(\/|$)/i, 'tasks'],
+  [/^\/contacts(\/|$)/i, 'contacts'],
+  [/^\/cases(\/|$)/i, 'cases'],
+  [/^\/transactions(\/|$)/i, 'transactions'],
+  [/^\/booking(\/|$)/i, 'booking'],
+  [/^\/public-forms(\/|$)/i, 'forms'],
+  [/^\/notifications(\/|$)/i, 'notifications'],
+  [/^\/webhooks(\/|$)/i, 'webhooks'],
+];
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+  return { key, prefix: key.slice(0, API_KEY_PREFIX.length + 7), keyHash: hashApiKey(key) };
+}
+
+export function isApiKeyToken(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+/** Scope needed for a request, or null when the route is not available to API keys. */
+export function getRequiredApiKeyScope(method: string, path: string): string | null {
+  const match = API_KEY_ROUTE_RESOURCES.find(([re]) => re.test(path));
+  if (!match) return null;
+  const action = method === 'GET' || method === 'HEAD' ? 'read' : 'write';
+  return `${match[1]}:${action}`;
+}
+
+export function hasApiKeyScope(scopes: string[], required: string): boolean {
+  if (scopes.includes(required)) return true;
+  const [resource, action] = required.split(':');
+  return action === 'read' && scopes.includes(`${resource}:write`);
+}
+
+export type ApiKeyAuthResult =
+  | { ok: true; apiKey: { id: number; projectId: number; name: string; scopes: string[] } }
+  | { ok: false; error: string };
+
+/** Looks up an active key by its plain value and records usage (at most once a minute). */
+export async function authenticateApiKey(key: string): Promise<ApiKeyAuthResult> {
+  const apiKey = await prisma.apiKey.findUnique({ where: { keyHash: hashApiKey(key) } });
+  if (!apiKey || apiKey.revokedAt) {
+    return { ok: false, error: 'Invalid API key' };
+  }
+  if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) {
+    return { ok: false, error: 'API key has expired' };
+  }
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > 60 * 1000) {
+    prisma.apiKey
+      .update({ where: { id: apiKey.id }, data: { lastUsedAt: new Date() } })
+      .catch((e) => console.error('Failed to update API key lastUsedAt', e));
+  }
+
+  return {
+    ok: true,
+    apiKey: { id: apiKey.id, projectId: apiKey.projectId, name: apiKey.name, scopes: apiKey.scopes },
+  };
+}
@@ -0,0 +1,181 @@
+import type { Request } from 'express';
+import { Prisma, PrismaClient } from '../generated/prisma/client';
+import { AuthRequest } from '../types/auth';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// ---------- Audit log ----------
+// Every create/update/delete of project data is recorded with its actor, the changed fields
+// (before → after) and the request id. Write the entry with the same transaction client as the
+// change itself, so an audited change and its log entry commit together.
+
+export const AUDIT_ACTIONS = ['create', 'update', 'delete', 'restore', 'merge'] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_ENTITY_TYPES = [
+  'contact',
+  'case',
+  'task',
+  'transaction',
+  'project',
+  'allowed_origin',
+  'membership',
+  'project_role',
+  'invite',
+  'public_form',
+] as const;
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+export const AUDIT_ACTOR_TYPES = ['user', 'api_key', 'public_form'] as const;
+
+export type AuditActor =
+  | { type: 'user'; userId: number; label: string }
+  | { type: 'api_key'; apiKeyId: number; label: string }
+  | { type: 'public_form'; label: string };
+
+export type AuditContext = { actor: AuditActor; requestId: string | null; ip: string | null };
+
+/** Bookkeeping fields that would only add noise to diffs. */
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt']);
+const SENSITIVE_FIELD_RE = /password|secret|token|keyHash/i;
+
+/** Actor of an authenticated admin request (user session or project API key). */
+export function auditContext(req: AuthRequest): AuditContext {
+  const user = req.user!;
+  const actor: AuditActor = user.apiKeyId
+    ? { type: 'api_key', apiKeyId: user.apiKeyId, label: user.email }
+    : { type: 'user', userId: user.id, label: user.email };
+  return { actor, requestId: req.requestId ?? null, ip: req.ip || null };
+}
+
+/** Actor signed in by the request itself (e.g. accepting an invite without a session yet). */
+export function userAuditContext(req: Request, user: { id: number; email: string }): AuditContext {
+  return { actor: { type: 'user', userId: user.id, label: user.email }, requestId: req.requestId ?? null, ip: req.ip || null };
+}
+
+/** Actor of a public (unauthenticated) form submission. */
+export function publicFormAuditContext(req: Request, formKey: string): AuditContext {
+  return { actor: { type: 'public_form', label: formKey }, requestId: req.requestId ?? null, ip: req.ip || null };
+}
+
+function toComparable(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (value !== null && typeof value === 'object' && 'toJSON' in (value as any)) return (value as any).toJSON();
+  return value === undefined ? null : value;
+}
+
+/**
+ * Field-level diff: `{ field: { from, to } }` for fields that differ. Pass null `before` for a
+ * create and null `after` for a delete. Returns null when nothing changed.
+ */
+export function computeAuditChanges(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): Record<string, { from: unknown; to: unknown }> | null {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    const from = toComparable(before?.[key]);
+    const to = toComparable(after?.[key]);
+    // Relations included by the caller (objects/arrays of objects) are not diffed.
+    if (isRelation(from) || isRelation(to)) continue;
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+
+    changes[key] = SENSITIVE_FIELD_RE.test(key)
+      ? { from: from === null ? null : '[redacted]', to: to === null ? null : '[redacted]' }
+      : { from, to };
+  }
+
+  return Object.keys(changes).length ? changes : null;
+}
+
+function isRelation(value: unknown): boolean {
+  if (Array.isArray(value)) return value.some((v) => v !== null && typeof v === 'object');
+  return value !== null && typeof value === 'object' && 'id' in (value as any);
+}
+
+export type AuditEntry = {
+  projectId: number;
+  entityType: AuditEntityType;
+  entityId: number | null;
+  action: AuditAction;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+};
+
+/** Writes one audit entry; updates that changed nothing are skipped. */
+export async function recordAudit(db: DbClient, ctx: AuditContext, entry: AuditEntry): Promise<void> {
+  const changes = computeAuditChanges(entry.before, entry.after);
+  if (entry.action === 'update' && !changes) return;
+
+  await db.auditLog.create({
+    data: {
+      projectId: entry.projectId,
+      actorType: ctx.actor.type,
+      actorUserId: ctx.actor.type === 'user' ? ctx.actor.userId : null,
+      actorApiKeyId: ctx.actor.type === 'api_key' ? ctx.actor.apiKeyId : null,
+      actorLabel: ctx.actor.label,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      action: entry.action,
+      changes: (changes ?? undefined) as Prisma.InputJsonValue | undefined,
+      requestId: ctx.requestId,
+      ip: ctx.ip,
+    },
+  });
+}
+
+/**
+ * Audit entries for the records a public form submission created (contact only when new, or
+ * when the submission brought it back from trash).
+ */
+export async function recordSubmissionAudit(
+  db: DbClient,
+  ctx: AuditContext,
+  projectId: number,
+  records: {
+    contact: { id: number } & Record<string, unknown>;
+    contactCreated: boolean;
+    /** The trashed contact as it was, when findOrCreateContact restored it. */
+    contactRestoredFrom?: ({ id: number } & Record<string, unknown>) | null;
+    case: { id: number } & Record<string, unknown>;
+    transaction?: ({ id: number } & Record<string, unknown>) | null;
+  }
+): Promise<void> {
+  if (records.contactCreated) {
+    await recordAudit(db, ctx, {
+      projectId,
+      entityType: 'contact',
+      entityId: records.contact.id,
+      action: 'create',
+      after: records.contact,
+    });
+  } else if (records.contactRestoredFrom) {
+    await recordAudit(db, ctx, {
+      projectId,
+      entityType: 'contact',
+      entityId: records.contact.id,
+      action: 'restore',
+      before: records.contactRestoredFrom,
+      after: records.contact,
+    });
+  }
+  await recordAudit(db, ctx, {
+    projectId,
+    entityType: 'case',
+    entityId: records.case.id,
+    action: 'create',
+    after: records.case,
+  });
+  if (records.transaction) {
+    await recordAudit(db, ctx, {
+      projectId,
+      entityType: 'transaction',
+      entityId: records.transaction.id,
+      action: 'create',
+      after: records.transaction,
+    });
+  }
+}
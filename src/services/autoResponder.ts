@@ -0,0 +1,113 @@
+import { Prisma, PrismaClient } from '../generated/prisma/client';
+import { enqueueNotification } from './notificationOutbox';
+import { listTemplateVariables, renderTemplate, toSubjectLine } from './templates';
+
+/**
+ * Per-form confirmation email to the person who submitted the form.
+ *
+ * Stored in PublicForm.config.autoResponder (opt-in, never exposed by the public config endpoint).
+ * Templates may use {{projectName}}, {{formTitle}}, {{caseId}} and {{fields.<fieldName>}}.
+ *
+ * Example:
+ *  {
+ *    "enabled": true,
+ *    "subject": "Дякуємо, {{fields.name}}!",
+ *    "body": "Ми отримали вашу заявку №{{caseId}} і звʼяжемося з вами.\n\n{{projectName}}"
+ *  }
+ */
+export type PublicFormAutoResponder = {
+  enabled: boolean;
+  /** Field holding the recipient address; defaults to the submitter email resolved by the handler. */
+  emailField?: string;
+  subject?: string;
+  body?: string;
+};
+
+export const DEFAULT_AUTO_RESPONDER_SUBJECT = 'Дякуємо за звернення — {{projectName}}';
+export const DEFAULT_AUTO_RESPONDER_BODY =
+  'Дякуємо! Ми отримали вашу заявку «{{formTitle}}».\nНомер звернення: {{caseId}}.\n\n{{projectName}}';
+
+export const AUTO_RESPONDER_VARIABLES = ['projectName', 'formTitle', 'caseId'];
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Returns template problems against the form fields, in the `{ field, message }` shape
+ * used by validatePublicFormConfig.
+ */
+export function validateAutoResponder(
+  fields: Array<{ name: string; type: string }>,
+  cfg: PublicFormAutoResponder | null | undefined
+): Array<{ field: string; message: string }> {
+  const errors: Array<{ field: string; message: string }> = [];
+  if (!cfg) return errors;
+
+  const names = new Set(fields.map((f) => f.name));
+
+  if (cfg.emailField !== undefined) {
+    const f = fields.find((x) => x.name === cfg.emailField);
+    if (!f) {
+      errors.push({ field: 'autoResponder.emailField', message: `Unknown form field "${cfg.emailField}"` });
+    } else if (f.type !== 'email') {
+      errors.push({ field: 'autoResponder.emailField', message: 'emailField must reference an email field' });
+    }
+  }
+
+  for (const key of ['subject', 'body'] as const) {
+    for (const v of listTemplateVariables(cfg[key] || '')) {
+      const known = AUTO_RESPONDER_VARIABLES.includes(v) || (v.startsWith('fields.') && names.has(v.slice(7)));
+      if (!known) {
+        errors.push({ field: `autoResponder.${key}`, message: `Unknown template variable "${v}"` });
+      }
+    }
+  }
+
+  return errors;
+}
+
+export function getAutoResponderConfig(config: unknown): PublicFormAutoResponder | null {
+  const cfg: any = config && typeof config === 'object' ? (config as any).autoResponder : null;
+  return cfg && typeof cfg === 'object' && cfg.enabled === true ? (cfg as PublicFormAutoResponder) : null;
+}
+
+/**
+ * Enqueues the confirmation email if the form opted in and a valid recipient address is present.
+ * Call inside the submission transaction; callers skip smoke requests and honeypot hits,
+ * same as staff notifications.
+ */
+export async function enqueueSubmitterConfirmation(
+  db: DbClient,
+  input: {
+    project: { id: number; name: string; slug: string };
+    form: { title: string; config: unknown };
+    data: Record<string, any>;
+    caseId: number | null | undefined;
+    /** The address typed into this submission, never the matched contact's (it may be someone else's). */
+    email?: string | null;
+  }
+): Promise<void> {
+  const cfg = getAutoResponderConfig(input.form.config);
+  if (!cfg) return;
+
+  const raw = cfg.emailField ? input.data[cfg.emailField] : input.email;
+  const to = typeof raw === 'string' ? raw.trim() : '';
+  if (!to || !EMAIL_RE.test(to)) return;
+
+  const vars = {
+    projectName: input.project.name,
+    formTitle: input.form.title,
+    caseId: input.caseId ?? '',
+    fields: input.data,
+  };
+
+  await enqueueNotification(db, {
+    projectId: input.project.id,
+    caseId: input.caseId ?? null,
+    kind: 'confirmation',
+    to: [to],
+    subject: toSubjectLine(renderTemplate(cfg.subject || DEFAULT_AUTO_RESPONDER_SUBJECT, vars)),
+    text: renderTemplate(cfg.body || DEFAULT_AUTO_RESPONDER_BODY, vars),
+  });
+}
@@ -0,0 +1,243 @@
+import { Prisma, PrismaClient } from '../generated/prisma/client';
+import { normalizeIsoDate, normalizeIsoTime } from './publicFormSchema';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// ---------- Booking slots ----------
+// All times are project-local wall-clock time. Booking.startsAt/endsAt store that wall-clock
+// time as if it were UTC, so "2026-10-20 09:30" is always 2026-10-20T09:30:00.000Z regardless
+// of the server timezone.
+
+/** IANA zone of the projects' wall-clock time; only used to tell which slots are already in the past. */
+const BOOKING_TIMEZONE = resolveTimeZone(process.env.BOOKING_TIMEZONE || 'UTC');
+
+/** Longest range (in days) served by a single slots query. */
+export const MAX_SLOT_RANGE_DAYS = 31;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type BookingServiceLike = {
+  id: number;
+  projectId: number;
+  durationMinutes: number;
+  capacity: number;
+};
+
+export type BookingSlot = {
+  time: string; // "HH:MM"
+  endTime: string; // "HH:MM" (may be "24:00" for a slot ending at midnight)
+  remaining: number;
+};
+
+export type BookingDay = {
+  date: string; // "YYYY-MM-DD"
+  slots: BookingSlot[];
+};
+
+export function timeToMinutes(value: string): number | null {
+  const t = normalizeIsoTime(value);
+  if (!t) return null;
+  const [h, m] = t.split(':').map(Number);
+  return h * 60 + m;
+}
+
+export function minutesToTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function resolveTimeZone(zone: string): string {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return zone;
+  } catch {
+    console.warn(`Unknown BOOKING_TIMEZONE "${zone}", using UTC`);
+    return 'UTC';
+  }
+}
+
+/** Current time in BOOKING_TIMEZONE, in the stored wall-clock representation (see above). */
+export function wallClockNow(now: Date = new Date()): Date {
+  const parts: Record<string, string> = {};
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: BOOKING_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  });
+  for (const part of formatter.formatToParts(now)) parts[part.type] = part.value;
+  return new Date(`${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}:${parts.second}.000Z`);
+}
+
+/** Wall-clock date + minutes since midnight -> stored DateTime. */
+export function toSlotDateTime(date: string, minutes: number): Date {
+  return new Date(Date.parse(`${date}T00:00:00.000Z`) + minutes * 60 * 1000);
+}
+
+/** ISO weekday of a "YYYY-MM-DD" date: 1 = Monday ... 7 = Sunday. */
+function isoWeekday(date: string): number {
+  const day = new Date(`${date}T00:00:00.000Z`).getUTCDay();
+  return day === 0 ? 7 : day;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00.000Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Inclusive list of dates; null when the range is invalid or longer than MAX_SLOT_RANGE_DAYS. */
+export function listDates(from: string, to: string): string[] | null {
+  const a = normalizeIsoDate(from);
+  const b = normalizeIsoDate(to);
+  if (!a || !b || a > b) return null;
+
+  const out: string[] = [];
+  for (let d = a; d <= b; d = addDays(d, 1)) {
+    out.push(d);
+    if (out.length > MAX_SLOT_RANGE_DAYS) return null;
+  }
+  return out;
+}
+
+/**
+ * Every slot offered for a service in a date range, with remaining capacity
+ * (remaining may be 0). Windows and blackouts without serviceId apply to all services.
+ */
+export async function computeBookingSlots(
+  db: DbClient,
+  service: BookingServiceLike,
+  dates: string[]
+): Promise<BookingDay[]> {
+  if (dates.length === 0) return [];
+
+  const rangeStart = toSlotDateTime(dates[0], 0);
+  const rangeEnd = toSlotDateTime(dates[dates.length - 1], 24 * 60);
+  const serviceScope = { OR: [{ serviceId: null }, { serviceId: service.id }] };
+
+  // Sequential on purpose: `db` may be an interactive transaction client.
+  const windows = await db.availabilityWindow.findMany({
+    where: { projectId: service.projectId, ...serviceScope },
+    orderBy: { startTime: 'asc' },
+  });
+  const blackouts = await db.blackoutDate.findMany({
+    where: { projectId: service.projectId, date: { gte: rangeStart, lt: rangeEnd }, ...serviceScope },
+    select: { date: true },
+  });
+  const bookings = await db.booking.findMany({
+    where: {
+      serviceId: service.id,
+      status: 'confirmed',
+      startsAt: { lt: rangeEnd },
+      endsAt: { gt: rangeStart },
+    },
+    select: { startsAt: true, endsAt: true },
+  });
+
+  const blocked = new Set(blackouts.map((b) => b.date.toISOString().slice(0, 10)));
+  const duration = service.durationMinutes;
+
+  return dates.map((date) => {
+    if (blocked.has(date)) return { date, slots: [] };
+
+    const weekday = isoWeekday(date);
+    const starts = new Set<number>();
+    for (const w of windows) {
+      if (w.weekday !== weekday) continue;
+      const from = timeToMinutes(w.startTime);
+      const to = w.endTime === '24:00' ? 24 * 60 : timeToMinutes(w.endTime);
+      if (from === null || to === null) continue;
+      for (let t = from; t + duration <= to; t += duration) starts.add(t);
+    }
+
+    const slots = Array.from(starts)
+      .sort((a, b) => a - b)
+      .map((start) => {
+        const startsAt = toSlotDateTime(date, start);
+        const endsAt = toSlotDateTime(date, start + duration);
+        const taken = bookings.filter((b) => b.startsAt < endsAt && b.endsAt > startsAt).length;
+        return {
+          time: minutesToTime(start),
+          endTime: minutesToTime(start + duration),
+          remaining: Math.max(0, service.capacity - taken),
+        };
+      });
+
+    return { date, slots };
+  });
+}
+
+export type ReserveSlotResult =
+  | { ok: true; startsAt: Date; endsAt: Date }
+  | { ok: false; status: 400 | 409; error: string };
+
+/**
+ * Checks that date+time is an offered slot that has not started yet and has free capacity.
+ * Must run inside the transaction that creates the Booking: the service row is locked
+ * (SELECT ... FOR UPDATE), so concurrent submissions for the same service are serialized
+ * and cannot both take the last place in a slot.
+ */
+export async function reserveBookingSlot(
+  tx: Prisma.TransactionClient,
+  service: BookingServiceLike,
+  date: string,
+  time: string
+): Promise<ReserveSlotResult> {
+  const start = timeToMinutes(time);
+  if (start !== null && toSlotDateTime(date, start) <= wallClockNow()) {
+    return { ok: false, status: 400, error: 'Selected time is in the past' };
+  }
+
+  await tx.$queryRaw`SELECT "id" FROM "BookingService" WHERE "id" = ${service.id} FOR UPDATE`;
+
+  const [day] = await computeBookingSlots(tx, service, [date]);
+  const slot = day && start !== null ? day.slots.find((s) => s.time === minutesToTime(start)) : undefined;
+
+  if (!slot || start === null) {
+    return { ok: false, status: 400, error: 'Selected time is not available for booking' };
+  }
+  if (slot.remaining <= 0) {
+    return { ok: false, status: 409, error: 'Selected time slot is already booked' };
+  }
+
+  return {
+    ok: true,
+    startsAt: toSlotDateTime(date, start),
+    endsAt: toSlotDateTime(date, start + service.durationMinutes),
+  };
+}
+
+// ---------- Bookings of trashed cases ----------
+// Trashing a case releases its booking ("released" does not count against capacity); restoring
+// the case confirms it again if the slot still has room, otherwise the booking is cancelled.
+
+/** Frees the slot of a case that is moved to trash. */
+export async function releaseCaseBooking(tx: Prisma.TransactionClient, caseId: number): Promise<void> {
+  await tx.booking.updateMany({ where: { caseId, status: 'confirmed' }, data: { status: 'released' } });
+}
+
+/**
+ * Takes the slot back for a case restored from trash. Locks the service row like
+ * reserveBookingSlot, so it cannot race a public submission for the last place.
+ */
+export async function reinstateCaseBooking(tx: Prisma.TransactionClient, caseId: number) {
+  const booking = await tx.booking.findFirst({ where: { caseId, status: 'released' }, include: { service: true } });
+  if (!booking) return null;
+
+  await tx.$queryRaw`SELECT "id" FROM "BookingService" WHERE "id" = ${booking.serviceId} FOR UPDATE`;
+
+  const taken = await tx.booking.count({
+    where: {
+      serviceId: booking.serviceId,
+      status: 'confirmed',
+      startsAt: { lt: booking.endsAt },
+      endsAt: { gt: booking.startsAt },
+    },
+  });
+
+  return tx.booking.update({
+    where: { id: booking.id },
+    data: { status: taken < booking.service.capacity ? 'confirmed' : 'cancelled' },
+  });
+}
@@ -0,0 +1,205 @@
+import { z } from 'zod';
+import prisma from '../db/client';
+import { Contact, Prisma } from '../generated/prisma/client';
+import { buildContactWhere, contactFiltersSchema } from './contacts';
+import { toCsvLine } from '../utils/csv';
+
+// ---------- Contact export: CSV, vCard 3.0/4.0, JSON Lines ----------
+// Contacts matching the list filters are read PAGE_SIZE at a time (by id) and turned into text
+// chunks, so the response can be streamed without loading the whole project into memory.
+
+const PAGE_SIZE = 500;
+
+export const CONTACT_EXPORT_FORMATS = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  vcard3: { contentType: 'text/vcard; charset=utf-8', extension: 'vcf' },
+  vcard4: { contentType: 'text/vcard; charset=utf-8', extension: 'vcf' },
+  jsonl: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'jsonl' },
+} as const;
+
+export type ContactExportFormat = keyof typeof CONTACT_EXPORT_FORMATS;
+
+const EXPORT_INCLUDES = ['cases', 'donations'] as const;
+
+export const contactExportQuerySchema = contactFiltersSchema.extend({
+  format: z.enum(['csv', 'vcard3', 'vcard4', 'jsonl']).default('csv'),
+  // Comma-separated extra columns: "cases" (number of cases), "donations" (income per currency).
+  include: z
+    .string()
+    .optional()
+    .transform((v) => (v ? v.split(',').map((s) => s.trim()).filter(Boolean) : []))
+    .pipe(z.array(z.enum(EXPORT_INCLUDES))),
+});
+
+export type ContactExportQuery = z.infer<typeof contactExportQuerySchema>;
+
+type ExportRow = {
+  contact: Contact;
+  cases?: number;
+  /** Sum of income transactions per currency, e.g. { "UAH": "1500" }. */
+  donations?: Record<string, string>;
+};
+
+/** Case counts and income totals of one page of contacts (trashed cases/transactions excluded). */
+async function loadAggregates(projectId: number, contactIds: number[], include: ContactExportQuery['include']) {
+  const [cases, donations] = await Promise.all([
+    include.includes('cases')
+      ? prisma.case.groupBy({
+          by: ['contactId'],
+          where: { projectId, contactId: { in: contactIds }, deletedAt: null },
+          _count: { _all: true },
+        })
+      : [],
+    include.includes('donations')
+      ? prisma.transaction.groupBy({
+          by: ['contactId', 'currency'],
+          where: { projectId, contactId: { in: contactIds }, deletedAt: null, type: 'income' },
+          _sum: { amount: true },
+        })
+      : [],
+  ]);
+
+  const caseCounts = new Map(cases.map((c) => [c.contactId, c._count._all]));
+  const donationTotals = new Map<number, Record<string, string>>();
+  for (const d of donations) {
+    if (d.contactId === null) continue;
+    const totals = donationTotals.get(d.contactId) ?? {};
+    totals[d.currency] = (d._sum.amount ?? new Prisma.Decimal(0)).toString();
+    donationTotals.set(d.contactId, totals);
+  }
+  return { caseCounts, donationTotals };
+}
+
+// ---------- Formats ----------
+
+const CSV_COLUMNS = ['id', 'name', 'email', 'phone', 'notes', 'createdAt'];
+
+function csvHeader(include: ContactExportQuery['include']): string {
+  // BOM: lets Excel detect UTF-8 (Cyrillic names).
+  return `\uFEFF${toCsvLine([...CSV_COLUMNS, ...include])}\r\n`;
+}
+
+function formatDonations(donations: Record<string, string>): string {
+  return Object.entries(donations)
+    .map(([currency, amount]) => `${amount} ${currency}`)
+    .join('; ');
+}
+
+function csvRow({ contact, cases, donations }: ExportRow, include: ContactExportQuery['include']): string {
+  const extra = include.map((col) => (col === 'cases' ? (cases ?? 0) : formatDonations(donations ?? {})));
+  return `${toCsvLine([
+    contact.id,
+    contact.name,
+    contact.email,
+    contact.phone,
+    contact.notes,
+    contact.createdAt.toISOString(),
+    ...extra,
+  ])}\r\n`;
+}
+
+function jsonlRow({ contact, cases, donations }: ExportRow): string {
+  const { id, name, email, phone, notes, createdAt, updatedAt } = contact;
+  const line: Record<string, unknown> = { id, name, email, phone, notes, createdAt, updatedAt };
+  if (cases !== undefined) line.cases = cases;
+  if (donations !== undefined) line.donations = donations;
+  return `${JSON.stringify(line)}\n`;
+}
+
+/** TEXT value escaping (RFC 6350 §3.4 / RFC 2426 §5). */
+function vcardText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\n').replace(/,/g, '\\,').replace(/;/g, '\\;');
+}
+
+/** Folds a content line at 75 octets without splitting a UTF-8 character. */
+function foldVcardLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const ch of line) {
+    const size = Buffer.byteLength(ch);
+    const max = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (octets + size > max) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += ch;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function vcardRow({ contact, cases, donations }: ExportRow, version: '3.0' | '4.0'): string {
+  const lines = ['BEGIN:VCARD', `VERSION:${version}`, `FN:${vcardText(contact.name)}`];
+  // vCard 3.0 requires N; the name is not split into parts, so it goes in as the given name.
+  lines.push(`N:;${vcardText(contact.name)};;;`);
+  if (contact.email) {
+    lines.push(version === '3.0' ? `EMAIL;TYPE=INTERNET:${vcardText(contact.email)}` : `EMAIL:${vcardText(contact.email)}`);
+  }
+  if (contact.phone) {
+    lines.push(
+      version === '3.0'
+        ? `TEL;TYPE=CELL:${vcardText(contact.phone)}`
+        : `TEL;VALUE=uri;TYPE=cell:tel:${contact.phoneNormalized ?? contact.phone.replace(/\s+/g, '')}`
+    );
+  }
+  if (contact.notes) lines.push(`NOTE:${vcardText(contact.notes)}`);
+  if (cases !== undefined) lines.push(`X-CRM-CASES:${cases}`);
+  if (donations !== undefined) lines.push(`X-CRM-DONATIONS:${vcardText(formatDonations(donations))}`);
+  lines.push(`UID:contact-${contact.id}`, `REV:${contact.updatedAt.toISOString()}`, 'END:VCARD');
+  return lines.map(foldVcardLine).join('\r\n') + '\r\n';
+}
+
+function formatRow(row: ExportRow, query: ContactExportQuery): string {
+  switch (query.format) {
+    case 'csv':
+      return csvRow(row, query.include);
+    case 'jsonl':
+      return jsonlRow(row);
+    case 'vcard3':
+      return vcardRow(row, '3.0');
+    case 'vcard4':
+      return vcardRow(row, '4.0');
+  }
+}
+
+/** Text chunks of the export (one per page of contacts), oldest contact first. */
+export async function* contactExportChunks(projectId: number, query: ContactExportQuery): AsyncGenerator<string> {
+  if (query.format === 'csv') yield csvHeader(query.include);
+
+  const where = buildContactWhere(projectId, query);
+  let lastId = 0;
+
+  for (;;) {
+    const contacts = await prisma.contact.findMany({
+      where: { AND: [where, { id: { gt: lastId } }] },
+      orderBy: { id: 'asc' },
+      take: PAGE_SIZE,
+    });
+    if (contacts.length === 0) return;
+    lastId = contacts[contacts.length - 1].id;
+
+    const { caseCounts, donationTotals } = await loadAggregates(
+      projectId,
+      contacts.map((c) => c.id),
+      query.include
+    );
+
+    yield contacts
+      .map((contact) =>
+        formatRow(
+          {
+            contact,
+            cases: query.include.includes('cases') ? (caseCounts.get(contact.id) ?? 0) : undefined,
+            donations: query.include.includes('donations') ? (donationTotals.get(contact.id) ?? {}) : undefined,
+          },
+          query
+        )
+      )
+      .join('');
+
+    if (contacts.length < PAGE_SIZE) return;
+  }
+}
@@ -0,0 +1,297 @@
+import { z } from 'zod';
+import prisma from '../db/client';
+import { Prisma } from '../generated/prisma/client';
+import { AuditContext, recordAudit } from './auditLog';
+import { booleanQueryParam, ContactMatchFields, contactBackfill, findOrCreateContactWithStatus } from './contacts';
+import { emitWebhookEvent } from './webhooks';
+import { detectCsvDelimiter, parseCsv } from '../utils/csv';
+import { normalizeEmailOptional } from '../utils/normalizeEmail';
+import { normalizePhoneOptional } from '../utils/normalizePhone';
+
+// ---------- CSV import of contacts ----------
+// Every row goes through findOrCreateContact, like a public form submission: a row matching an
+// existing contact by normalized email (then phone) only fills in that contact's empty fields; a
+// matching contact in trash is restored and reported as "restored".
+// Rows are committed in batches of BATCH_SIZE. A dry run writes nothing and holds no transaction:
+// it replays the same matching against read-only lookups plus the contacts the file itself would
+// create or fill in (see dryRunRows), so the report also reflects duplicates within the file.
+
+const BATCH_SIZE = 200;
+export const MAX_IMPORT_ROWS = 10000;
+const BATCH_TIMEOUT_MS = 60 * 1000;
+
+const IMPORT_FIELDS = ['name', 'email', 'phone', 'notes'] as const;
+type ImportField = (typeof IMPORT_FIELDS)[number];
+
+/** Header names recognized without an explicit mapping (compared case-insensitively). */
+const DEFAULT_HEADERS: Record<ImportField, string[]> = {
+  name: ['name', 'full name'],
+  email: ['email', 'e-mail', 'email address'],
+  phone: ['phone', 'phone number', 'mobile', 'tel', 'telephone'],
+  notes: ['notes', 'note', 'comment', 'comments'],
+};
+
+const columnName = z.string().trim().min(1).max(255);
+
+export const contactImportQuerySchema = z.object({
+  dryRun: booleanQueryParam.optional(),
+  delimiter: z.enum([',', ';', 'tab']).optional(),
+  // CSV header of the column for each contact field, e.g. mapping[phone]=Mobile.
+  mapping: z
+    .object({
+      name: columnName.optional(),
+      email: columnName.optional(),
+      phone: columnName.optional(),
+      notes: columnName.optional(),
+    })
+    .optional(),
+});
+
+export type ContactImportQuery = z.infer<typeof contactImportQuerySchema>;
+
+// Same limits as POST /contacts.
+const importRowSchema = z
+  .object({
+    name: z.string().max(255).optional(),
+    email: z.string().email().max(255).optional(),
+    phone: z
+      .string()
+      .max(50)
+      .refine((v) => normalizePhoneOptional(v) !== undefined, 'Phone must contain digits')
+      .optional(),
+    notes: z.string().max(2000).optional(),
+  })
+  .refine((data) => data.name || data.email || data.phone, {
+    message: 'At least one of name, email or phone is required',
+    path: ['name'],
+  });
+
+type ImportRowValues = z.infer<typeof importRowSchema>;
+
+export type ImportRowStatus = 'created' | 'updated' | 'restored' | 'skipped' | 'invalid';
+
+export type ImportRowResult = {
+  /** Line where the record starts in the file (the header is on line 1, blank lines count). */
+  row: number;
+  status: ImportRowStatus;
+  contactId?: number;
+  errors?: string[];
+  reason?: string;
+};
+
+/** Column index for each mapped field, or an error naming a missing column. */
+function resolveColumns(header: string[], mapping: ContactImportQuery['mapping']) {
+  const normalized = header.map((h) => h.trim().toLowerCase());
+  const columns: Partial<Record<ImportField, number>> = {};
+
+  for (const field of IMPORT_FIELDS) {
+    const wanted = mapping?.[field];
+    if (wanted) {
+      const index = normalized.indexOf(wanted.toLowerCase());
+      if (index === -1) return { ok: false as const, error: `Column "${wanted}" not found in the CSV header` };
+      columns[field] = index;
+    } else if (!mapping) {
+      const index = normalized.findIndex((h) => DEFAULT_HEADERS[field].includes(h));
+      if (index !== -1) columns[field] = index;
+    }
+  }
+
+  if (columns.name === undefined && columns.email === undefined && columns.phone === undefined) {
+    return { ok: false as const, error: 'Map a column to at least one of name, email or phone' };
+  }
+  return { ok: true as const, columns };
+}
+
+async function importRow(
+  tx: Prisma.TransactionClient,
+  ctx: AuditContext,
+  projectId: number,
+  row: number,
+  values: ImportRowValues
+): Promise<ImportRowResult> {
+  // findOrCreateContact fills in a missing phone/email; if that value belongs to another
+  // contact the update would violate the unique index, so such rows are left for a merge.
+  const emailNormalized = normalizeEmailOptional(values.email);
+  const phoneNormalized = normalizePhoneOptional(values.phone);
+  if (emailNormalized && phoneNormalized) {
+    const [byEmail, byPhone] = await Promise.all([
+      tx.contact.findFirst({ where: { projectId, emailNormalized }, select: { id: true } }),
+      tx.contact.findFirst({ where: { projectId, phoneNormalized }, select: { id: true } }),
+    ]);
+    if (byEmail && byPhone && byEmail.id !== byPhone.id) {
+      return {
+        row,
+        status: 'skipped',
+        reason: `Email matches contact #${byEmail.id} and phone matches contact #${byPhone.id}`,
+      };
+    }
+  }
+
+  const { contact, created, updated, restored, before } = await findOrCreateContactWithStatus(
+    projectId,
+    values,
+    tx
+  );
+
+  if (created) {
+    await emitWebhookEvent(tx, projectId, 'contact.created', { contact });
+    await recordAudit(tx, ctx, { projectId, entityType: 'contact', entityId: contact.id, action: 'create', after: contact });
+    return { row, status: 'created', contactId: contact.id };
+  }
+  if (restored) {
+    await recordAudit(tx, ctx, { projectId, entityType: 'contact', entityId: contact.id, action: 'restore', before, after: contact });
+    return { row, status: 'restored', contactId: contact.id };
+  }
+  if (updated) {
+    await recordAudit(tx, ctx, { projectId, entityType: 'contact', entityId: contact.id, action: 'update', before, after: contact });
+    return { row, status: 'updated', contactId: contact.id };
+  }
+  return { row, status: 'skipped', contactId: contact.id, reason: 'Contact already exists with these details' };
+}
+
+/** A contact as the dry run sees it: loaded from the database (id set) or created by an earlier row. */
+type DryRunContact = ContactMatchFields & { id: number | null; row: number; deletedAt: Date | null };
+
+/** Same outcome per row as importRow, computed in memory; contacts new to the project have no contactId. */
+async function dryRunRows(projectId: number, valid: Array<{ row: number; values: ImportRowValues }>) {
+  const byId = new Map<number, DryRunContact>();
+  const byEmail = new Map<string, DryRunContact | null>();
+  const byPhone = new Map<string, DryRunContact | null>();
+
+  const remember = (contact: DryRunContact) => {
+    if (contact.emailNormalized) byEmail.set(contact.emailNormalized, contact);
+    if (contact.phoneNormalized) byPhone.set(contact.phoneNormalized, contact);
+  };
+  const load = async (where: { emailNormalized: string } | { phoneNormalized: string }, row: number) => {
+    const found = await prisma.contact.findFirst({ where: { projectId, ...where } });
+    if (!found) return null;
+    let contact = byId.get(found.id);
+    if (!contact) {
+      contact = { ...found, row };
+      byId.set(found.id, contact);
+      remember(contact);
+    }
+    return contact;
+  };
+  const findByEmail = async (emailNormalized: string, row: number) => {
+    if (!byEmail.has(emailNormalized)) byEmail.set(emailNormalized, await load({ emailNormalized }, row));
+    return byEmail.get(emailNormalized) ?? null;
+  };
+  const findByPhone = async (phoneNormalized: string, row: number) => {
+    if (!byPhone.has(phoneNormalized)) byPhone.set(phoneNormalized, await load({ phoneNormalized }, row));
+    return byPhone.get(phoneNormalized) ?? null;
+  };
+  const label = (contact: DryRunContact) =>
+    contact.id ? `contact #${contact.id}` : `the contact of row ${contact.row}`;
+
+  const results: ImportRowResult[] = [];
+  for (const { row, values } of valid) {
+    const emailNormalized = normalizeEmailOptional(values.email);
+    const phoneNormalized = normalizePhoneOptional(values.phone);
+    const byEmailMatch = emailNormalized ? await findByEmail(emailNormalized, row) : null;
+    const byPhoneMatch = phoneNormalized ? await findByPhone(phoneNormalized, row) : null;
+
+    if (byEmailMatch && byPhoneMatch && byEmailMatch !== byPhoneMatch) {
+      results.push({
+        row,
+        status: 'skipped',
+        reason: `Email matches ${label(byEmailMatch)} and phone matches ${label(byPhoneMatch)}`,
+      });
+      continue;
+    }
+
+    const match = byEmailMatch ?? byPhoneMatch;
+    if (!match) {
+      const empty = { name: '', email: null, phone: null, emailNormalized: null, phoneNormalized: null, notes: null };
+      const contact: DryRunContact = { ...empty, ...contactBackfill(empty, values), id: null, row, deletedAt: null };
+      remember(contact);
+      results.push({ row, status: 'created' });
+      continue;
+    }
+
+    const data = contactBackfill(match, values);
+    const restored = match.deletedAt !== null;
+    Object.assign(match, data, { deletedAt: null });
+    remember(match);
+
+    const contactId = match.id ?? undefined;
+    if (restored) results.push({ row, status: 'restored', contactId });
+    else if (Object.keys(data).length > 0) results.push({ row, status: 'updated', contactId });
+    else results.push({ row, status: 'skipped', contactId, reason: 'Contact already exists with these details' });
+  }
+  return results;
+}
+
+/**
+ * Imports contacts from CSV text (first line = header). Returns a per-row report; when a batch
+ * fails, earlier batches stay committed and `stoppedAtRow` is the first row of the failed batch.
+ */
+export async function importContactsCsv(projectId: number, csv: string, query: ContactImportQuery, ctx: AuditContext) {
+  const delimiter = query.delimiter === 'tab' ? '\t' : (query.delimiter ?? detectCsvDelimiter(csv));
+  const [header, ...records] = parseCsv(csv, delimiter);
+  if (!header) return { ok: false as const, error: 'CSV is empty' };
+  if (records.length > MAX_IMPORT_ROWS) {
+    return { ok: false as const, error: `CSV has ${records.length} rows; the limit is ${MAX_IMPORT_ROWS}` };
+  }
+
+  const resolved = resolveColumns(header.fields, query.mapping);
+  if (!resolved.ok) return resolved;
+
+  const rows: ImportRowResult[] = [];
+  const valid: Array<{ row: number; values: ImportRowValues }> = [];
+
+  for (const { line: row, fields } of records) {
+    const raw: Record<string, string> = {};
+    for (const field of IMPORT_FIELDS) {
+      const index = resolved.columns[field];
+      const value = index === undefined ? '' : (fields[index] ?? '').trim();
+      if (value) raw[field] = value;
+    }
+
+    const parsed = importRowSchema.safeParse(raw);
+    if (parsed.success) valid.push({ row, values: parsed.data });
+    else {
+      rows.push({
+        row,
+        status: 'invalid',
+        errors: parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`),
+      });
+    }
+  }
+
+  const runRows = async (tx: Prisma.TransactionClient, batch: typeof valid) => {
+    const results: ImportRowResult[] = [];
+    for (const { row, values } of batch) results.push(await importRow(tx, ctx, projectId, row, values));
+    return results;
+  };
+
+  let stoppedAtRow: number | null = null;
+
+  if (query.dryRun) {
+    rows.push(...(await dryRunRows(projectId, valid)));
+  } else {
+    for (let start = 0; start < valid.length; start += BATCH_SIZE) {
+      const batch = valid.slice(start, start + BATCH_SIZE);
+      try {
+        rows.push(...(await prisma.$transaction((tx) => runRows(tx, batch), { timeout: BATCH_TIMEOUT_MS })));
+      } catch (err) {
+        console.error(`Contact import stopped at row ${batch[0].row}`, err);
+        stoppedAtRow = batch[0].row;
+        break;
+      }
+    }
+  }
+
+  rows.sort((a, b) => a.row - b.row);
+  const totals: Record<ImportRowStatus, number> = { created: 0, updated: 0, restored: 0, skipped: 0, invalid: 0 };
+  for (const r of rows) totals[r.status]++;
+
+  return {
+    ok: true as const,
+    dryRun: !!query.dryRun,
+    totals,
+    rows,
+    completed: stoppedAtRow === null,
+    stoppedAtRow,
+  };
+}
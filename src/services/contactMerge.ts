@@ -0,0 +1,303 @@
+import { z } from 'zod';
+import prisma from '../db/client';
+import { Contact, Prisma } from '../generated/prisma/client';
+import { AuditContext, recordAudit } from './auditLog';
+import { emitWebhookEvent } from './webhooks';
+
+// ---------- Duplicate contacts: candidate scan and merge ----------
+// findOrCreateContact only matches exact normalized email/phone, so one person can end up as
+// several contacts (e.g. one form sent with an email, another with a phone). The scan pairs up
+// contacts that look alike; merging moves everything linked to the duplicate onto the surviving
+// contact and deletes the duplicate.
+
+/** Newest active contacts compared by one scan. */
+const DUPLICATE_SCAN_LIMIT = 2000;
+/** Name groups larger than this are too common to be a useful signal (e.g. "Olena Kovalenko"). */
+const MAX_NAME_GROUP = 20;
+/** Phones compare by their last digits, so "+380501234567" and "050 123 45 67" match. */
+const PHONE_SUFFIX_DIGITS = 9;
+/** Mailboxes that ignore dots in the local part. */
+const DOTLESS_EMAIL_DOMAINS: Record<string, string> = { 'gmail.com': 'gmail.com', 'googlemail.com': 'gmail.com' };
+
+export const DUPLICATE_REASONS = ['email', 'phone', 'same_name', 'similar_name'] as const;
+export type DuplicateReason = (typeof DUPLICATE_REASONS)[number];
+
+const REASON_SCORES: Record<DuplicateReason, number> = { email: 3, phone: 3, same_name: 2, similar_name: 1 };
+
+export const listDuplicatesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+type ScannedContact = Pick<Contact, 'id' | 'name' | 'email' | 'phone' | 'emailNormalized' | 'phoneNormalized' | 'createdAt'>;
+
+/** "john.doe+crm@googlemail.com" → "johndoe@gmail.com"; other domains only lose the +tag. */
+function emailMatchKey(emailNormalized: string | null): string | null {
+  if (!emailNormalized) return null;
+  const at = emailNormalized.lastIndexOf('@');
+  if (at <= 0) return null;
+  let local = emailNormalized.slice(0, at).split('+')[0];
+  let domain = emailNormalized.slice(at + 1);
+  if (DOTLESS_EMAIL_DOMAINS[domain]) {
+    domain = DOTLESS_EMAIL_DOMAINS[domain];
+    local = local.replace(/\./g, '');
+  }
+  return local ? `${local}@${domain}` : null;
+}
+
+function phoneMatchKey(phoneNormalized: string | null): string | null {
+  const digits = (phoneNormalized ?? '').replace(/\D+/g, '');
+  return digits.length >= PHONE_SUFFIX_DIGITS ? digits.slice(-PHONE_SUFFIX_DIGITS) : null;
+}
+
+/**
+ * Case-, accent- and word-order-insensitive name ("Petrenko,  IVAN" → "ivan petrenko"). Null for
+ * names that carry no signal: single words, "Unknown" and names filled in from the email/phone.
+ */
+function nameMatchKey(contact: ScannedContact): string | null {
+  const name = contact.name.trim();
+  if (!name || name === contact.email || name === contact.phone || name.includes('@')) return null;
+  const words = name
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+  if (words.length < 2) return null;
+  return words.sort().join(' ');
+}
+
+/** Edit distance, giving up (returns max + 1) once it exceeds `max`. */
+function boundedLevenshtein(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, row[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string | null): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    if (k === null) continue;
+    const group = groups.get(k);
+    if (group) group.push(item);
+    else groups.set(k, [item]);
+  }
+  return groups;
+}
+
+/**
+ * Pairs of active contacts that are probably the same person, best matches first. Signals: the same
+ * email or phone written differently, the same name (ignoring case, accents and word order) or a
+ * name one typo away. Only the DUPLICATE_SCAN_LIMIT newest contacts are compared.
+ */
+export async function findDuplicateCandidates(projectId: number, limit = 50) {
+  const scanned: ScannedContact[] = await prisma.contact.findMany({
+    where: { projectId, deletedAt: null },
+    select: { id: true, name: true, email: true, phone: true, emailNormalized: true, phoneNormalized: true, createdAt: true },
+    orderBy: { id: 'desc' },
+    take: DUPLICATE_SCAN_LIMIT + 1,
+  });
+  const truncated = scanned.length > DUPLICATE_SCAN_LIMIT;
+  const contacts = scanned.slice(0, DUPLICATE_SCAN_LIMIT);
+
+  const pairs = new Map<string, { a: ScannedContact; b: ScannedContact; reasons: Set<DuplicateReason> }>();
+  const addPair = (x: ScannedContact, y: ScannedContact, reason: DuplicateReason) => {
+    const [a, b] = x.id < y.id ? [x, y] : [y, x];
+    const key = `${a.id}:${b.id}`;
+    const pair = pairs.get(key) ?? { a, b, reasons: new Set<DuplicateReason>() };
+    pair.reasons.add(reason);
+    pairs.set(key, pair);
+  };
+  const addGroupPairs = (group: ScannedContact[], reason: DuplicateReason) => {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) addPair(group[i], group[j], reason);
+    }
+  };
+
+  for (const group of groupBy(contacts, (c) => emailMatchKey(c.emailNormalized)).values()) {
+    addGroupPairs(group, 'email');
+  }
+  for (const group of groupBy(contacts, (c) => phoneMatchKey(c.phoneNormalized)).values()) {
+    addGroupPairs(group, 'phone');
+  }
+
+  const byName = groupBy(contacts, nameMatchKey);
+  for (const group of byName.values()) {
+    if (group.length <= MAX_NAME_GROUP) addGroupPairs(group, 'same_name');
+  }
+
+  // Typos: compare distinct name keys that start with the same two letters.
+  const nameKeys = [...byName.keys()];
+  for (const block of groupBy(nameKeys, (k) => k.slice(0, 2)).values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        if (boundedLevenshtein(block[i], block[j], 1) > 1) continue;
+        const left = byName.get(block[i])!;
+        const right = byName.get(block[j])!;
+        if (left.length * right.length > MAX_NAME_GROUP) continue;
+        for (const x of left) for (const y of right) addPair(x, y, 'similar_name');
+      }
+    }
+  }
+
+  const items = [...pairs.values()]
+    .map(({ a, b, reasons }) => {
+      // An exact name match makes a "similar" one redundant.
+      if (reasons.has('same_name')) reasons.delete('similar_name');
+      const list = DUPLICATE_REASONS.filter((r) => reasons.has(r));
+      return { contacts: [a, b], reasons: list, score: list.reduce((sum, r) => sum + REASON_SCORES[r], 0) };
+    })
+    .sort((x, y) => y.score - x.score || y.contacts[1].id - x.contacts[1].id)
+    .slice(0, limit);
+
+  return { items, scanned: contacts.length, truncated };
+}
+
+// ---------- Merge ----------
+
+const fieldChoice = z.enum(['survivor', 'duplicate']);
+
+export const mergeContactsSchema = z
+  .object({
+    survivorId: z.number().int().positive(),
+    duplicateId: z.number().int().positive(),
+    // Which contact each field is taken from. By default the survivor's value is kept and an empty
+    // one is filled from the duplicate; notes can also be combined ("both").
+    fields: z
+      .object({
+        name: fieldChoice.optional(),
+        email: fieldChoice.optional(),
+        phone: fieldChoice.optional(),
+        notes: z.enum(['survivor', 'duplicate', 'both']).optional(),
+      })
+      .optional(),
+  })
+  .refine((data) => data.survivorId !== data.duplicateId, {
+    message: 'survivorId and duplicateId must differ',
+    path: ['duplicateId'],
+  });
+
+export type MergeContactsInput = z.infer<typeof mergeContactsSchema>;
+
+function pick(
+  choice: 'survivor' | 'duplicate' | undefined,
+  survivorHas: boolean,
+  duplicateHas: boolean
+): 'survivor' | 'duplicate' {
+  if (choice) return choice;
+  return !survivorHas && duplicateHas ? 'duplicate' : 'survivor';
+}
+
+/** Field values of the merged contact (email and phone move with their normalized values). */
+function mergedFields(survivor: Contact, duplicate: Contact, fields: MergeContactsInput['fields'] = {}) {
+  const nameFrom = pick(fields.name, !!survivor.name && survivor.name !== 'Unknown', !!duplicate.name);
+  const emailFrom = pick(fields.email, !!survivor.emailNormalized, !!duplicate.emailNormalized);
+  const phoneFrom = pick(fields.phone, !!survivor.phoneNormalized, !!duplicate.phoneNormalized);
+  const source = { survivor, duplicate };
+
+  let notes: string | null;
+  if (fields.notes === 'both') {
+    notes = [survivor.notes, duplicate.notes].filter(Boolean).join('\n\n').slice(0, 2000) || null;
+  } else {
+    notes = source[pick(fields.notes, !!survivor.notes, !!duplicate.notes)].notes;
+  }
+
+  return {
+    name: source[nameFrom].name,
+    email: source[emailFrom].email,
+    emailNormalized: source[emailFrom].emailNormalized,
+    phone: source[phoneFrom].phone,
+    phoneNormalized: source[phoneFrom].phoneNormalized,
+    notes,
+  };
+}
+
+/**
+ * Merges `duplicateId` into `survivorId`: cases, transactions (trashed ones too), submissions and
+ * bookings are moved to the survivor, the chosen fields are copied and the duplicate is deleted
+ * for good, which frees its email/phone for the survivor. Both contacts must be active.
+ * Run inside a transaction; every step is recorded in the audit log.
+ */
+export async function mergeContacts(
+  tx: Prisma.TransactionClient,
+  ctx: AuditContext,
+  projectId: number,
+  input: MergeContactsInput
+) {
+  const [survivor, duplicate] = await Promise.all([
+    tx.contact.findFirst({ where: { id: input.survivorId, projectId, deletedAt: null } }),
+    tx.contact.findFirst({ where: { id: input.duplicateId, projectId, deletedAt: null } }),
+  ]);
+  if (!survivor || !duplicate) return { ok: false as const, error: 'Contact not found' };
+
+  const moved = { contactId: duplicate.id, projectId };
+  const [cases, transactions] = await Promise.all([
+    tx.case.findMany({ where: moved, select: { id: true, deletedAt: true } }),
+    tx.transaction.findMany({ where: moved, select: { id: true } }),
+  ]);
+
+  await tx.case.updateMany({ where: moved, data: { contactId: survivor.id } });
+  await tx.transaction.updateMany({ where: moved, data: { contactId: survivor.id } });
+  const submissions = await tx.submission.updateMany({ where: moved, data: { contactId: survivor.id } });
+  const bookings = await tx.booking.updateMany({ where: moved, data: { contactId: survivor.id } });
+
+  // Delete first: the unique (projectId, email/phone) values must be free before the survivor takes them.
+  await tx.contact.delete({ where: { id_projectId: { id: duplicate.id, projectId } } });
+  const merged = await tx.contact.update({
+    where: { id_projectId: { id: survivor.id, projectId } },
+    data: mergedFields(survivor, duplicate, input.fields),
+  });
+
+  await recordAudit(tx, ctx, {
+    projectId,
+    entityType: 'contact',
+    entityId: survivor.id,
+    action: 'merge',
+    before: survivor,
+    after: { ...merged, mergedContactId: duplicate.id },
+  });
+  await recordAudit(tx, ctx, {
+    projectId,
+    entityType: 'contact',
+    entityId: duplicate.id,
+    action: 'merge',
+    before: duplicate,
+    after: { mergedIntoContactId: survivor.id },
+  });
+
+  const reassigned = { before: { contactId: duplicate.id }, after: { contactId: survivor.id } };
+  for (const c of cases) {
+    await recordAudit(tx, ctx, { projectId, entityType: 'case', entityId: c.id, action: 'update', ...reassigned });
+    if (!c.deletedAt) {
+      const updated = await tx.case.findUnique({ where: { id: c.id }, include: { contact: true } });
+      await emitWebhookEvent(tx, projectId, 'case.updated', {
+        case: updated,
+        changes: { contactId: { from: duplicate.id, to: survivor.id } },
+      });
+    }
+  }
+  for (const t of transactions) {
+    await recordAudit(tx, ctx, { projectId, entityType: 'transaction', entityId: t.id, action: 'update', ...reassigned });
+  }
+
+  return {
+    ok: true as const,
+    contact: merged,
+    moved: {
+      cases: cases.length,
+      transactions: transactions.length,
+      submissions: submissions.count,
+      bookings: bookings.count,
+    },
+  };
+}
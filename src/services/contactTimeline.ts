@@ -0,0 +1,170 @@
+import prisma from '../db/client';
+import { Prisma } from '../generated/prisma/client';
+
+// ---------- Contact detail: activity timeline and lifetime totals ----------
+// Merges everything linked to a contact (cases, their tasks and internal notes, transactions,
+// form submissions, emails sent about its cases) into one list sorted by time. Trashed cases and
+// transactions are left out. Sources the caller may not read are skipped (see TimelineAccess).
+
+/** Per source: how many of the newest rows are loaded into the timeline. */
+const TIMELINE_SOURCE_LIMIT = 500;
+
+export type TimelineAccess = {
+  cases: boolean;
+  tasks: boolean;
+  transactions: boolean;
+  submissions: boolean;
+  emails: boolean;
+};
+
+export type TimelineItemType = 'case' | 'note' | 'task' | 'transaction' | 'submission' | 'email';
+
+export type TimelineItem = {
+  type: TimelineItemType;
+  at: Date;
+  id: number;
+  caseId: number | null;
+  data: Record<string, unknown>;
+};
+
+type ContactTotals = {
+  cases: number | null;
+  transactions: number | null;
+  /** Sum of income transactions per currency, e.g. { "UAH": "1500" }. */
+  donated: Record<string, string> | null;
+  firstInteractionAt: Date | null;
+  lastInteractionAt: Date | null;
+};
+
+export async function getContactDetail(
+  projectId: number,
+  contactId: number,
+  access: TimelineAccess,
+  order: 'asc' | 'desc' = 'desc'
+) {
+  const contact = await prisma.contact.findFirst({ where: { id: contactId, projectId, deletedAt: null } });
+  if (!contact) return null;
+
+  const activeCase = { contactId, projectId, deletedAt: null };
+  const take = TIMELINE_SOURCE_LIMIT;
+
+  const [cases, tasks, transactions, submissions, emails] = await Promise.all([
+    access.cases
+      ? prisma.case.findMany({ where: activeCase, orderBy: { id: 'desc' }, take })
+      : Promise.resolve([]),
+    access.tasks
+      ? prisma.task.findMany({ where: { case: activeCase }, orderBy: { id: 'desc' }, take })
+      : Promise.resolve([]),
+    access.transactions
+      ? prisma.transaction.findMany({ where: { contactId, projectId, deletedAt: null }, orderBy: { id: 'desc' }, take })
+      : Promise.resolve([]),
+    access.submissions
+      ? prisma.submission.findMany({
+          where: { contactId, projectId },
+          include: { publicForm: { select: { id: true, formKey: true, title: true } } },
+          orderBy: { id: 'desc' },
+          take,
+        })
+      : Promise.resolve([]),
+    access.emails
+      ? prisma.notification.findMany({
+          where: { projectId, status: 'sent', case: activeCase },
+          select: { id: true, caseId: true, kind: true, to: true, subject: true, sentAt: true, createdAt: true },
+          orderBy: { id: 'desc' },
+          take,
+        })
+      : Promise.resolve([]),
+  ]);
+
+  const timeline: TimelineItem[] = [];
+
+  for (const c of cases) {
+    const { internalNote, ...rest } = c;
+    timeline.push({ type: 'case', at: c.createdAt, id: c.id, caseId: c.id, data: rest });
+    // Internal notes are a single field per case; its last edit is the best timestamp available.
+    if (internalNote) {
+      timeline.push({ type: 'note', at: c.updatedAt, id: c.id, caseId: c.id, data: { text: internalNote } });
+    }
+  }
+  for (const t of tasks) {
+    timeline.push({ type: 'task', at: t.createdAt, id: t.id, caseId: t.caseId, data: t });
+  }
+  for (const t of transactions) {
+    timeline.push({ type: 'transaction', at: t.happenedAt, id: t.id, caseId: t.caseId, data: t });
+  }
+  for (const s of submissions) {
+    timeline.push({ type: 'submission', at: s.createdAt, id: s.id, caseId: s.caseId, data: s });
+  }
+  for (const e of emails) {
+    timeline.push({
+      type: 'email',
+      at: e.sentAt ?? e.createdAt,
+      id: e.id,
+      caseId: e.caseId,
+      // "confirmation" emails went to the contact, the other kinds to project staff.
+      data: { ...e, recipient: e.kind === 'confirmation' ? 'contact' : 'staff' },
+    });
+  }
+
+  const sign = order === 'asc' ? 1 : -1;
+  timeline.sort((a, b) => sign * (a.at.getTime() - b.at.getTime()) || sign * (a.id - b.id));
+
+  const totals = await getContactTotals(projectId, contactId, access);
+
+  return { contact, totals, timeline };
+}
+
+/** Lifetime totals, computed in the database (not limited by TIMELINE_SOURCE_LIMIT). */
+async function getContactTotals(projectId: number, contactId: number, access: TimelineAccess): Promise<ContactTotals> {
+  const activeCase = { contactId, projectId, deletedAt: null };
+  const activeTransaction = { contactId, projectId, deletedAt: null };
+
+  const [caseStats, transactionCount, donations, transactionDates, submissionDates] = await Promise.all([
+    access.cases
+      ? prisma.case.aggregate({ where: activeCase, _count: true, _min: { createdAt: true }, _max: { updatedAt: true } })
+      : null,
+    access.transactions ? prisma.transaction.count({ where: activeTransaction }) : null,
+    access.transactions
+      ? prisma.transaction.groupBy({
+          by: ['currency'],
+          where: { ...activeTransaction, type: 'income' },
+          _sum: { amount: true },
+        })
+      : null,
+    access.transactions
+      ? prisma.transaction.aggregate({ where: activeTransaction, _min: { happenedAt: true }, _max: { happenedAt: true } })
+      : null,
+    access.submissions
+      ? prisma.submission.aggregate({
+          where: { contactId, projectId },
+          _min: { createdAt: true },
+          _max: { createdAt: true },
+        })
+      : null,
+  ]);
+
+  const donated = donations
+    ? Object.fromEntries(donations.map((d) => [d.currency, (d._sum.amount ?? new Prisma.Decimal(0)).toString()]))
+    : null;
+
+  const firsts = [caseStats?._min.createdAt, transactionDates?._min.happenedAt, submissionDates?._min.createdAt];
+  const lasts = [caseStats?._max.updatedAt, transactionDates?._max.happenedAt, submissionDates?._max.createdAt];
+
+  return {
+    cases: caseStats ? caseStats._count : null,
+    transactions: transactionCount,
+    donated,
+    firstInteractionAt: earliest(firsts),
+    lastInteractionAt: latest(lasts),
+  };
+}
+
+function earliest(dates: Array<Date | null | undefined>): Date | null {
+  const valid = dates.filter((d): d is Date => d instanceof Date);
+  return valid.length ? new Date(Math.min(...valid.map((d) => d.getTime()))) : null;
+}
+
+function latest(dates: Array<Date | null | undefined>): Date | null {
+  const valid = dates.filter((d): d is Date => d instanceof Date);
+  return valid.length ? new Date(Math.max(...valid.map((d) => d.getTime()))) : null;
+}
@@ -1,7 +1,8 @@
+import { z } from 'zod';
 import prisma from '../db/client';
 import { Prisma, PrismaClient } from '../generated/prisma/client';
-import { normalizeEmailOptional } from '../utils/normalizeEmail';
-import { normalizePhoneOptional } from '../utils/normalizePhone';
+import { normalizeEmail, normalizeEmailOptional } from '../utils/normalizeEmail';
+import { normalizePhone, normalizePhoneOptional } from '../utils/normalizePhone';
 
 type DbClient = PrismaClient | Prisma.TransactionClient;
 
@@ -26,6 +27,47 @@ export type FindOrCreateContactInput = {
   notes?: string | null;
 };
 
+export type ContactMatchFields = {
+  name: string;
+  email: string | null;
+  phone: string | null;
+  emailNormalized: string | null;
+  phoneNormalized: string | null;
+  notes: string | null;
+};
+
+/**
+ * Fields findOrCreateContact fills in on a matched contact: only the empty ones, so existing
+ * richer data is never overwritten (a placeholder "Unknown" name counts as empty).
+ */
+export function contactBackfill(
+  contact: ContactMatchFields,
+  input: FindOrCreateContactInput
+): Partial<ContactMatchFields> {
+  const rawName = (input.name ?? undefined) ? String(input.name).trim() : undefined;
+  const emailNorm = normalizeEmailOptional(input.email);
+  const phoneNorm = normalizePhoneOptional(input.phone);
+
+  const rawEmail = input.email != null ? String(input.email).trim() : undefined;
+  const rawPhone = input.phone != null ? String(input.phone).trim() : undefined;
+  const desiredNotes = input.notes ?? undefined;
+
+  const data: Partial<ContactMatchFields> = {};
+
+  if (rawName && (!contact.name || contact.name === 'Unknown')) data.name = rawName.slice(0, 255);
+  if (!contact.name) data.name = computeContactName(rawName, rawEmail, rawPhone);
+
+  if (rawEmail && !contact.email) data.email = rawEmail.slice(0, 255);
+  if (rawPhone && !contact.phone) data.phone = rawPhone.slice(0, 50);
+
+  if (emailNorm && !contact.emailNormalized) data.emailNormalized = emailNorm;
+  if (phoneNorm && !contact.phoneNormalized) data.phoneNormalized = phoneNorm;
+
+  if (desiredNotes && !contact.notes) data.notes = String(desiredNotes).slice(0, 2000);
+
+  return data;
+}
+
 /**
  * Find or create a Contact within a project using normalized email/phone.
  *
@@ -33,13 +75,27 @@ export type FindOrCreateContactInput = {
  *  1) emailNormalized
  *  2) phoneNormalized
  *
- * If a contact is found, missing raw/normalized fields are backfilled.
+ * If a contact is found, missing raw/normalized fields are backfilled; a contact in trash is
+ * restored (its email/phone stay reserved until it is purged), which callers must audit.
  * Safe for concurrent requests: on unique violations it re-fetches the contact.
  */
 export async function findOrCreateContact(
   projectId: number,
   input: FindOrCreateContactInput,
   db: DbClient = prisma
+) {
+  const { contact } = await findOrCreateContactWithStatus(projectId, input, db);
+  return contact;
+}
+
+/**
+ * Same as findOrCreateContact, and reports whether a new contact was created, an existing one
+ * updated (fields backfilled) or restored from trash (`before` is the matched contact as it was).
+ */
+export async function findOrCreateContactWithStatus(
+  projectId: number,
+  input: FindOrCreateContactInput,
+  db: DbClient = prisma
 ) {
   const rawName = (input.name ?? undefined) ? String(input.name).trim() : undefined;
   const emailNorm = normalizeEmailOptional(input.email);
@@ -62,33 +118,25 @@ export async function findOrCreateContact(
   const desiredNotes = input.notes ?? undefined;
 
   if (contact) {
-    // Backfill missing fields, but avoid overwriting existing richer data.
-    const data: any = {};
-
-    if (rawName && (!contact.name || contact.name === 'Unknown')) data.name = rawName.slice(0, 255);
-    if (!contact.name) data.name = desiredName;
-
-    if (rawEmail && !contact.email) data.email = rawEmail.slice(0, 255);
-    if (rawPhone && !contact.phone) data.phone = rawPhone.slice(0, 50);
-
-    if (emailNorm && !contact.emailNormalized) data.emailNormalized = emailNorm;
-    if (phoneNorm && !contact.phoneNormalized) data.phoneNormalized = phoneNorm;
+    const data: Prisma.ContactUpdateInput = contactBackfill(contact, input);
+    const before = contact;
+    const updated = Object.keys(data).length > 0;
+    const restored = contact.deletedAt !== null;
+    if (restored) data.deletedAt = null;
 
-    if (desiredNotes && !contact.notes) data.notes = String(desiredNotes).slice(0, 2000);
-
-    if (Object.keys(data).length) {
+    if (updated || restored) {
       contact = await db.contact.update({
         where: { id_projectId: { id: contact.id, projectId } },
         data,
       });
     }
 
-    return contact;
+    return { contact, created: false, updated, restored, before };
   }
 
   // Create new contact
   try {
-    return await db.contact.create({
+    const created = await db.contact.create({
       data: {
         projectId,
         name: desiredName,
@@ -99,6 +147,7 @@ export async function findOrCreateContact(
         notes: desiredNotes ? String(desiredNotes).slice(0, 2000) : null,
       },
     });
+    return { contact: created, created: true, updated: false, restored: false, before: null };
   } catch (err) {
     // If another request created the same contact concurrently, fetch it and continue.
     if (isUniqueError(err) && (emailNorm || phoneNorm)) {
@@ -106,15 +155,186 @@ export async function findOrCreateContact(
         emailNorm
           ? await db.contact.findFirst({ where: { projectId, emailNormalized: emailNorm } })
           : null;
-      if (existing) return existing;
+      if (existing) return { contact: existing, created: false, updated: false, restored: false, before: existing };
 
       const existingByPhone =
         phoneNorm
           ? await db.contact.findFirst({ where: { projectId, phoneNormalized: phoneNorm } })
           : null;
-      if (existingByPhone) return existingByPhone;
+      if (existingByPhone) {
+        return { contact: existingByPhone, created: false, updated: false, restored: false, before: existingByPhone };
+      }
     }
 
     throw err;
   }
 }
+
+// ---------- Contact list: search, filters, sorting, cursor pagination ----------
+
+/** Case statuses that count as closed for the `hasOpenCases` filter (same as the admin UI). */
+export const CLOSED_CASE_STATUSES = ['done'];
+
+export const CONTACT_SORT_FIELDS = ['createdAt', 'updatedAt', 'name'] as const;
+type ContactSortField = (typeof CONTACT_SORT_FIELDS)[number];
+
+/** Search text that looks like a phone number ("+38 050 123-45-67"), compared by normalized value. */
+const PHONE_LIKE_RE = /^\+?[\d\s().-]{5,}$/;
+
+export const booleanQueryParam = z.enum(['true', 'false']).transform((v) => v === 'true');
+
+/** A date without a time ("2024-05-31"); as an upper bound it includes that whole day (UTC). */
+const DATE_ONLY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Upper bound of a date range: `lt` the next day for a plain date, otherwise `lte` the exact time. */
+const dateToParam = z
+  .string()
+  .trim()
+  .min(1)
+  .transform((raw, ctx) => {
+    const date = new Date(raw);
+    if (Number.isNaN(date.getTime())) {
+      ctx.addIssue({ code: z.ZodIssueCode.invalid_date, message: 'Invalid date' });
+      return z.NEVER;
+    }
+    return DATE_ONLY_RE.test(raw) ? { lt: new Date(date.getTime() + 24 * 60 * 60 * 1000) } : { lte: date };
+  });
+
+/** Filters shared by the contact list and export. */
+export const contactFiltersSchema = z.object({
+  // Free text: substring of name/email/phone, or an exact normalized email/phone.
+  q: z.string().trim().min(1).max(255).optional(),
+  email: z.string().trim().min(1).max(255).optional(),
+  phone: z.string().trim().min(1).max(50).optional(),
+  dateFrom: z.coerce.date().optional(),
+  dateTo: dateToParam.optional(),
+  // Contacts that submitted this public form (a submission or a case from it).
+  publicFormId: z.coerce.number().int().positive().optional(),
+  hasOpenCases: booleanQueryParam.optional(),
+});
+
+export type ContactFilters = z.infer<typeof contactFiltersSchema>;
+
+export const contactListQuerySchema = contactFiltersSchema.extend({
+  sort: z.enum(CONTACT_SORT_FIELDS).optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  // Opaque value of `nextCursor` from the previous page.
+  cursor: z.string().max(500).optional(),
+});
+
+export type ContactListQuery = z.infer<typeof contactListQuerySchema>;
+
+/** Where clause for active (not trashed) contacts of a project matching the filters. */
+export function buildContactWhere(projectId: number, filters: ContactFilters): Prisma.ContactWhereInput {
+  const and: Prisma.ContactWhereInput[] = [{ projectId, deletedAt: null }];
+
+  if (filters.q) {
+    const or: Prisma.ContactWhereInput[] = [
+      { name: { contains: filters.q, mode: 'insensitive' } },
+      { email: { contains: filters.q, mode: 'insensitive' } },
+      { phone: { contains: filters.q } },
+    ];
+    if (filters.q.includes('@')) {
+      or.push({ emailNormalized: normalizeEmail(filters.q) });
+    }
+    if (PHONE_LIKE_RE.test(filters.q)) {
+      or.push({ phoneNormalized: normalizePhone(filters.q) });
+    }
+    and.push({ OR: or });
+  }
+
+  // Exact lookups use the normalized columns; a value that does not normalize matches nothing.
+  if (filters.email) {
+    and.push({ emailNormalized: normalizeEmailOptional(filters.email) ?? '' });
+  }
+  if (filters.phone) {
+    and.push({ phoneNormalized: normalizePhoneOptional(filters.phone) ?? '' });
+  }
+
+  if (filters.dateFrom || filters.dateTo) {
+    and.push({
+      createdAt: {
+        ...(filters.dateFrom ? { gte: filters.dateFrom } : {}),
+        ...(filters.dateTo ?? {}),
+      },
+    });
+  }
+
+  if (filters.publicFormId) {
+    const publicFormId = filters.publicFormId;
+    and.push({
+      OR: [{ submissions: { some: { publicFormId } } }, { cases: { some: { publicFormId } } }],
+    });
+  }
+
+  if (filters.hasOpenCases !== undefined) {
+    const openCase: Prisma.CaseWhereInput = { deletedAt: null, status: { notIn: CLOSED_CASE_STATUSES } };
+    and.push(filters.hasOpenCases ? { cases: { some: openCase } } : { cases: { none: openCase } });
+  }
+
+  return { AND: and };
+}
+
+type ContactCursor = { v: string; id: number };
+
+function encodeContactCursor(sort: ContactSortField, contact: { id: number } & Record<ContactSortField, unknown>) {
+  const value = contact[sort];
+  const cursor: ContactCursor = { v: value instanceof Date ? value.toISOString() : String(value), id: contact.id };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/** Sort value and id of the cursor's row, or null when the cursor is malformed for this sort. */
+function decodeContactCursor(raw: string, sort: ContactSortField): { value: string | Date; id: number } | null {
+  let parsed: ContactCursor;
+  try {
+    parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+  if (typeof parsed?.v !== 'string' || !Number.isInteger(parsed?.id)) return null;
+  if (sort === 'name') return { value: parsed.v, id: parsed.id };
+
+  const value = new Date(parsed.v);
+  return Number.isNaN(value.getTime()) ? null : { value, id: parsed.id };
+}
+
+/**
+ * One page of contacts, ordered by `sort` (ties broken by id) with keyset pagination: the cursor
+ * holds the sort value and id of the last row. `total` counts all matches, ignoring the cursor.
+ */
+export async function listContactsPage(projectId: number, query: ContactListQuery, db: DbClient = prisma) {
+  const sort: ContactSortField = query.sort ?? 'createdAt';
+  const order = query.order ?? (sort === 'name' ? 'asc' : 'desc');
+  const limit = query.limit ?? 50;
+  const where = buildContactWhere(projectId, query);
+
+  let pageWhere: Prisma.ContactWhereInput = where;
+  if (query.cursor) {
+    const cursor = decodeContactCursor(query.cursor, sort);
+    if (!cursor) return { ok: false as const, error: 'Invalid cursor' };
+    const op = order === 'asc' ? 'gt' : 'lt';
+    pageWhere = {
+      AND: [
+        where,
+        { OR: [{ [sort]: { [op]: cursor.value } }, { [sort]: cursor.value, id: { [op]: cursor.id } }] },
+      ],
+    };
+  }
+
+  const [items, total] = await Promise.all([
+    db.contact.findMany({
+      where: pageWhere,
+      orderBy: [{ [sort]: order }, { id: order }],
+      take: limit,
+    }),
+    db.contact.count({ where }),
+  ]);
+
+  return {
+    ok: true as const,
+    items,
+    nextCursor: items.length === limit ? encodeContactCursor(sort, items[items.length - 1]) : null,
+    total,
+  };
+}
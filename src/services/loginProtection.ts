@@ -0,0 +1,210 @@
+import prisma from '../db/client';
+import { Prisma } from '../generated/prisma/client';
+import type { SessionMeta } from './sessions';
+import { sendAccountLockedNotice } from './userTokens';
+
+// ---------- Brute-force protection for sign-in ----------
+// Failed attempts are counted per account (normalized email) and per client IP (LoginThrottle).
+// After a few failures every further attempt has to wait progressively longer (429 + Retry-After);
+// at the threshold the key is locked for LOGIN_LOCKOUT_MINUTES. Counters decay after a quiet
+// period and the account counter resets on a successful sign-in. Locking an existing account
+// emails its owner. Failed attempts are logged in LoginAttempt (visible to project owners).
+
+type ThrottlePolicy = { delayAfter: number; lockAfter: number };
+
+const ACCOUNT_POLICY: ThrottlePolicy = {
+  delayAfter: 3,
+  lockAfter: Number(process.env.LOGIN_LOCKOUT_THRESHOLD || 10),
+};
+// Higher limits: several people may share an office/NAT address.
+const IP_POLICY: ThrottlePolicy = {
+  delayAfter: 10,
+  lockAfter: Number(process.env.LOGIN_IP_LOCKOUT_THRESHOLD || 50),
+};
+const LOCKOUT_MS = Number(process.env.LOGIN_LOCKOUT_MINUTES || 15) * 60 * 1000;
+/** Failures older than this (since the last one) no longer count. */
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+const MAX_DELAY_MS = 60 * 1000;
+
+export type LoginEndpoint = 'login' | 'login_2fa' | 'accept_invite';
+export type LoginFailureReason = 'invalid_password' | 'unknown_user' | 'invalid_2fa' | 'invalid_invite';
+
+export type LoginAttemptContext = {
+  endpoint: LoginEndpoint;
+  /** Account the attempt targets; omitted when there is none (e.g. invite token guessing). */
+  emailNormalized?: string | null;
+  meta: SessionMeta;
+};
+
+export type LoginGate =
+  | { allowed: true }
+  | { allowed: false; reason: 'throttled' | 'locked'; retryAfterSeconds: number; error: string };
+
+type ThrottleRow = { key: string; failures: number; lastFailureAt: Date | null; lockedUntil: Date | null };
+
+function accountKey(emailNormalized: string): string {
+  return `account:${emailNormalized}`;
+}
+
+function ipKey(ip: string): string {
+  return `ip:${ip}`;
+}
+
+function throttleKeys(ctx: LoginAttemptContext): Array<[string, ThrottlePolicy]> {
+  const keys: Array<[string, ThrottlePolicy]> = [];
+  if (ctx.emailNormalized) keys.push([accountKey(ctx.emailNormalized), ACCOUNT_POLICY]);
+  if (ctx.meta.ip) keys.push([ipKey(ctx.meta.ip), IP_POLICY]);
+  return keys;
+}
+
+/** 1s after `delayAfter` failures, doubling with each further failure, capped at MAX_DELAY_MS. */
+function delayFor(failures: number, policy: ThrottlePolicy): number {
+  if (failures < policy.delayAfter) return 0;
+  return Math.min(1000 * 2 ** (failures - policy.delayAfter), MAX_DELAY_MS);
+}
+
+function isStale(row: ThrottleRow, now: number): boolean {
+  return !row.lastFailureAt || now - row.lastFailureAt.getTime() > FAILURE_WINDOW_MS;
+}
+
+/** Milliseconds the key must still wait, and why; null when an attempt is allowed. */
+function evaluateThrottle(row: ThrottleRow, policy: ThrottlePolicy, now: number) {
+  if (row.lockedUntil && row.lockedUntil.getTime() > now) {
+    return { reason: 'locked' as const, waitMs: row.lockedUntil.getTime() - now };
+  }
+  if (isStale(row, now)) return null;
+
+  const waitMs = row.lastFailureAt!.getTime() + delayFor(row.failures, policy) - now;
+  if (waitMs > 0) return { reason: 'throttled' as const, waitMs };
+  // Budget used up by attempts still in flight: they either lock the key or hand it back.
+  return row.failures >= policy.lockAfter ? { reason: 'throttled' as const, waitMs: 1000 } : null;
+}
+
+async function resolveUserId(emailNormalized: string | null | undefined): Promise<number | null> {
+  if (!emailNormalized) return null;
+  const user = await prisma.user.findUnique({ where: { emailNormalized }, select: { id: true } });
+  return user?.id ?? null;
+}
+
+async function logAttempt(ctx: LoginAttemptContext, reason: string, userId: number | null): Promise<void> {
+  await prisma.loginAttempt.create({
+    data: {
+      userId,
+      emailNormalized: ctx.emailNormalized ?? null,
+      endpoint: ctx.endpoint,
+      reason,
+      ip: ctx.meta.ip,
+      userAgent: ctx.meta.userAgent,
+    },
+  });
+}
+
+/**
+ * Call before checking credentials. Takes one attempt from every key's budget up front (rows
+ * locked FOR UPDATE), so a parallel burst cannot have more guesses evaluated than `lockAfter`
+ * allows: the reservation counts as a failure until recordLoginFailure keeps it or
+ * releaseLoginAttempt hands it back. A blocked attempt is logged but reserves nothing, so
+ * waiting out the delay is always enough.
+ */
+export async function reserveLoginAttempt(ctx: LoginAttemptContext): Promise<LoginGate> {
+  const keys = throttleKeys(ctx).sort(([a], [b]) => (a < b ? -1 : 1));
+  if (keys.length === 0) return { allowed: true };
+
+  const blocked = await prisma.$transaction(async (tx) => {
+    await tx.loginThrottle.createMany({ data: keys.map(([key]) => ({ key })), skipDuplicates: true });
+    const rows = await tx.$queryRaw<ThrottleRow[]>`
+      SELECT "key", "failures", "lastFailureAt", "lockedUntil" FROM "LoginThrottle"
+      WHERE "key" IN (${Prisma.join(keys.map(([key]) => key))})
+      ORDER BY "key"
+      FOR UPDATE
+    `;
+    const now = Date.now();
+
+    let verdict: { reason: 'throttled' | 'locked'; waitMs: number } | null = null;
+    for (const [key, policy] of keys) {
+      const row = rows.find((r) => r.key === key);
+      const keyVerdict = row ? evaluateThrottle(row, policy, now) : null;
+      if (keyVerdict && (!verdict || keyVerdict.waitMs > verdict.waitMs)) verdict = keyVerdict;
+    }
+    if (verdict) return verdict;
+
+    for (const row of rows) {
+      await tx.loginThrottle.update({
+        where: { key: row.key },
+        data: { failures: isStale(row, now) ? 1 : row.failures + 1, lastFailureAt: new Date(now) },
+      });
+    }
+    return null;
+  });
+  if (!blocked) return { allowed: true };
+
+  await logAttempt(ctx, blocked.reason, await resolveUserId(ctx.emailNormalized));
+
+  const retryAfterSeconds = Math.ceil(blocked.waitMs / 1000);
+  return {
+    allowed: false,
+    reason: blocked.reason,
+    retryAfterSeconds,
+    error:
+      blocked.reason === 'locked'
+        ? 'Too many failed sign-in attempts; sign-in is temporarily locked'
+        : `Too many failed sign-in attempts; retry in ${retryAfterSeconds}s`,
+  };
+}
+
+async function releaseKeys(keys: string[]): Promise<void> {
+  if (keys.length === 0) return;
+  await prisma.loginThrottle.updateMany({
+    where: { key: { in: keys }, failures: { gt: 0 } },
+    data: { failures: { decrement: 1 } },
+  });
+}
+
+/**
+ * Locks a key whose reserved attempts reached `lockAfter`; returns the lock expiry. A single
+ * conditional UPDATE, so when a burst fails at once only one caller sees the lock.
+ */
+async function lockIfExhausted(key: string, policy: ThrottlePolicy, now: Date): Promise<Date | null> {
+  const lockedUntil = new Date(now.getTime() + LOCKOUT_MS);
+  const locked = await prisma.loginThrottle.updateMany({
+    where: { key, failures: { gte: policy.lockAfter } },
+    data: { failures: 0, lockedUntil },
+  });
+  return locked.count > 0 ? lockedUntil : null;
+}
+
+/** Logs a failed attempt, keeping its reservation; emails the account owner when it gets locked. */
+export async function recordLoginFailure(ctx: LoginAttemptContext, reason: LoginFailureReason): Promise<void> {
+  const now = new Date();
+  const userId = await resolveUserId(ctx.emailNormalized);
+  await logAttempt(ctx, reason, userId);
+
+  // A wrong invite token says nothing about the account behind the email; count it per IP only.
+  let keys = throttleKeys(ctx);
+  if (reason === 'invalid_invite' && ctx.emailNormalized) {
+    await releaseKeys([accountKey(ctx.emailNormalized)]);
+    keys = throttleKeys({ ...ctx, emailNormalized: null });
+  }
+
+  for (const [key, policy] of keys) {
+    const lockedUntil = await lockIfExhausted(key, policy, now);
+    if (!lockedUntil) continue;
+
+    if (policy === ACCOUNT_POLICY && userId) {
+      const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+      if (user) sendAccountLockedNotice(user.email, { lockedUntil, ip: ctx.meta.ip });
+    } else {
+      console.warn(`Sign-in locked for ${key} until ${lockedUntil.toISOString()}`);
+    }
+  }
+}
+
+/** The credentials checked out (2FA may still follow): hands the reserved attempt back. */
+export async function releaseLoginAttempt(ctx: LoginAttemptContext): Promise<void> {
+  await releaseKeys(throttleKeys(ctx).map(([key]) => key));
+}
+
+/** Successful sign-in (or password reset) clears the account's counter and lock. */
+export async function recordLoginSuccess(emailNormalized: string): Promise<void> {
+  await prisma.loginThrottle.deleteMany({ where: { key: accountKey(emailNormalized) } });
+}
@@ -1,15 +1,17 @@
 import 'dotenv/config';
 import nodemailer from 'nodemailer';
 
-export type NotificationKind = 'lead' | 'donation' | 'booking' | 'feedback';
+export type NotificationKind = 'lead' | 'donation' | 'booking' | 'feedback' | 'custom' | 'confirmation' | 'account';
 
 export interface NotificationPayload {
   kind: NotificationKind;
-  projectName: string;
-  projectSlug: string;
+  /** Empty for account emails (password reset, email change), which are not project-scoped. */
+  projectName?: string;
+  projectSlug?: string;
   to: string[];
   subject: string;
   text: string;
+  html?: string | null;
 }
 
 let transporter: nodemailer.Transporter | null = null;
@@ -17,6 +19,7 @@ let mailerReady = false;
 let mailerError: string | null = null;
 
 let mailerReadyPromise: Promise<boolean> | null = null;
+let smtpConfigured = true;
 
 function withTimeout<T>(p: Promise<T>, ms: number, fallback: T): Promise<T> {
   return new Promise((resolve) => {
@@ -58,6 +61,7 @@ function ensureTransporter(): Promise<boolean> {
     mailerError =
       'SMTP is not fully configured (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD, SMTP_FROM). Notifications are disabled.';
     console.warn(mailerError);
+    smtpConfigured = false;
     mailerReadyPromise = Promise.resolve(false);
     return mailerReadyPromise;
   }
@@ -80,6 +84,8 @@ function ensureTransporter(): Promise<boolean> {
         mailerError = `Failed to verify SMTP transporter: ${err.message || String(err)}`;
         console.error(mailerError);
         transporter = null;
+        // Allow the next delivery attempt to verify again (SMTP may be temporarily down).
+        mailerReadyPromise = null;
         resolve(false);
         return;
       }
@@ -92,23 +98,32 @@ function ensureTransporter(): Promise<boolean> {
   return mailerReadyPromise;
 }
 
-export async function sendNotificationMail(payload: NotificationPayload): Promise<void> {
+export type MailDeliveryResult =
+  | { ok: true }
+  | { ok: false; error: string; retryable: boolean };
+
+/**
+ * Sends one email and reports the outcome (never throws).
+ * Called by the notification outbox worker; routes enqueue notifications instead of sending inline.
+ */
+export async function deliverNotificationMail(payload: NotificationPayload): Promise<MailDeliveryResult> {
+  if (!payload.to || payload.to.length === 0) {
+    return { ok: false, error: 'No recipients', retryable: false };
+  }
+
   // Wait a short time for SMTP verify on the *first* send attempt.
   const ready = await withTimeout(ensureTransporter(), 3000, false);
 
   if (!ready || !transporter || !mailerReady) {
-    if (mailerError) {
-      console.warn('Notifications are disabled due to SMTP error:', mailerError);
-    } else {
-      console.warn('Notifications are disabled (no SMTP config)');
+    // Never the body: it may carry a confirmation link, and account emails carry reset/confirm tokens.
+    if (payload.kind !== 'account') {
+      console.log('[Notification mock]', { kind: payload.kind, to: payload.to, subject: payload.subject });
     }
-    console.log('[Notification mock]', payload);
-    return;
-  }
-
-  if (!payload.to || payload.to.length === 0) {
-    console.warn('Notification skipped: no recipients', payload.kind);
-    return;
+    if (!smtpConfigured) {
+      // Missing env config will not fix itself; the admin can retry after configuring SMTP.
+      return { ok: false, error: mailerError || 'SMTP is not configured', retryable: false };
+    }
+    return { ok: false, error: mailerError || 'SMTP transporter is not ready', retryable: true };
   }
 
   const from = process.env.SMTP_FROM || payload.to[0];
@@ -119,8 +134,11 @@ export async function sendNotificationMail(payload: NotificationPayload): Promis
       to: payload.to.join(','),
       subject: payload.subject,
       text: payload.text,
+      ...(payload.html ? { html: payload.html } : {}),
     });
+    return { ok: true };
   } catch (err: any) {
     console.error('Failed to send notification email', err);
+    return { ok: false, error: (err && err.message) || String(err), retryable: true };
   }
 }
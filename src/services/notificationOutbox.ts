@@ -0,0 +1,174 @@
+import prisma from '../db/client';
+import { Prisma, PrismaClient } from '../generated/prisma/client';
+import { deliverNotificationMail, NotificationKind } from './mailer';
+import { createPollingWorker, exponentialBackoffMs } from './pollingWorker';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// ---------- Notification outbox ----------
+// Routes never send email inline: they insert a Notification row inside the same transaction
+// that creates the Case, so a notification exists if and only if the submission was stored.
+// A background worker delivers pending rows and retries failures with exponential backoff:
+//   attempt 1 -> +30s, 2 -> +1m, 3 -> +2m ... capped at 1h; after maxAttempts the row is "failed"
+// and can be retried from the admin API (POST /notifications/:id/retry).
+
+export type NotificationStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export const NOTIFICATION_STATUSES: NotificationStatus[] = ['pending', 'sending', 'sent', 'failed'];
+
+const RETRY_BASE_MS = Number(process.env.NOTIFICATION_RETRY_BASE_MS || 30 * 1000);
+const RETRY_MAX_MS = 60 * 60 * 1000;
+const WORKER_INTERVAL_MS = Number(process.env.NOTIFICATION_WORKER_INTERVAL_MS || 5000);
+const BATCH_SIZE = 20;
+/** A row left in "sending" this long (process crashed mid-delivery) is picked up again. */
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+export type EnqueueNotificationInput = {
+  projectId: number;
+  caseId?: number | null;
+  kind: NotificationKind;
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string | null;
+};
+
+/**
+ * Inserts a pending notification. Pass the transaction client of the surrounding
+ * $transaction so the row commits (or rolls back) together with the Case.
+ * Returns null when there are no recipients.
+ */
+export async function enqueueNotification(db: DbClient, input: EnqueueNotificationInput) {
+  const to = Array.from(new Set(input.to.map((x) => x.trim()).filter(Boolean)));
+  if (to.length === 0) return null;
+
+  return db.notification.create({
+    data: {
+      projectId: input.projectId,
+      caseId: input.caseId ?? null,
+      kind: input.kind,
+      to,
+      subject: input.subject,
+      text: input.text,
+      html: input.html ?? null,
+      status: 'pending',
+      nextAttemptAt: new Date(),
+    },
+    select: { id: true },
+  });
+}
+
+/** Delay before the next attempt after `attempt` failed attempts (1-based). */
+export function nextRetryDelayMs(attempt: number): number {
+  return exponentialBackoffMs(attempt, RETRY_BASE_MS, RETRY_MAX_MS);
+}
+
+async function deliverOne(id: number): Promise<boolean> {
+  // Claim the row; another worker (second instance) may have taken it already.
+  const claimed = await prisma.notification.updateMany({
+    where: { id, status: 'pending' },
+    data: { status: 'sending' },
+  });
+  if (claimed.count === 0) return false;
+
+  const n = await prisma.notification.findUnique({
+    where: { id },
+    include: { project: { select: { name: true, slug: true } } },
+  });
+  if (!n) return false;
+
+  const result = await deliverNotificationMail({
+    kind: n.kind as NotificationKind,
+    projectName: n.project.name,
+    projectSlug: n.project.slug,
+    to: n.to,
+    subject: n.subject,
+    text: n.text,
+    html: n.html,
+  });
+
+  const attempt = n.attempts + 1;
+  const error = result.ok ? null : result.error.slice(0, 2000);
+  const failed = !result.ok && (!result.retryable || attempt >= n.maxAttempts);
+
+  await prisma.$transaction([
+    prisma.notificationAttempt.create({
+      data: { notificationId: n.id, attempt, ok: result.ok, error },
+    }),
+    prisma.notification.update({
+      where: { id: n.id },
+      data: result.ok
+        ? { status: 'sent', attempts: attempt, sentAt: new Date(), lastError: null }
+        : {
+            status: failed ? 'failed' : 'pending',
+            attempts: attempt,
+            lastError: error,
+            nextAttemptAt: new Date(Date.now() + nextRetryDelayMs(attempt)),
+          },
+    }),
+  ]);
+
+  return true;
+}
+
+/** Delivers due notifications (one batch). Returns the number of processed rows. */
+export async function processNotificationOutbox(): Promise<number> {
+  await prisma.notification.updateMany({
+    where: { status: 'sending', updatedAt: { lt: new Date(Date.now() - STALE_SENDING_MS) } },
+    data: { status: 'pending' },
+  });
+
+  const due = await prisma.notification.findMany({
+    where: { status: 'pending', nextAttemptAt: { lte: new Date() } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: BATCH_SIZE,
+    select: { id: true },
+  });
+
+  let processed = 0;
+  for (const row of due) {
+    try {
+      if (await deliverOne(row.id)) processed += 1;
+    } catch (e) {
+      console.error('Notification outbox: failed to process notification', row.id, e);
+    }
+  }
+  return processed;
+}
+
+/**
+ * Puts failed notifications of a project back into the queue with a fresh attempt budget
+ * (all failed ones when ids is omitted). The attempt log is kept.
+ * Returns the number of requeued rows.
+ */
+export async function requeueFailedNotifications(projectId: number, ids?: number[]): Promise<number> {
+  const result = await prisma.notification.updateMany({
+    where: { projectId, status: 'failed', ...(ids ? { id: { in: ids } } : {}) },
+    data: { status: 'pending', attempts: 0, nextAttemptAt: new Date() },
+  });
+  if (result.count > 0) kickNotificationWorker();
+  return result.count;
+}
+
+// ---------- Worker ----------
+
+const worker = createPollingWorker({
+  name: 'Notification outbox',
+  intervalMs: WORKER_INTERVAL_MS,
+  batchSize: BATCH_SIZE,
+  enabledEnv: 'NOTIFICATION_WORKER_ENABLED',
+  processBatch: processNotificationOutbox,
+});
+
+/**
+ * Starts the polling worker (once per process).
+ * Disable with NOTIFICATION_WORKER_ENABLED=false, e.g. when a separate instance delivers.
+ */
+export function startNotificationWorker(): void {
+  worker.start();
+}
+
+/** Asks the worker to run now (call after the enqueueing transaction has committed). */
+export function kickNotificationWorker(): void {
+  worker.kick();
+}
@@ -0,0 +1,282 @@
+import { escapeHtml, listTemplateVariables, renderTemplate, toSubjectLine } from './templates';
+
+/**
+ * Staff notification templates, stored per project in Project.config.notificationTemplates:
+ *
+ *  {
+ *    "notificationTemplates": {
+ *      "lead": {
+ *        "subject": "Лід: {{contact.name}} — {{projectName}}",
+ *        "text": "Ім'я: {{contact.name}}\nТелефон: {{contact.phone}}\n{{caseUrl}}",
+ *        "html": "<p><b>{{contact.name}}</b> {{contact.phone}}</p><p><a href=\"{{caseUrl}}\">Відкрити</a></p>"
+ *      }
+ *    }
+ *  }
+ *
+ * Missing kinds/parts fall back to DEFAULT_NOTIFICATION_TEMPLATES (today's built-in text).
+ * In text and HTML bodies a line whose placeholders are all empty is dropped, and
+ * "{{#path}}...{{/path}}" renders only when the value is filled. HTML values are escaped.
+ */
+export type StaffNotificationKind = 'lead' | 'donation' | 'booking' | 'feedback' | 'custom';
+
+export const STAFF_NOTIFICATION_KINDS: StaffNotificationKind[] = ['lead', 'donation', 'booking', 'feedback', 'custom'];
+
+export type NotificationTemplate = {
+  subject: string;
+  text: string;
+  /** Optional HTML variant; when empty only the plain-text part is sent. */
+  html?: string | null;
+};
+
+export const DEFAULT_NOTIFICATION_TEMPLATES: Record<StaffNotificationKind, NotificationTemplate> = {
+  lead: {
+    subject: 'Новий лід з сайту — {{projectName}}',
+    text: [
+      "Ім'я: {{contact.name}}",
+      'Email: {{contact.email}}',
+      'Телефон: {{contact.phone}}',
+      'Повідомлення: {{message}}',
+      'Джерело: {{source}}',
+      'Case ID: {{caseId}}',
+      '{{caseUrl}}',
+    ].join('\n'),
+    html: null,
+  },
+  donation: {
+    subject: 'Нове пожертвування — {{projectName}}',
+    text: [
+      "Ім'я: {{contact.name}}",
+      'Email: {{contact.email}}',
+      'Телефон: {{contact.phone}}',
+      'Сума: {{amount}} {{currency}}',
+      'Коментар: {{message}}',
+      'Джерело: {{source}}',
+      'Case ID: {{caseId}}',
+      '{{caseUrl}}',
+    ].join('\n'),
+    html: null,
+  },
+  booking: {
+    subject: 'Нове бронювання — {{projectName}}',
+    text: [
+      "Ім'я: {{contact.name}}",
+      'Email: {{contact.email}}',
+      'Телефон: {{contact.phone}}',
+      'Послуга: {{booking.service}}',
+      'Коли: {{booking.when}}',
+      'Коментар: {{message}}',
+      'Джерело: {{source}}',
+      'Case ID: {{caseId}}',
+      '{{caseUrl}}',
+    ].join('\n'),
+    html: null,
+  },
+  feedback: {
+    subject: '[{{projectName}}] Feedback: {{formTitle}}',
+    text: [
+      'Project: {{projectName}} ({{projectSlug}})',
+      'Form: {{formTitle}} ({{formKey}})',
+      'Name: {{contact.name}}',
+      'Email: {{contact.email}}',
+      'Phone: {{contact.phone}}',
+      'Rating: {{rating}}/5{{#message}}',
+      '',
+      'Message:',
+      '{{message}}{{/message}}',
+      '',
+      'Case ID: {{caseId}}',
+      '{{caseUrl}}',
+    ].join('\n'),
+    html: null,
+  },
+  // Shared by all schema-driven (custom) forms; {{message}} is the case description.
+  custom: {
+    subject: '{{caseTitle}} — {{projectName}}',
+    text: [
+      'Форма: {{formTitle}} ({{formKey}})',
+      "Ім'я: {{contact.name}}",
+      'Email: {{contact.email}}',
+      'Телефон: {{contact.phone}}',
+      '{{message}}',
+      'Сума: {{amount}} {{currency}}',
+      'Джерело: {{source}}',
+      'Case ID: {{caseId}}',
+      '{{caseUrl}}',
+    ].join('\n'),
+    html: null,
+  },
+};
+
+/** Variables available to every kind (plus `fields.<fieldName>` for submitted form fields). */
+export const NOTIFICATION_TEMPLATE_VARIABLES = [
+  'projectName',
+  'projectSlug',
+  'formTitle',
+  'formKey',
+  'caseId',
+  'caseUrl',
+  'caseTitle',
+  'contact.name',
+  'contact.email',
+  'contact.phone',
+  'message',
+  'source',
+  'amount',
+  'currency',
+  'rating',
+  'booking.service',
+  'booking.date',
+  'booking.time',
+  'booking.when',
+];
+
+export type NotificationTemplateInput = {
+  project: { name: string; slug: string };
+  form?: { title: string; formKey: string } | null;
+  caseId?: number | null;
+  caseTitle?: string | null;
+  contact?: { name?: string | null; email?: string | null; phone?: string | null } | null;
+  /** Submitted form fields (validated payload). */
+  data?: Record<string, any>;
+  message?: string | null;
+  source?: string | null;
+  amount?: number | null;
+  currency?: string | null;
+  rating?: number | null;
+  booking?: { service?: string | null; date?: string | null; time?: string | null } | null;
+};
+
+/**
+ * Link to the case in the admin UI. Needs APP_BASE_URL (public URL of this API, e.g.
+ * https://crm.example.com); without it {{caseUrl}} renders empty.
+ */
+export function buildCaseUrl(caseId: number | null | undefined): string {
+  const base = (process.env.APP_BASE_URL || '').trim().replace(/\/+$/, '');
+  if (!base || !caseId) return '';
+  return `${base}/admin/?case=${caseId}`;
+}
+
+export function buildNotificationVars(input: NotificationTemplateInput): Record<string, any> {
+  const booking = input.booking || {};
+  return {
+    projectName: input.project.name,
+    projectSlug: input.project.slug,
+    formTitle: input.form?.title ?? '',
+    formKey: input.form?.formKey ?? '',
+    caseId: input.caseId ?? '',
+    caseUrl: buildCaseUrl(input.caseId),
+    caseTitle: input.caseTitle ?? '',
+    contact: {
+      name: input.contact?.name ?? '',
+      email: input.contact?.email ?? '',
+      phone: input.contact?.phone ?? '',
+    },
+    fields: input.data || {},
+    message: input.message ?? '',
+    source: input.source ?? '',
+    amount: input.amount ?? '',
+    currency: input.currency ?? '',
+    rating: input.rating ?? '',
+    booking: {
+      service: booking.service ?? '',
+      date: booking.date ?? '',
+      time: booking.time ?? '',
+      when: [booking.date, booking.time].filter(Boolean).join(' '),
+    },
+  };
+}
+
+/** Project template for a kind, falling back to the default per part (subject/text/html). */
+export function getNotificationTemplate(projectConfig: unknown, kind: StaffNotificationKind): NotificationTemplate {
+  const all: any =
+    projectConfig && typeof projectConfig === 'object' ? (projectConfig as any).notificationTemplates : null;
+  const custom: any = all && typeof all === 'object' ? all[kind] : null;
+  const def = DEFAULT_NOTIFICATION_TEMPLATES[kind];
+  if (!custom || typeof custom !== 'object') return def;
+
+  return {
+    subject: typeof custom.subject === 'string' && custom.subject.trim() ? custom.subject : def.subject,
+    text: typeof custom.text === 'string' && custom.text.trim() ? custom.text : def.text,
+    html: typeof custom.html === 'string' && custom.html.trim() ? custom.html : def.html ?? null,
+  };
+}
+
+export type RenderedNotification = { subject: string; text: string; html: string | null };
+
+export function renderNotificationTemplate(
+  template: NotificationTemplate,
+  vars: Record<string, any>
+): RenderedNotification {
+  return {
+    subject: toSubjectLine(renderTemplate(template.subject, vars)),
+    text: renderTemplate(template.text, vars, { dropEmptyLines: true }),
+    html: template.html ? renderTemplate(template.html, vars, { escape: escapeHtml, dropEmptyLines: true }) : null,
+  };
+}
+
+/** Returns unknown-variable problems in the `{ field, message }` shape used by config validation. */
+export function validateNotificationTemplate(
+  kind: string,
+  template: Partial<NotificationTemplate> | null | undefined
+): Array<{ field: string; message: string }> {
+  const errors: Array<{ field: string; message: string }> = [];
+  if (!template) return errors;
+
+  for (const part of ['subject', 'text', 'html'] as const) {
+    for (const v of listTemplateVariables(template[part] || '')) {
+      const known = NOTIFICATION_TEMPLATE_VARIABLES.includes(v) || /^fields\.[A-Za-z_][A-Za-z0-9_]*$/.test(v);
+      if (!known) {
+        errors.push({ field: `notificationTemplates.${kind}.${part}`, message: `Unknown template variable "${v}"` });
+      }
+    }
+  }
+
+  return errors;
+}
+
+/** Sample submissions used by the preview endpoint (overridable per request). */
+export const SAMPLE_NOTIFICATION_INPUTS: Record<StaffNotificationKind, Omit<NotificationTemplateInput, 'project'>> = {
+  lead: {
+    form: { title: 'Lead form', formKey: 'lead' },
+    caseId: 123,
+    contact: { name: 'Олена Петренко', email: 'olena@example.com', phone: '+380501234567' },
+    data: { name: 'Олена Петренко', email: 'olena@example.com', phone: '+380501234567', message: 'Передзвоніть, будь ласка' },
+    message: 'Передзвоніть, будь ласка',
+    source: 'lead-widget',
+  },
+  donation: {
+    form: { title: 'Donation form', formKey: 'donation' },
+    caseId: 124,
+    contact: { name: 'Іван Коваль', email: 'ivan@example.com', phone: null },
+    data: { name: 'Іван Коваль', email: 'ivan@example.com', amount: 500, message: 'Дякую за вашу роботу' },
+    message: 'Дякую за вашу роботу',
+    source: 'donation-widget',
+    amount: 500,
+    currency: 'UAH',
+  },
+  booking: {
+    form: { title: 'Booking form', formKey: 'booking' },
+    caseId: 125,
+    contact: { name: 'Марія Шевченко', email: 'maria@example.com', phone: '+380671112233' },
+    data: { name: 'Марія Шевченко', phone: '+380671112233', service: 'consultation', date: '2026-11-02', time: '10:30' },
+    source: 'booking-widget',
+    booking: { service: 'Консультація', date: '2026-11-02', time: '10:30' },
+  },
+  feedback: {
+    form: { title: 'Feedback', formKey: 'feedback' },
+    caseId: 126,
+    contact: { name: 'Andrii', email: 'andrii@example.com', phone: null },
+    data: { name: 'Andrii', email: 'andrii@example.com', rating: 5, message: 'Все супер!' },
+    message: 'Все супер!',
+    rating: 5,
+  },
+  custom: {
+    form: { title: 'Volunteer application', formKey: 'volunteer' },
+    caseId: 127,
+    caseTitle: 'Нова заявка волонтера',
+    contact: { name: 'Олег Бондар', email: 'oleh@example.com', phone: '+380931234567' },
+    data: { name: 'Олег Бондар', email: 'oleh@example.com', city: 'Одеса' },
+    message: 'Місто: Одеса',
+    source: 'public:volunteer',
+  },
+};
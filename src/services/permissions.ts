@@ -0,0 +1,80 @@
+// ---------- Permissions ----------
+// Every admin route requires one permission ("<resource>.<action>"); membership roles map to
+// a set of permissions. Routes check permissions (via `requirePermission`), never roles.
+// Besides the built-in roles (presets below) a project can define custom roles (ProjectRole);
+// a membership with customRoleId gets exactly that role's permissions.
+
+export const PERMISSIONS = [
+  'project.read',
+  'project.configure',
+  'members.read',
+  'members.manage',
+  'members.assignRoles',
+  'contacts.read',
+  'contacts.write',
+  'cases.read',
+  'cases.write',
+  'tasks.read',
+  'tasks.write',
+  'transactions.read',
+  'transactions.write',
+  'booking.read',
+  'booking.write',
+  'forms.read',
+  'forms.configure',
+  'notifications.read',
+  'notifications.manage',
+  'webhooks.read',
+  'webhooks.manage',
+  'apiKeys.manage',
+  'audit.read',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/** Only owners get these by default (custom roles may still include them). */
+const OWNER_ONLY_PERMISSIONS: readonly Permission[] = ['members.assignRoles', 'audit.read'];
+
+const READ_PERMISSIONS = PERMISSIONS.filter((p) => p.endsWith('.read') && !OWNER_ONLY_PERMISSIONS.includes(p));
+
+/**
+ * owner — everything (incl. changing roles, removing admins/owners and the security logs);
+ * admin — everything except role changes (can remove only viewers) and the security logs;
+ * viewer — read-only.
+ */
+export const ROLE_PERMISSIONS: Record<string, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  admin: PERMISSIONS.filter((p) => !OWNER_ONLY_PERMISSIONS.includes(p)),
+  viewer: READ_PERMISSIONS,
+};
+
+export const BUILTIN_ROLES = ['owner', 'admin', 'viewer'] as const;
+
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as readonly string[]).includes(value);
+}
+
+export function getRolePermissions(role: string): Permission[] {
+  return [...(ROLE_PERMISSIONS[role] ?? [])];
+}
+
+/** Effective permissions of a membership; unknown stored permission names are ignored. */
+export function resolveMembershipPermissions(
+  role: string,
+  customRole: { permissions: string[] } | null | undefined
+): Permission[] {
+  if (customRole) return customRole.permissions.filter(isPermission);
+  return getRolePermissions(role);
+}
+
+/**
+ * Permissions from `granted` that `user` does not hold. Nobody can hand out (via role
+ * assignment, invites or role definitions) more than they have themselves.
+ */
+export function missingGrantPermissions(user: { permissions?: string[] }, granted: readonly string[]): string[] {
+  return granted.filter((p) => !user.permissions?.includes(p));
+}
+
+export function hasPermission(user: { permissions?: string[] } | null | undefined, permission: Permission): boolean {
+  return !!user?.permissions?.includes(permission);
+}
@@ -0,0 +1,65 @@
+// ---------- Background polling workers ----------
+// Used by the notification outbox and webhook deliveries: a DB table is the queue, and each
+// API process polls it on an interval. `kick()` runs a pass right away (e.g. after a commit).
+
+export type PollingWorker = {
+  start(): void;
+  kick(): void;
+};
+
+export type PollingWorkerOptions = {
+  name: string;
+  intervalMs: number;
+  /** A pass that processed this many rows is repeated immediately (more rows may be due). */
+  batchSize: number;
+  /** Env flag; "false" disables the worker in this process. */
+  enabledEnv: string;
+  processBatch: () => Promise<number>;
+};
+
+export function createPollingWorker(options: PollingWorkerOptions): PollingWorker {
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+  let rerun = false;
+
+  async function tick(): Promise<void> {
+    if (running) {
+      rerun = true;
+      return;
+    }
+    running = true;
+    try {
+      do {
+        rerun = false;
+        const processed = await options.processBatch();
+        if (processed >= options.batchSize) rerun = true;
+      } while (rerun);
+    } catch (e) {
+      console.error(`${options.name} worker failed`, e);
+    } finally {
+      running = false;
+    }
+  }
+
+  return {
+    start() {
+      if (timer) return;
+      if (process.env[options.enabledEnv] === 'false') {
+        console.log(`${options.name} worker is disabled (${options.enabledEnv}=false)`);
+        return;
+      }
+      timer = setInterval(() => void tick(), options.intervalMs);
+      timer.unref();
+      void tick();
+    },
+    kick() {
+      if (!timer) return;
+      setImmediate(() => void tick());
+    },
+  };
+}
+
+/** Delay before the next attempt after `attempt` failed attempts (1-based): base, 2x, 4x ... capped. */
+export function exponentialBackoffMs(attempt: number, baseMs: number, maxMs: number): number {
+  return Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+}
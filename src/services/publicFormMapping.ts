@@ -0,0 +1,215 @@
+import { sanitizeText } from '../utils/sanitizeText';
+
+/**
+ * Declarative mapping from validated public form values to CRM entities.
+ *
+ * Stored in PublicForm.config.mapping. Every value is a field name from
+ * PublicForm.config.fields (not a raw request key), so only validated data is used.
+ *
+ * Example (volunteer sign-up):
+ *  {
+ *    "contact": { "name": "fullName", "email": "email", "phone": "phone" },
+ *    "case": { "title": "Новий волонтер", "descriptionFields": ["skills", "availability"] },
+ *    "transaction": null
+ *  }
+ */
+export type PublicFormMapping = {
+  contact?: {
+    name?: string;
+    email?: string;
+    phone?: string;
+    notes?: string;
+  };
+  case?: {
+    /** Static case title. Used when titleField is missing or empty. */
+    title?: string;
+    /** Field whose value becomes the case title. */
+    titleField?: string;
+    /** Fields rendered as "Label: value" lines in the case description. */
+    descriptionFields?: string[];
+    status?: string;
+    source?: string;
+  };
+  /** When present, a Transaction is created together with the Case. */
+  transaction?: {
+    amountField: string;
+    type?: 'income' | 'expense';
+    category?: string;
+    currency?: string;
+    descriptionField?: string;
+  } | null;
+};
+
+type MappableField = { name: string; type: string; label?: string };
+
+export type ResolvedPublicSubmission = {
+  contact: { name?: string; email?: string; phone?: string; notes?: string };
+  case: { title: string; description?: string; status: string; source: string };
+  transaction: {
+    amount: number;
+    type: 'income' | 'expense';
+    category?: string;
+    currency: string;
+    description?: string;
+  } | null;
+};
+
+function pickString(data: Record<string, any>, fieldName: string | undefined, maxLen: number) {
+  if (!fieldName) return undefined;
+  const v = data[fieldName];
+  if (v === undefined || v === null || typeof v === 'boolean') return undefined;
+  return sanitizeText(v, maxLen);
+}
+
+function formatValue(v: any): string {
+  if (typeof v === 'boolean') return v ? 'так' : 'ні';
+  if (Array.isArray(v)) return v.join(', ');
+  return String(v);
+}
+
+function findFieldByType(fields: MappableField[], type: string): string | undefined {
+  const found = fields.find((f) => f.type === type);
+  return found ? found.name : undefined;
+}
+
+function findFieldByName(fields: MappableField[], name: string): string | undefined {
+  return fields.some((f) => f.name === name) ? name : undefined;
+}
+
+/**
+ * Returns a list of problems with a mapping against the form fields.
+ * Empty list means the mapping can be used as-is.
+ */
+export function validatePublicFormMapping(
+  fields: MappableField[],
+  mapping: PublicFormMapping | null | undefined
+): Array<{ field: string; message: string }> {
+  const errors: Array<{ field: string; message: string }> = [];
+  if (!mapping) return errors;
+
+  const names = new Set(fields.map((f) => f.name));
+  const check = (path: string, fieldName: unknown) => {
+    if (fieldName === undefined || fieldName === null) return;
+    if (typeof fieldName !== 'string' || !names.has(fieldName)) {
+      errors.push({ field: path, message: `Unknown form field "${String(fieldName)}"` });
+    }
+  };
+
+  if (mapping.contact) {
+    check('mapping.contact.name', mapping.contact.name);
+    check('mapping.contact.email', mapping.contact.email);
+    check('mapping.contact.phone', mapping.contact.phone);
+    check('mapping.contact.notes', mapping.contact.notes);
+  }
+
+  if (mapping.case) {
+    check('mapping.case.titleField', mapping.case.titleField);
+    if (mapping.case.descriptionFields !== undefined) {
+      if (!Array.isArray(mapping.case.descriptionFields)) {
+        errors.push({ field: 'mapping.case.descriptionFields', message: 'Must be an array of field names' });
+      } else {
+        mapping.case.descriptionFields.forEach((n, i) => check(`mapping.case.descriptionFields.${i}`, n));
+      }
+    }
+  }
+
+  if (mapping.transaction) {
+    const amountField = fields.find((f) => f.name === mapping.transaction!.amountField);
+    if (!amountField) {
+      errors.push({ field: 'mapping.transaction.amountField', message: 'amountField must reference a form field' });
+    } else if (amountField.type !== 'amount' && amountField.type !== 'number') {
+      errors.push({ field: 'mapping.transaction.amountField', message: 'amountField must be an amount/number field' });
+    }
+    check('mapping.transaction.descriptionField', mapping.transaction.descriptionField);
+    const t = mapping.transaction.type;
+    if (t !== undefined && t !== 'income' && t !== 'expense') {
+      errors.push({ field: 'mapping.transaction.type', message: 'type must be income or expense' });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Turns validated form values into Contact/Case/Transaction inputs.
+ *
+ * Without an explicit mapping, contact fields are inferred from conventional
+ * field names (name/email/phone) or field types (email/tel), and every other
+ * filled field goes to the case description.
+ */
+export function resolvePublicSubmission(
+  form: { formKey: string; title: string },
+  fields: MappableField[],
+  mapping: PublicFormMapping | null | undefined,
+  data: Record<string, any>
+): ResolvedPublicSubmission {
+  const m = mapping || {};
+
+  const contactMap = {
+    name: m.contact?.name ?? findFieldByName(fields, 'name'),
+    email: m.contact?.email ?? findFieldByName(fields, 'email') ?? findFieldByType(fields, 'email'),
+    phone: m.contact?.phone ?? findFieldByName(fields, 'phone') ?? findFieldByType(fields, 'tel'),
+    notes: m.contact?.notes,
+  };
+
+  const contact = {
+    name: pickString(data, contactMap.name, 100),
+    email: pickString(data, contactMap.email, 255),
+    phone: pickString(data, contactMap.phone, 30),
+    notes: pickString(data, contactMap.notes, 2000),
+  };
+
+  const usedByContact = new Set(
+    [contactMap.name, contactMap.email, contactMap.phone].filter(Boolean) as string[]
+  );
+
+  const descriptionFields = Array.isArray(m.case?.descriptionFields)
+    ? m.case!.descriptionFields
+    : fields
+        .map((f) => f.name)
+        .filter((n) => !usedByContact.has(n) && n !== 'source' && n !== 'clientRequestId');
+
+  const lines: string[] = [];
+  for (const name of descriptionFields) {
+    const v = data[name];
+    if (v === undefined || v === null || (typeof v === 'string' && v.trim() === '')) continue;
+    if (Array.isArray(v) && v.length === 0) continue;
+    const label = fields.find((f) => f.name === name)?.label || name;
+    lines.push(`${label}: ${formatValue(v)}`);
+  }
+
+  const title =
+    pickString(data, m.case?.titleField, 255) ||
+    sanitizeText(m.case?.title, 255) ||
+    `Нова заявка: ${form.title}`;
+
+  const source =
+    sanitizeText(data.source, 100) ||
+    sanitizeText(m.case?.source, 100) ||
+    `${form.formKey}-widget`;
+
+  let transaction: ResolvedPublicSubmission['transaction'] = null;
+  if (m.transaction && m.transaction.amountField) {
+    const amount = Number(data[m.transaction.amountField]);
+    if (Number.isFinite(amount) && amount > 0) {
+      transaction = {
+        amount,
+        type: m.transaction.type === 'expense' ? 'expense' : 'income',
+        category: sanitizeText(m.transaction.category, 100),
+        currency: sanitizeText(m.transaction.currency, 10) || 'UAH',
+        description: pickString(data, m.transaction.descriptionField, 2000),
+      };
+    }
+  }
+
+  return {
+    contact,
+    case: {
+      title,
+      description: lines.length ? lines.join('\n') : undefined,
+      status: sanitizeText(m.case?.status, 100) || 'new',
+      source,
+    },
+    transaction,
+  };
+}
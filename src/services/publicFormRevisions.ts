@@ -0,0 +1,166 @@
+import prisma from '../db/client';
+import { Prisma, PrismaClient } from '../generated/prisma/client';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export type PublicFormRevisionAction = 'initial' | 'create' | 'update' | 'rollback';
+
+type ValueChange = { from: any; to: any };
+
+export type PublicFormConfigDiff = {
+  fields: {
+    added: string[];
+    removed: string[];
+    changed: Array<{ name: string; changes: Record<string, ValueChange> }>;
+    reordered: boolean;
+  };
+  rules: Record<string, ValueChange>;
+  other: Record<string, ValueChange>;
+};
+
+function isSameValue(a: any, b: any): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function diffRecords(a: Record<string, any>, b: Record<string, any>, skip: string[] = []) {
+  const out: Record<string, ValueChange> = {};
+  const keys = new Set([...Object.keys(a || {}), ...Object.keys(b || {})]);
+  for (const key of keys) {
+    if (skip.includes(key)) continue;
+    const from = a ? a[key] : undefined;
+    const to = b ? b[key] : undefined;
+    if (!isSameValue(from, to)) out[key] = { from: from ?? null, to: to ?? null };
+  }
+  return out;
+}
+
+/**
+ * Structured diff between two PublicForm.config values.
+ * Fields are matched by `name`; configVersion is ignored (it changes on every save).
+ */
+export function diffPublicFormConfigs(prev: any, next: any): PublicFormConfigDiff {
+  const prevFields: any[] = Array.isArray(prev?.fields) ? prev.fields : [];
+  const nextFields: any[] = Array.isArray(next?.fields) ? next.fields : [];
+
+  const prevByName = new Map(prevFields.map((f) => [f.name, f]));
+  const nextByName = new Map(nextFields.map((f) => [f.name, f]));
+
+  const added = nextFields.filter((f) => !prevByName.has(f.name)).map((f) => f.name);
+  const removed = prevFields.filter((f) => !nextByName.has(f.name)).map((f) => f.name);
+
+  const changed: PublicFormConfigDiff['fields']['changed'] = [];
+  for (const f of nextFields) {
+    const before = prevByName.get(f.name);
+    if (!before) continue;
+    const changes = diffRecords(before, f);
+    if (Object.keys(changes).length) changed.push({ name: f.name, changes });
+  }
+
+  const commonPrev = prevFields.map((f) => f.name).filter((n) => nextByName.has(n));
+  const commonNext = nextFields.map((f) => f.name).filter((n) => prevByName.has(n));
+
+  return {
+    fields: { added, removed, changed, reordered: !isSameValue(commonPrev, commonNext) },
+    rules: diffRecords(prev?.rules || {}, next?.rules || {}),
+    other: diffRecords(prev || {}, next || {}, ['configVersion', 'fields', 'rules']),
+  };
+}
+
+export function isEmptyPublicFormConfigDiff(diff: PublicFormConfigDiff): boolean {
+  return (
+    diff.fields.added.length === 0 &&
+    diff.fields.removed.length === 0 &&
+    diff.fields.changed.length === 0 &&
+    !diff.fields.reordered &&
+    Object.keys(diff.rules).length === 0 &&
+    Object.keys(diff.other).length === 0
+  );
+}
+
+/**
+ * Appends an immutable revision for a form config.
+ * The diff is computed against the previous revision (or stored as null for the first one).
+ */
+export async function recordPublicFormRevision(
+  db: DbClient,
+  input: {
+    publicFormId: number;
+    config: any;
+    action: PublicFormRevisionAction;
+    createdByUserId?: number | null;
+    rolledBackFromRevisionId?: number | null;
+  }
+) {
+  const last = await db.publicFormRevision.findFirst({
+    where: { publicFormId: input.publicFormId },
+    orderBy: { revision: 'desc' },
+  });
+
+  return db.publicFormRevision.create({
+    data: {
+      publicFormId: input.publicFormId,
+      revision: last ? last.revision + 1 : 1,
+      configVersion: String(input.config?.configVersion ?? '1'),
+      config: input.config,
+      diff: last ? (diffPublicFormConfigs(last.config, input.config) as any) : Prisma.DbNull,
+      action: input.action,
+      createdByUserId: input.createdByUserId ?? null,
+      rolledBackFromRevisionId: input.rolledBackFromRevisionId ?? null,
+    },
+  });
+}
+
+/**
+ * Makes sure a form that predates revision history has a baseline revision
+ * of its current config, so later edits can be rolled back to it.
+ */
+export async function ensureBaselinePublicFormRevision(
+  db: DbClient,
+  form: { id: number; config: any },
+  createdByUserId?: number | null
+) {
+  const existing = await db.publicFormRevision.findFirst({
+    where: { publicFormId: form.id },
+    select: { id: true },
+  });
+  if (existing || form.config == null) return;
+
+  await recordPublicFormRevision(db, {
+    publicFormId: form.id,
+    config: form.config,
+    action: 'initial',
+    createdByUserId,
+  });
+}
+
+/**
+ * Revision id that matches the form's current config, used to tag submitted Cases.
+ * Creates the baseline revision for legacy forms; returns null for forms without config.
+ */
+export async function getCurrentPublicFormRevisionId(
+  form: { id: number; config: any },
+  db: DbClient = prisma
+): Promise<number | null> {
+  if (form.config == null) return null;
+
+  const latest = await db.publicFormRevision.findFirst({
+    where: { publicFormId: form.id },
+    orderBy: { revision: 'desc' },
+    select: { id: true },
+  });
+  if (latest) return latest.id;
+
+  try {
+    await ensureBaselinePublicFormRevision(db, form);
+  } catch (err: any) {
+    // Concurrent submit created the baseline first (unique publicFormId+revision) — just re-read.
+    if (!(err && err.code === 'P2002')) throw err;
+  }
+
+  const created = await db.publicFormRevision.findFirst({
+    where: { publicFormId: form.id },
+    orderBy: { revision: 'desc' },
+    select: { id: true },
+  });
+  return created ? created.id : null;
+}
@@ -0,0 +1,972 @@
+import { z } from 'zod';
+import { PublicFormMapping, validatePublicFormMapping } from './publicFormMapping';
+import { PublicFormAutoResponder, validateAutoResponder } from './autoResponder';
+
+// ---------- Public form schema (P2.1 PR1) ----------
+// Shared by the public submit/config endpoints and the form builder API (routes/publicForms.ts).
+
+export type PublicFieldType =
+  | 'text'
+  | 'email'
+  | 'tel'
+  | 'textarea'
+  | 'number'
+  | 'amount'
+  | 'select'
+  | 'checkbox'
+  | 'date'
+  | 'datetime'
+  | 'time'
+  | 'url'
+  | 'multiselect'
+  | 'radio';
+
+export type PublicFormField = {
+  name: string;
+  type: PublicFieldType;
+  label?: string;
+  required?: boolean;
+  placeholder?: string;
+  min?: number; // string length, numeric min OR number of selected options (depends on type)
+  max?: number; // string length, numeric max OR number of selected options (depends on type)
+  pattern?: string;
+  options?: Array<{ value: string; label: string }>; // select, radio, multiselect
+  /** date/datetime bounds: ISO date/datetime or "today". */
+  minDate?: string;
+  maxDate?: string;
+  defaultValue?: any;
+};
+
+export type PublicFormSchema = {
+  configVersion: string;
+  fields: PublicFormField[];
+  rules?: Record<string, any>;
+  mapping?: PublicFormMapping | null;
+};
+
+// Forms with dedicated handlers in routes/public.ts; any other formKey goes through the generic handler.
+export const BUILTIN_FORM_KEYS = ['lead', 'donation', 'booking', 'feedback'];
+
+export function buildDefaultSchemaForForm(formKey: string): PublicFormSchema {
+  // NOTE: Source of truth is PublicForm.config.
+  // These defaults are used ONLY when config is missing (legacy DB rows),
+  // to avoid breaking existing widget installations.
+
+  if (formKey === 'donation') {
+    return {
+      configVersion: 'legacy-1',
+      fields: [
+        { name: 'name', type: 'text', label: "Ім'я", max: 100 },
+        { name: 'email', type: 'email', label: 'Email', max: 255 },
+        { name: 'phone', type: 'tel', label: 'Телефон', max: 30 },
+        { name: 'amount', type: 'amount', label: 'Сума', required: true, min: 0.01, max: 1_000_000 },
+        { name: 'message', type: 'textarea', label: 'Коментар', max: 2000 },
+      ],
+      rules: { requireOneOf: ['name', 'email', 'phone'] },
+    };
+  }
+
+  if (formKey === 'booking') {
+    return {
+      configVersion: 'legacy-1',
+      fields: [
+        { name: 'name', type: 'text', label: "Ім'я", max: 100 },
+        { name: 'email', type: 'email', label: 'Email', max: 255 },
+        { name: 'phone', type: 'tel', label: 'Телефон', max: 30 },
+        { name: 'service', type: 'text', label: 'Послуга', max: 120 },
+        { name: 'date', type: 'date', label: 'Дата' },
+        { name: 'time', type: 'time', label: 'Час' },
+        { name: 'message', type: 'textarea', label: 'Коментар', max: 2000 },
+      ],
+      rules: { requireOneOf: ['name', 'email', 'phone'] },
+    };
+  }
+
+  if (formKey === 'feedback') {
+    return {
+      configVersion: 'legacy-1',
+      fields: [
+        { name: 'name', type: 'text', label: "Ім'я", max: 100 },
+        { name: 'email', type: 'email', label: 'Email', max: 255 },
+        { name: 'phone', type: 'tel', label: 'Телефон', max: 30 },
+        { name: 'message', type: 'textarea', label: 'Відгук', required: true, max: 2000 },
+        { name: 'rating', type: 'number', label: 'Оцінка', min: 1, max: 5 },
+      ],
+      rules: { requireOneOf: ['name', 'email', 'phone'] },
+    };
+  }
+
+  // lead (default)
+  return {
+    configVersion: 'legacy-1',
+    fields: [
+      { name: 'name', type: 'text', label: "Ім'я", max: 100 },
+      { name: 'email', type: 'email', label: 'Email', max: 255 },
+      { name: 'phone', type: 'tel', label: 'Телефон', max: 30 },
+      { name: 'message', type: 'textarea', label: 'Повідомлення', max: 2000 },
+    ],
+    rules: { requireOneOf: ['name', 'email', 'phone'] },
+  };
+}
+
+// ---------- Typed values (date/time/url) ----------
+// Submitted values are normalized before storage: date -> YYYY-MM-DD, datetime -> UTC ISO 8601,
+// time -> HH:MM[:SS], url -> WHATWG-serialized http(s) URL.
+
+function pad2(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/** Accepts YYYY-MM-DD and DD.MM.YYYY; returns YYYY-MM-DD or null for invalid calendar dates. */
+export function normalizeIsoDate(input: string): string | null {
+  const s = input.trim();
+  let y: number;
+  let m: number;
+  let d: number;
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(s);
+  const local = /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/.exec(s);
+  if (iso) {
+    y = Number(iso[1]);
+    m = Number(iso[2]);
+    d = Number(iso[3]);
+  } else if (local) {
+    y = Number(local[3]);
+    m = Number(local[2]);
+    d = Number(local[1]);
+  } else {
+    return null;
+  }
+
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  if (dt.getUTCFullYear() !== y || dt.getUTCMonth() !== m - 1 || dt.getUTCDate() !== d) return null;
+  return `${y}-${pad2(m)}-${pad2(d)}`;
+}
+
+/** Accepts ISO 8601 date-time (values without an offset are treated as UTC); returns UTC ISO string. */
+export function normalizeIsoDateTime(input: string): string | null {
+  const s = input.trim().replace(' ', 'T');
+  const m = /^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d{1,3})?)?(Z|[+-]\d{2}:?\d{2})?$/.exec(s);
+  if (!m || !normalizeIsoDate(m[1])) return null;
+  if (Number(m[2]) > 23 || Number(m[3]) > 59 || (m[4] !== undefined && Number(m[4]) > 59)) return null;
+
+  const dt = new Date(m[5] ? s : `${s}Z`);
+  return Number.isNaN(dt.getTime()) ? null : dt.toISOString();
+}
+
+/** Accepts H:MM, HH:MM and HH:MM:SS; returns HH:MM (or HH:MM:SS when seconds are given). */
+export function normalizeIsoTime(input: string): string | null {
+  const m = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(input.trim());
+  if (!m) return null;
+  const h = Number(m[1]);
+  const min = Number(m[2]);
+  const sec = m[3] !== undefined ? Number(m[3]) : null;
+  if (h > 23 || min > 59 || (sec !== null && sec > 59)) return null;
+  return `${pad2(h)}:${pad2(min)}${sec !== null ? `:${pad2(sec)}` : ''}`;
+}
+
+function normalizeHttpUrl(input: string): string | null {
+  try {
+    const url = new URL(input.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolves a minDate/maxDate bound to the normalized form of the field type.
+ * "today" is evaluated in UTC at call time.
+ */
+export function resolveDateBound(bound: unknown, type: PublicFieldType): string | null {
+  if (typeof bound !== 'string' || !bound.trim()) return null;
+  if (bound.trim() === 'today') {
+    const today = new Date().toISOString().slice(0, 10);
+    return type === 'datetime' ? `${today}T00:00:00.000Z` : today;
+  }
+  if (type === 'date') return normalizeIsoDate(bound);
+  if (type === 'datetime') {
+    // A plain date bound means midnight UTC.
+    const date = normalizeIsoDate(bound);
+    return date ? `${date}T00:00:00.000Z` : normalizeIsoDateTime(bound);
+  }
+  return null;
+}
+
+function toOptionValues(raw: any): string[] {
+  const list = Array.isArray(raw) ? raw : [raw];
+  return list
+    .filter((v) => v !== undefined && v !== null && (typeof v === 'string' || typeof v === 'number'))
+    .map((v) => String(v).trim())
+    .filter(Boolean);
+}
+
+/**
+ * Field definition as returned by the public config endpoint:
+ * relative date bounds ("today") are resolved so the widget can use them as input min/max.
+ */
+export function toPublicFieldConfig(f: PublicFormField): PublicFormField {
+  if (f.type !== 'date' && f.type !== 'datetime') return f;
+  const out: PublicFormField = { ...f };
+  if (f.minDate !== undefined) out.minDate = resolveDateBound(f.minDate, f.type) || undefined;
+  if (f.maxDate !== undefined) out.maxDate = resolveDateBound(f.maxDate, f.type) || undefined;
+  return out;
+}
+
+// ---------- Conditional / cross-field rules ----------
+//
+// Stored in PublicForm.config.rules next to requireOneOf and exposed as-is by the config
+// endpoint, so the widget can evaluate the same conditions client-side.
+//
+// Example ("phone is required if the contact preference is call"):
+//  {
+//    "conditional": [
+//      { "field": "phone", "action": "require", "when": { "field": "contactPreference", "equals": "call" } }
+//    ]
+//  }
+
+export type PublicFieldCondition = {
+  field: string;
+  equals?: string | number | boolean;
+  notEquals?: string | number | boolean;
+  in?: Array<string | number>;
+  /** true: controller has a value; false: controller is empty. Default when no other operator is set: true. */
+  filled?: boolean;
+};
+
+export type PublicConditionalRule = {
+  field: string;
+  /** show: field is hidden (and its value dropped) unless `when` holds; require: field is required when `when` holds. */
+  action: 'show' | 'require';
+  when: PublicFieldCondition;
+};
+
+export type PublicCompareOp = 'lt' | 'lte' | 'gt' | 'gte' | 'eq' | 'neq';
+
+export type PublicCompareRule = {
+  field: string;
+  op: PublicCompareOp;
+  otherField: string;
+  message?: string;
+};
+
+export type PublicAtLeastRule = {
+  fields: string[];
+  count: number;
+  message?: string;
+};
+
+const COMPARE_OPS: PublicCompareOp[] = ['lt', 'lte', 'gt', 'gte', 'eq', 'neq'];
+
+const COMPARE_OP_LABELS: Record<PublicCompareOp, string> = {
+  lt: '<',
+  lte: '<=',
+  gt: '>',
+  gte: '>=',
+  eq: '=',
+  neq: '!=',
+};
+
+function isFilledValue(v: any): boolean {
+  if (v === undefined || v === null || v === false) return false;
+  if (Array.isArray(v)) return v.length > 0;
+  if (typeof v === 'string') return v.trim() !== '';
+  if (typeof v === 'number') return !Number.isNaN(v);
+  return true;
+}
+
+function looseEquals(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a === undefined || a === null || b === undefined || b === null) return false;
+  return String(a) === String(b);
+}
+
+function matchesCondition(when: PublicFieldCondition, value: any): boolean {
+  const hasOperator = when.equals !== undefined || when.notEquals !== undefined || Array.isArray(when.in);
+  const filled = when.filled !== undefined ? when.filled : hasOperator ? undefined : true;
+
+  // Multiselect values match when any selected option matches.
+  const eq = (x: any) => (Array.isArray(value) ? value.some((v) => looseEquals(v, x)) : looseEquals(value, x));
+
+  if (filled !== undefined && isFilledValue(value) !== filled) return false;
+  if (when.equals !== undefined && !eq(when.equals)) return false;
+  if (when.notEquals !== undefined && eq(when.notEquals)) return false;
+  if (Array.isArray(when.in) && !when.in.some(eq)) return false;
+  return true;
+}
+
+// Numbers, or normalized date/time strings (ISO order == chronological order).
+function compareValues<T extends number | string>(a: T, op: PublicCompareOp, b: T): boolean {
+  switch (op) {
+    case 'lt':
+      return a < b;
+    case 'lte':
+      return a <= b;
+    case 'gt':
+      return a > b;
+    case 'gte':
+      return a >= b;
+    case 'eq':
+      return a === b;
+    case 'neq':
+      return a !== b;
+  }
+}
+
+function readRuleList<T>(rules: Record<string, any> | undefined, key: string): T[] {
+  return rules && Array.isArray(rules[key]) ? (rules[key] as T[]) : [];
+}
+
+/**
+ * Evaluates `rules.conditional` against raw submitted values.
+ * A field hidden by a `show` rule counts as empty for conditions that depend on it.
+ */
+function createConditionEvaluator(schema: PublicFormSchema, getVal: (name: string) => any) {
+  const conditional = readRuleList<PublicConditionalRule>(schema.rules, 'conditional');
+  const fieldsByName = new Map(schema.fields.map((f) => [f.name, f]));
+  const visibility = new Map<string, boolean>();
+
+  // Same coercion as the main loop, but without failing on bad input.
+  const conditionValue = (name: string): any => {
+    const raw = getVal(name);
+    if (raw === undefined || raw === null) return undefined;
+    const f = fieldsByName.get(name);
+    if (f && f.type === 'checkbox') return raw === true || raw === 'true' || raw === '1' || raw === 1;
+    if (f && NUMERIC_FIELD_TYPES.includes(f.type)) {
+      const n = typeof raw === 'number' ? raw : Number(String(raw).replace(',', '.'));
+      return Number.isFinite(n) ? n : undefined;
+    }
+    if (f && f.type === 'multiselect') return toOptionValues(raw);
+    return typeof raw === 'string' ? raw.trim() : raw;
+  };
+
+  const isVisible = (name: string, stack: string[] = []): boolean => {
+    const cached = visibility.get(name);
+    if (cached !== undefined) return cached;
+
+    const showRules = conditional.filter((r) => r.field === name && r.action === 'show');
+    if (showRules.length === 0) return true;
+    // Cycles are rejected at save time; treat them as hidden if an old config still has one.
+    if (stack.includes(name)) return false;
+
+    const visible = showRules.every((r) => holds(r.when, [...stack, name]));
+    visibility.set(name, visible);
+    return visible;
+  };
+
+  const holds = (when: PublicFieldCondition, stack: string[] = []): boolean => {
+    const value = isVisible(when.field, stack) ? conditionValue(when.field) : undefined;
+    return matchesCondition(when, value);
+  };
+
+  const isRequired = (f: PublicFormField): boolean =>
+    Boolean(f.required) ||
+    conditional.some((r) => r.field === f.name && r.action === 'require' && holds(r.when));
+
+  return { isVisible, isRequired };
+}
+
+export function validatePublicPayloadBySchema(schema: PublicFormSchema, body: any) {
+  const errors: Array<{ field: string; message: string }> = [];
+  const out: Record<string, any> = {};
+
+  const getVal = (name: string) =>
+    body && Object.prototype.hasOwnProperty.call(body, name) ? (body as any)[name] : undefined;
+
+  const conditions = createConditionEvaluator(schema, getVal);
+  const visible = new Set<string>();
+
+  for (const f of schema.fields) {
+    // Hidden fields are neither validated nor stored.
+    if (!conditions.isVisible(f.name)) continue;
+    visible.add(f.name);
+
+    const raw = getVal(f.name);
+
+    const isEmpty =
+      raw === undefined ||
+      raw === null ||
+      (typeof raw === 'string' && raw.trim() === '') ||
+      (typeof raw === 'number' && Number.isNaN(raw)) ||
+      (f.type === 'multiselect' && toOptionValues(raw).length === 0);
+
+    if (conditions.isRequired(f) && isEmpty) {
+      errors.push({ field: f.name, message: 'Required' });
+      continue;
+    }
+
+    if (isEmpty) continue;
+
+    if (f.type === 'checkbox') {
+      const v = raw === true || raw === 'true' || raw === '1' || raw === 1;
+      out[f.name] = v;
+      continue;
+    }
+
+    if (f.type === 'number' || f.type === 'amount') {
+      const n = typeof raw === 'number' ? raw : Number(String(raw).replace(',', '.'));
+      if (!Number.isFinite(n)) {
+        errors.push({ field: f.name, message: 'Must be a number' });
+        continue;
+      }
+      if (typeof f.min === 'number' && n < f.min) {
+        errors.push({ field: f.name, message: `Must be >= ${f.min}` });
+        continue;
+      }
+      if (typeof f.max === 'number' && n > f.max) {
+        errors.push({ field: f.name, message: `Must be <= ${f.max}` });
+        continue;
+      }
+      out[f.name] = n;
+      continue;
+    }
+
+    const allowed = Array.isArray(f.options) && f.options.length ? f.options.map((o) => String(o.value)) : null;
+
+    if (f.type === 'select' || f.type === 'radio') {
+      const v = String(raw).trim();
+      if (allowed && !allowed.includes(v)) {
+        errors.push({ field: f.name, message: 'Invalid option' });
+        continue;
+      }
+      out[f.name] = v;
+      continue;
+    }
+
+    if (f.type === 'multiselect') {
+      const values = Array.from(new Set(toOptionValues(raw)));
+      if (allowed && values.some((v) => !allowed.includes(v))) {
+        errors.push({ field: f.name, message: 'Invalid option' });
+        continue;
+      }
+      if (typeof f.min === 'number' && values.length < f.min) {
+        errors.push({ field: f.name, message: `Select at least ${f.min}` });
+        continue;
+      }
+      if (typeof f.max === 'number' && values.length > f.max) {
+        errors.push({ field: f.name, message: `Select at most ${f.max}` });
+        continue;
+      }
+      out[f.name] = values;
+      continue;
+    }
+
+    if (f.type === 'date' || f.type === 'datetime') {
+      const v = f.type === 'date' ? normalizeIsoDate(String(raw)) : normalizeIsoDateTime(String(raw));
+      if (!v) {
+        errors.push({ field: f.name, message: f.type === 'date' ? 'Invalid date' : 'Invalid date/time' });
+        continue;
+      }
+      const minDate = resolveDateBound(f.minDate, f.type);
+      const maxDate = resolveDateBound(f.maxDate, f.type);
+      if (minDate && v < minDate) {
+        errors.push({ field: f.name, message: `Must be on or after ${minDate}` });
+        continue;
+      }
+      if (maxDate && v > maxDate) {
+        errors.push({ field: f.name, message: `Must be on or before ${maxDate}` });
+        continue;
+      }
+      out[f.name] = v;
+      continue;
+    }
+
+    if (f.type === 'time') {
+      const v = normalizeIsoTime(String(raw));
+      if (!v) {
+        errors.push({ field: f.name, message: 'Invalid time' });
+        continue;
+      }
+      out[f.name] = v;
+      continue;
+    }
+
+    const s = String(raw).trim();
+    if (typeof f.min === 'number' && s.length < f.min) {
+      errors.push({ field: f.name, message: `Min length ${f.min}` });
+      continue;
+    }
+    if (typeof f.max === 'number' && s.length > f.max) {
+      errors.push({ field: f.name, message: `Max length ${f.max}` });
+      continue;
+    }
+    if (f.pattern) {
+      try {
+        const r = new RegExp(f.pattern);
+        if (!r.test(s)) {
+          errors.push({ field: f.name, message: 'Invalid format' });
+          continue;
+        }
+      } catch {
+        // ignore invalid server pattern
+      }
+    }
+    if (f.type === 'url') {
+      const url = normalizeHttpUrl(s);
+      if (!url) {
+        errors.push({ field: f.name, message: 'Invalid URL' });
+        continue;
+      }
+      out[f.name] = url;
+      continue;
+    }
+    if (f.type === 'email') {
+      const emailLike = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+      if (!emailLike.test(s)) {
+        errors.push({ field: f.name, message: 'Invalid email' });
+        continue;
+      }
+    }
+
+    out[f.name] = s;
+  }
+
+  const requireOneOf =
+    schema.rules && Array.isArray((schema.rules as any).requireOneOf)
+      ? (schema.rules as any).requireOneOf
+      : null;
+  if (requireOneOf && requireOneOf.length > 0) {
+    const ok = requireOneOf.some((k: string) => {
+      const v = out[k];
+      return v !== undefined && v !== null && !(typeof v === 'string' && v.trim() === '');
+    });
+    if (!ok) {
+      errors.push({
+        field: requireOneOf[0] || 'name',
+        message: `At least one of ${requireOneOf.join(', ')} is required`,
+      });
+    }
+  }
+
+  // Cross-field rules run on coerced output; fields that already failed are skipped.
+  const failed = new Set(errors.map((e) => e.field));
+
+  for (const rule of readRuleList<PublicCompareRule>(schema.rules, 'compare')) {
+    if (failed.has(rule.field)) continue;
+    const a = out[rule.field];
+    const b = out[rule.otherField];
+    const comparable =
+      (typeof a === 'number' && typeof b === 'number') || (typeof a === 'string' && typeof b === 'string');
+    if (!comparable) continue;
+    if (!compareValues(a, rule.op, b)) {
+      errors.push({
+        field: rule.field,
+        message: rule.message || `Must be ${COMPARE_OP_LABELS[rule.op] || rule.op} ${rule.otherField}`,
+      });
+      failed.add(rule.field);
+    }
+  }
+
+  for (const group of readRuleList<string[]>(schema.rules, 'mutuallyExclusive')) {
+    if (!Array.isArray(group)) continue;
+    const filled = group.filter((n) => isFilledValue(out[n]));
+    if (filled.length > 1) {
+      errors.push({ field: filled[1], message: `Only one of ${group.join(', ')} can be filled` });
+    }
+  }
+
+  for (const rule of readRuleList<PublicAtLeastRule>(schema.rules, 'atLeast')) {
+    if (!Array.isArray(rule.fields)) continue;
+    // Hidden fields cannot be filled, so they do not count towards the group.
+    const candidates = rule.fields.filter((n) => visible.has(n));
+    const filled = candidates.filter((n) => isFilledValue(out[n])).length;
+    const count = Math.min(rule.count, candidates.length);
+    if (filled < count) {
+      errors.push({
+        field: candidates[0] || rule.fields[0],
+        message: rule.message || `At least ${count} of ${candidates.join(', ')} are required`,
+      });
+    }
+  }
+
+  return { ok: errors.length === 0, errors, data: out };
+}
+
+/**
+ * Reads the schema stored in PublicForm.config.
+ * Returns null when config has no `fields` (legacy rows) — callers decide on defaults.
+ */
+export function getStoredPublicFormSchema(config: unknown): PublicFormSchema | null {
+  const cfg: any = config || null;
+  if (!cfg || typeof cfg !== 'object' || !Array.isArray(cfg.fields)) return null;
+  return {
+    configVersion: String(cfg.configVersion || '1'),
+    fields: cfg.fields,
+    rules: cfg.rules || {},
+    mapping: cfg.mapping || null,
+  };
+}
+
+// ---------- Form builder validation (save time) ----------
+
+export const PUBLIC_FIELD_TYPES: PublicFieldType[] = [
+  'text',
+  'email',
+  'tel',
+  'textarea',
+  'number',
+  'amount',
+  'select',
+  'checkbox',
+  'date',
+  'datetime',
+  'time',
+  'url',
+  'multiselect',
+  'radio',
+];
+
+const STRING_FIELD_TYPES: PublicFieldType[] = ['text', 'email', 'tel', 'textarea', 'url'];
+const NUMERIC_FIELD_TYPES: PublicFieldType[] = ['number', 'amount'];
+const OPTION_FIELD_TYPES: PublicFieldType[] = ['select', 'radio', 'multiselect'];
+const DATE_FIELD_TYPES: PublicFieldType[] = ['date', 'datetime'];
+// Types whose normalized values can be compared by rules.compare (same type on both sides for dates).
+const COMPARABLE_FIELD_TYPES: PublicFieldType[] = [...NUMERIC_FIELD_TYPES, 'date', 'datetime', 'time'];
+
+// Keys handled by the submit endpoint itself (honeypot); they cannot be declared as fields.
+const RESERVED_FIELD_NAMES = ['__hp'];
+
+export const publicFormFieldSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, 'name is required')
+      .max(64)
+      .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'name can contain letters, digits and underscores only'),
+    type: z.enum(PUBLIC_FIELD_TYPES as [PublicFieldType, ...PublicFieldType[]]),
+    label: z.string().max(255).optional(),
+    required: z.boolean().optional(),
+    placeholder: z.string().max(255).optional(),
+    min: z.number().finite().optional(),
+    max: z.number().finite().optional(),
+    pattern: z.string().max(500).optional(),
+    options: z
+      .array(z.object({ value: z.string().min(1).max(255), label: z.string().min(1).max(255) }))
+      .max(200)
+      .optional(),
+    minDate: z.string().max(40).optional(),
+    maxDate: z.string().max(40).optional(),
+    defaultValue: z.any().optional(),
+  })
+  .strict()
+  .superRefine((f, ctx) => {
+    if (RESERVED_FIELD_NAMES.includes(f.name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['name'], message: `"${f.name}" is reserved` });
+    }
+
+    const hasMin = typeof f.min === 'number';
+    const hasMax = typeof f.max === 'number';
+
+    if (!STRING_FIELD_TYPES.includes(f.type) && !NUMERIC_FIELD_TYPES.includes(f.type) && f.type !== 'multiselect') {
+      if (hasMin || hasMax) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['min'], message: `min/max are not supported for ${f.type}` });
+      }
+    }
+
+    if (f.type === 'multiselect') {
+      // For multiselect min/max are the number of selected options.
+      if (hasMin && (!Number.isInteger(f.min) || f.min! < 0)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['min'], message: 'min must be a non-negative integer' });
+      }
+      if (hasMax && (!Number.isInteger(f.max) || f.max! < 1)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['max'], message: 'max must be a positive integer' });
+      }
+    }
+
+    for (const key of ['minDate', 'maxDate'] as const) {
+      if (f[key] === undefined) continue;
+      if (!DATE_FIELD_TYPES.includes(f.type)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `${key} is not supported for ${f.type}` });
+      } else if (!resolveDateBound(f[key], f.type)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: `${key} must be an ISO ${f.type === 'date' ? 'date (YYYY-MM-DD)' : 'date/time'} or "today"`,
+        });
+      }
+    }
+    if (DATE_FIELD_TYPES.includes(f.type) && f.minDate && f.maxDate) {
+      const minDate = resolveDateBound(f.minDate, f.type);
+      const maxDate = resolveDateBound(f.maxDate, f.type);
+      if (minDate && maxDate && minDate > maxDate) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['minDate'], message: 'minDate must be <= maxDate' });
+      }
+    }
+
+    if (STRING_FIELD_TYPES.includes(f.type)) {
+      // For string fields min/max are lengths.
+      if (hasMin && (!Number.isInteger(f.min) || f.min! < 0)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['min'], message: 'min length must be a non-negative integer' });
+      }
+      if (hasMax && (!Number.isInteger(f.max) || f.max! < 1)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['max'], message: 'max length must be a positive integer' });
+      }
+    }
+
+    if (hasMin && hasMax && f.min! > f.max!) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['min'], message: 'min must be <= max' });
+    }
+
+    if (f.required && hasMax && f.max === 0 && !NUMERIC_FIELD_TYPES.includes(f.type)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['max'], message: 'required field cannot have max length 0' });
+    }
+
+    if (f.pattern !== undefined) {
+      if (!STRING_FIELD_TYPES.includes(f.type)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pattern'], message: `pattern is not supported for ${f.type}` });
+      } else {
+        try {
+          new RegExp(f.pattern);
+        } catch (e: any) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['pattern'],
+            message: `Invalid regex: ${e && e.message ? e.message : 'syntax error'}`,
+          });
+        }
+      }
+    }
+
+    if (OPTION_FIELD_TYPES.includes(f.type)) {
+      if (!f.options || f.options.length === 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: `${f.type} requires at least one option` });
+      } else {
+        const seen = new Set<string>();
+        f.options.forEach((o, i) => {
+          if (seen.has(o.value)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options', i, 'value'], message: `Duplicate option "${o.value}"` });
+          }
+          seen.add(o.value);
+        });
+      }
+    } else if (f.options !== undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: `options are not supported for ${f.type}` });
+    }
+  });
+
+const conditionValueSchema = z.union([z.string().max(255), z.number().finite(), z.boolean()]);
+
+const publicFieldConditionSchema = z
+  .object({
+    field: z.string().min(1),
+    equals: conditionValueSchema.optional(),
+    notEquals: conditionValueSchema.optional(),
+    in: z.array(z.union([z.string().max(255), z.number().finite()])).min(1).max(200).optional(),
+    filled: z.boolean().optional(),
+  })
+  .strict();
+
+export const publicFormRulesSchema = z
+  .object({
+    requireOneOf: z.array(z.string().min(1)).min(1, 'requireOneOf must not be empty').optional(),
+    conditional: z
+      .array(
+        z
+          .object({
+            field: z.string().min(1),
+            action: z.enum(['show', 'require']),
+            when: publicFieldConditionSchema,
+          })
+          .strict()
+      )
+      .max(200)
+      .optional(),
+    compare: z
+      .array(
+        z
+          .object({
+            field: z.string().min(1),
+            op: z.enum(COMPARE_OPS as [PublicCompareOp, ...PublicCompareOp[]]),
+            otherField: z.string().min(1),
+            message: z.string().max(255).optional(),
+          })
+          .strict()
+      )
+      .max(100)
+      .optional(),
+    mutuallyExclusive: z
+      .array(z.array(z.string().min(1)).min(2, 'mutuallyExclusive group needs at least 2 fields'))
+      .max(100)
+      .optional(),
+    atLeast: z
+      .array(
+        z
+          .object({
+            fields: z.array(z.string().min(1)).min(1),
+            count: z.number().int().min(1),
+            message: z.string().max(255).optional(),
+          })
+          .strict()
+      )
+      .max(100)
+      .optional(),
+  })
+  .strict();
+
+export type PublicFormRulesInput = z.infer<typeof publicFormRulesSchema>;
+
+// Structure only; references to field names are checked in validatePublicFormConfig.
+export const publicFormMappingSchema = z
+  .object({
+    contact: z
+      .object({
+        name: z.string().optional(),
+        email: z.string().optional(),
+        phone: z.string().optional(),
+        notes: z.string().optional(),
+      })
+      .strict()
+      .optional(),
+    case: z
+      .object({
+        title: z.string().max(255).optional(),
+        titleField: z.string().optional(),
+        descriptionFields: z.array(z.string()).optional(),
+        status: z.string().max(100).optional(),
+        source: z.string().max(100).optional(),
+      })
+      .strict()
+      .optional(),
+    transaction: z
+      .object({
+        amountField: z.string().min(1, 'amountField is required'),
+        type: z.enum(['income', 'expense']).optional(),
+        category: z.string().max(100).optional(),
+        currency: z.string().max(10).optional(),
+        descriptionField: z.string().optional(),
+      })
+      .strict()
+      .nullable()
+      .optional(),
+  })
+  .strict();
+
+// Template variables are checked in validatePublicFormConfig.
+export const publicFormAutoResponderSchema = z
+  .object({
+    enabled: z.boolean(),
+    emailField: z.string().min(1).optional(),
+    subject: z.string().max(255).optional(),
+    body: z.string().max(5000).optional(),
+  })
+  .strict();
+
+/**
+ * Cross-checks a full form config: duplicate field names, rules and mapping
+ * referencing unknown fields. Field-level checks live in publicFormFieldSchema.
+ *
+ * Returns errors in the same `{ field, message }` shape as submit validation.
+ */
+export function validatePublicFormConfig(config: {
+  fields: PublicFormField[];
+  rules?: PublicFormRulesInput | Record<string, any>;
+  mapping?: PublicFormMapping | null;
+  autoResponder?: PublicFormAutoResponder | null;
+}): Array<{ field: string; message: string }> {
+  const errors: Array<{ field: string; message: string }> = [];
+  const names = new Set<string>();
+
+  config.fields.forEach((f, i) => {
+    if (names.has(f.name)) {
+      errors.push({ field: `fields.${i}.name`, message: `Duplicate field name "${f.name}"` });
+    }
+    names.add(f.name);
+  });
+
+  const rules: any = config.rules || {};
+  if (Array.isArray(rules.requireOneOf)) {
+    rules.requireOneOf.forEach((n: string, i: number) => {
+      if (!names.has(n)) {
+        errors.push({ field: `rules.requireOneOf.${i}`, message: `Unknown form field "${n}"` });
+      }
+    });
+  }
+
+  const fieldsByName = new Map(config.fields.map((f) => [f.name, f]));
+  const checkRef = (path: string, n: string) => {
+    if (!names.has(n)) errors.push({ field: path, message: `Unknown form field "${n}"` });
+  };
+
+  if (Array.isArray(rules.conditional)) {
+    rules.conditional.forEach((r: PublicConditionalRule, i: number) => {
+      checkRef(`rules.conditional.${i}.field`, r.field);
+      checkRef(`rules.conditional.${i}.when.field`, r.when.field);
+      if (r.field === r.when.field) {
+        errors.push({ field: `rules.conditional.${i}.when.field`, message: 'A field cannot depend on itself' });
+      }
+    });
+
+    // show-rules must form a DAG, otherwise visibility is undefined.
+    const deps = new Map<string, string[]>();
+    for (const r of rules.conditional as PublicConditionalRule[]) {
+      if (r.action !== 'show') continue;
+      deps.set(r.field, [...(deps.get(r.field) || []), r.when.field]);
+    }
+    const state = new Map<string, 'visiting' | 'done'>();
+    const visit = (n: string): boolean => {
+      if (state.get(n) === 'done') return false;
+      if (state.get(n) === 'visiting') return true;
+      state.set(n, 'visiting');
+      const cyclic = (deps.get(n) || []).some(visit);
+      state.set(n, 'done');
+      return cyclic;
+    };
+    for (const n of deps.keys()) {
+      if (visit(n)) {
+        errors.push({ field: 'rules.conditional', message: `Circular show conditions involving "${n}"` });
+        break;
+      }
+    }
+  }
+
+  if (Array.isArray(rules.compare)) {
+    rules.compare.forEach((r: PublicCompareRule, i: number) => {
+      for (const [key, n] of [['field', r.field], ['otherField', r.otherField]] as const) {
+        const f = fieldsByName.get(n);
+        if (!f) {
+          errors.push({ field: `rules.compare.${i}.${key}`, message: `Unknown form field "${n}"` });
+        } else if (!COMPARABLE_FIELD_TYPES.includes(f.type)) {
+          errors.push({
+            field: `rules.compare.${i}.${key}`,
+            message: 'compare is supported for number/amount/date/datetime/time fields only',
+          });
+        }
+      }
+      const a = fieldsByName.get(r.field);
+      const b = fieldsByName.get(r.otherField);
+      if (a && b && (NUMERIC_FIELD_TYPES.includes(a.type) ? !NUMERIC_FIELD_TYPES.includes(b.type) : a.type !== b.type)) {
+        errors.push({ field: `rules.compare.${i}.otherField`, message: 'compared fields must have the same type' });
+      }
+      if (r.field === r.otherField) {
+        errors.push({ field: `rules.compare.${i}.otherField`, message: 'otherField must differ from field' });
+      }
+    });
+  }
+
+  if (Array.isArray(rules.mutuallyExclusive)) {
+    rules.mutuallyExclusive.forEach((group: string[], i: number) => {
+      group.forEach((n, j) => checkRef(`rules.mutuallyExclusive.${i}.${j}`, n));
+    });
+  }
+
+  if (Array.isArray(rules.atLeast)) {
+    rules.atLeast.forEach((r: PublicAtLeastRule, i: number) => {
+      r.fields.forEach((n, j) => checkRef(`rules.atLeast.${i}.fields.${j}`, n));
+      if (r.count > r.fields.length) {
+        errors.push({ field: `rules.atLeast.${i}.count`, message: 'count must be <= number of fields' });
+      }
+    });
+  }
+
+  errors.push(...validatePublicFormMapping(config.fields, config.mapping));
+  errors.push(...validateAutoResponder(config.fields, config.autoResponder));
+
+  return errors;
+}
+
+/** "1" -> "2"; legacy/non-numeric versions restart from "1". */
+export function nextConfigVersion(current: unknown): string {
+  const n = Number.parseInt(String(current ?? ''), 10);
+  return String(Number.isFinite(n) && n > 0 ? n + 1 : 1);
+}
@@ -0,0 +1,283 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import type { SignOptions } from 'jsonwebtoken';
+import type { Request } from 'express';
+import prisma from '../db/client';
+import { Prisma, PrismaClient } from '../generated/prisma/client';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// ---------- Sessions: access + refresh tokens ----------
+// Login creates an AuthSession and returns a short-lived access JWT (`sid` = session id) plus an
+// opaque refresh token. POST /auth/refresh rotates the refresh token (the old one stops working)
+// and issues a new access token. Revoking a session makes both its refresh token and every
+// access token carrying its `sid` invalid immediately (requireAuth checks the session).
+
+const JWT_SECRET = (process.env.JWT_SECRET || 'dev-mini-crm-secret') as jwt.Secret;
+/**
+ * Access token lifetime. Deliberately not JWT_EXPIRES_IN: older deployments set that to days,
+ * which would keep long-lived access tokens next to refresh tokens.
+ */
+export const ACCESS_TOKEN_EXPIRES_IN: SignOptions['expiresIn'] =
+  (process.env.ACCESS_TOKEN_EXPIRES_IN as SignOptions['expiresIn']) || '15m';
+if (process.env.JWT_EXPIRES_IN) {
+  console.warn('JWT_EXPIRES_IN is no longer used; access tokens live ACCESS_TOKEN_EXPIRES_IN (default 15m)');
+}
+const REFRESH_TOKEN_TTL_MS = Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30) * 24 * 60 * 60 * 1000;
+/** A rotated token presented again within this window is a client race (two tabs), not theft. */
+const ROTATION_GRACE_MS = 30 * 1000;
+const LAST_SEEN_THROTTLE_MS = 60 * 1000;
+
+export type AccessTokenPayload = {
+  userId: number;
+  email: string;
+  role: string;
+  projectId: number;
+  /** Session id; absent in tokens issued before sessions existed. */
+  sid?: number;
+};
+
+export function signAccessToken(payload: AccessTokenPayload): string {
+  // role + projectId are the CURRENT active project in the admin UI
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_EXPIRES_IN });
+}
+
+// ---------- Two-factor login challenge ----------
+// After a correct password, users with 2FA get a short-lived challenge token instead of a session.
+// It is signed with a derived secret, so requireAuth never accepts it as an access token.
+
+const LOGIN_CHALLENGE_SECRET = `${String(JWT_SECRET)}:login-2fa`;
+const LOGIN_CHALLENGE_EXPIRES_IN = '5m';
+
+export type LoginChallengePayload = { userId: number; role: string; projectId: number };
+
+export function signLoginChallenge(payload: LoginChallengePayload): string {
+  return jwt.sign({ ...payload, purpose: 'login-2fa' }, LOGIN_CHALLENGE_SECRET, {
+    expiresIn: LOGIN_CHALLENGE_EXPIRES_IN,
+  });
+}
+
+/** Payload of a valid, unexpired challenge token, or null. */
+export function verifyLoginChallenge(token: string): LoginChallengePayload | null {
+  try {
+    const payload = jwt.verify(token, LOGIN_CHALLENGE_SECRET) as LoginChallengePayload & { purpose?: string };
+    if (payload.purpose !== 'login-2fa') return null;
+    return { userId: payload.userId, role: payload.role, projectId: payload.projectId };
+  } catch {
+    return null;
+  }
+}
+
+export type SessionMeta = { userAgent: string | null; ip: string | null };
+
+export function getSessionMeta(req: Request): SessionMeta {
+  const userAgent = req.get('user-agent');
+  return { userAgent: userAgent ? userAgent.slice(0, 500) : null, ip: req.ip || null };
+}
+
+function hashRefreshToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function generateRefreshToken(): string {
+  return crypto.randomBytes(48).toString('base64url');
+}
+
+export type IssuedTokens = { token: string; refreshToken: string; sessionId: number };
+
+/** Starts a new session (login, signup, accepted invite) and returns its first token pair. */
+export async function startSession(
+  db: DbClient,
+  user: { id: number; email: string },
+  context: { role: string; projectId: number },
+  meta: SessionMeta
+): Promise<IssuedTokens> {
+  const refreshToken = generateRefreshToken();
+  const session = await db.authSession.create({
+    data: {
+      userId: user.id,
+      projectId: context.projectId,
+      refreshTokenHash: hashRefreshToken(refreshToken),
+      userAgent: meta.userAgent,
+      ip: meta.ip,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    },
+  });
+
+  const token = signAccessToken({
+    userId: user.id,
+    email: user.email,
+    role: context.role,
+    projectId: context.projectId,
+    sid: session.id,
+  });
+
+  return { token, refreshToken, sessionId: session.id };
+}
+
+export type RefreshResult =
+  | { ok: true; token: string; refreshToken: string; user: { id: number; email: string; role: string; projectId: number } }
+  | { ok: false; status: 401 | 403; error: string };
+
+/** Rotates a refresh token. Reusing an already rotated token revokes the whole session. */
+export async function refreshSession(refreshToken: string, meta: SessionMeta): Promise<RefreshResult> {
+  const tokenHash = hashRefreshToken(refreshToken);
+  const now = new Date();
+
+  const session = await prisma.authSession.findUnique({ where: { refreshTokenHash: tokenHash } });
+  if (!session) {
+    const rotated = await prisma.authSession.findUnique({ where: { previousTokenHash: tokenHash } });
+    if (rotated && !rotated.revokedAt) {
+      const withinGrace = rotated.rotatedAt && now.getTime() - rotated.rotatedAt.getTime() < ROTATION_GRACE_MS;
+      if (!withinGrace) {
+        await prisma.authSession.update({ where: { id: rotated.id }, data: { revokedAt: now } });
+        console.warn(`Refresh token reuse detected; session ${rotated.id} revoked`);
+      }
+    }
+    return { ok: false, status: 401, error: 'Invalid refresh token' };
+  }
+
+  if (session.revokedAt || session.expiresAt.getTime() <= now.getTime()) {
+    return { ok: false, status: 401, error: 'Session expired or revoked' };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.userId },
+    include: { memberships: { select: { projectId: true, role: true } } },
+  });
+  if (!user) {
+    return { ok: false, status: 401, error: 'Invalid refresh token' };
+  }
+
+  // Stay in the session's project; fall back to another membership if access was removed.
+  const membership =
+    user.memberships.find((m) => m.projectId === session.projectId) ?? pickPrimaryMembership(user.memberships);
+  if (!membership) {
+    return { ok: false, status: 403, error: 'No project access for this user' };
+  }
+
+  const nextRefreshToken = generateRefreshToken();
+  const claim = await prisma.authSession.updateMany({
+    where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+    data: {
+      refreshTokenHash: hashRefreshToken(nextRefreshToken),
+      previousTokenHash: tokenHash,
+      rotatedAt: now,
+      projectId: membership.projectId,
+      lastSeenAt: now,
+      userAgent: meta.userAgent ?? session.userAgent,
+      ip: meta.ip ?? session.ip,
+    },
+  });
+  if (claim.count === 0) {
+    // Lost a race with a concurrent refresh of the same token.
+    return { ok: false, status: 401, error: 'Invalid refresh token' };
+  }
+
+  const token = signAccessToken({
+    userId: user.id,
+    email: user.email,
+    role: membership.role,
+    projectId: membership.projectId,
+    sid: session.id,
+  });
+
+  return {
+    ok: true,
+    token,
+    refreshToken: nextRefreshToken,
+    user: { id: user.id, email: user.email, role: membership.role, projectId: membership.projectId },
+  };
+}
+
+export function pickPrimaryMembership<T extends { role: string }>(memberships: T[]): T {
+  const priority: Record<string, number> = { owner: 0, admin: 1, viewer: 2 };
+  return [...memberships].sort((a, b) => (priority[a.role] ?? 99) - (priority[b.role] ?? 99))[0];
+}
+
+/**
+ * Used by requireAuth for tokens with `sid`: the session must belong to the user and be active.
+ * Records last-seen time and IP (at most once a minute).
+ */
+export async function checkSession(sessionId: number, userId: number, meta: SessionMeta): Promise<boolean> {
+  const session = await prisma.authSession.findUnique({ where: { id: sessionId } });
+  if (!session || session.userId !== userId || session.revokedAt) return false;
+  if (session.expiresAt.getTime() <= Date.now()) return false;
+
+  if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_THROTTLE_MS || (meta.ip && meta.ip !== session.ip)) {
+    prisma.authSession
+      .update({ where: { id: session.id }, data: { lastSeenAt: new Date(), ip: meta.ip ?? session.ip } })
+      .catch((e) => console.error('Failed to update session lastSeenAt', e));
+  }
+  return true;
+}
+
+/** Switching the active project keeps the session; refreshed tokens use the new project. */
+export async function setSessionProject(sessionId: number | undefined, projectId: number): Promise<void> {
+  if (!sessionId) return;
+  await prisma.authSession.update({ where: { id: sessionId }, data: { projectId } });
+}
+
+export async function revokeSession(db: DbClient, userId: number, sessionId: number): Promise<boolean> {
+  const result = await db.authSession.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return result.count > 0;
+}
+
+export async function revokeSessionByRefreshToken(refreshToken: string): Promise<boolean> {
+  const result = await prisma.authSession.updateMany({
+    where: { refreshTokenHash: hashRefreshToken(refreshToken), revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return result.count > 0;
+}
+
+/** Revokes every session of a user and all access tokens issued so far (incl. pre-session ones). */
+export async function revokeAllSessions(db: DbClient, userId: number): Promise<number> {
+  const now = new Date();
+  const result = await db.authSession.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: now },
+  });
+  await db.user.update({ where: { id: userId }, data: { tokensValidAfter: now } });
+  return result.count;
+}
+
+export async function listActiveSessions(userId: number) {
+  const sessions = await prisma.authSession.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: { id: true, userAgent: true, ip: true, createdAt: true, lastSeenAt: true, expiresAt: true, projectId: true },
+    orderBy: { lastSeenAt: 'desc' },
+  });
+  return sessions.map((s) => ({ ...s, device: describeUserAgent(s.userAgent) }));
+}
+
+const BROWSER_PATTERNS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+  [/curl\//i, 'curl'],
+];
+
+const OS_PATTERNS: Array<[RegExp, string]> = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/** Short human label like "Chrome on Windows" for the sessions list. */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = BROWSER_PATTERNS.find(([re]) => re.test(userAgent))?.[1];
+  const os = OS_PATTERNS.find(([re]) => re.test(userAgent))?.[1];
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || userAgent.slice(0, 60);
+}
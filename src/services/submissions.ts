@@ -0,0 +1,67 @@
+import crypto from 'crypto';
+import { Prisma, PrismaClient } from '../generated/prisma/client';
+import { sanitizeText } from '../utils/sanitizeText';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export type SubmissionMeta = {
+  origin?: string;
+  referer?: string;
+  userAgent?: string;
+  ipHash?: string;
+};
+
+function getIpHashSalt(): string {
+  // Falls back to JWT_SECRET so hashes are not trivially reversible even without extra config.
+  return String(process.env.SUBMISSION_IP_SALT || process.env.JWT_SECRET || 'dev-mini-crm-secret');
+}
+
+export function hashIp(ip: string | undefined): string | undefined {
+  if (!ip) return undefined;
+  return crypto.createHash('sha256').update(`${getIpHashSalt()}:${ip}`).digest('hex');
+}
+
+/** Request metadata stored with a submission (IP is hashed, never stored raw). */
+export function getSubmissionMeta(req: any): SubmissionMeta {
+  return {
+    origin: sanitizeText(req.header('Origin'), 255),
+    referer: sanitizeText(req.header('Referer'), 1000),
+    userAgent: sanitizeText(req.header('User-Agent'), 500),
+    ipHash: hashIp(req.ip),
+  };
+}
+
+export type RecordSubmissionInput = {
+  projectId: number;
+  publicFormId: number;
+  publicFormRevisionId?: number | null;
+  caseId?: number | null;
+  contactId?: number | null;
+  transactionId?: number | null;
+  payload: Record<string, any>;
+  meta: SubmissionMeta;
+  clientRequestId?: string | null;
+};
+
+/**
+ * Persist a public form submission. Call inside the same DB transaction
+ * that creates the Case so both are stored (or rolled back) together.
+ */
+export async function recordSubmission(db: DbClient, input: RecordSubmissionInput) {
+  return db.submission.create({
+    data: {
+      projectId: input.projectId,
+      publicFormId: input.publicFormId,
+      publicFormRevisionId: input.publicFormRevisionId ?? null,
+      caseId: input.caseId ?? null,
+      contactId: input.contactId ?? null,
+      transactionId: input.transactionId ?? null,
+      payload: input.payload,
+      origin: input.meta.origin ?? null,
+      referer: input.meta.referer ?? null,
+      userAgent: input.meta.userAgent ?? null,
+      ipHash: input.meta.ipHash ?? null,
+      clientRequestId: input.clientRequestId ?? null,
+    },
+  });
+}
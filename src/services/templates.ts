@@ -0,0 +1,92 @@
+// ---------- Text templates ----------
+// Minimal "{{ name }}" substitution used by notification emails.
+// Dotted paths ("fields.email") read nested values; unknown or empty values render as "".
+// "{{#path}}...{{/path}}" renders its content only when the value is filled.
+
+const PLACEHOLDER_RE = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z0-9_]+)*)\s*\}\}/g;
+
+function formatTemplateValue(v: any): string {
+  if (v === undefined || v === null) return '';
+  if (typeof v === 'boolean') return v ? 'так' : 'ні';
+  if (Array.isArray(v)) return v.map(formatTemplateValue).join(', ');
+  if (v instanceof Date) return v.toISOString();
+  if (typeof v === 'object') return '';
+  return String(v);
+}
+
+const SECTION_RE = /\{\{#\s*([A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z0-9_]+)*)\s*\}\}([\s\S]*?)\{\{\/\s*\1\s*\}\}/g;
+
+function isFilled(v: any): boolean {
+  if (v === undefined || v === null || v === false) return false;
+  if (typeof v === 'string') return v.trim() !== '';
+  if (Array.isArray(v)) return v.length > 0;
+  return true;
+}
+
+export function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export type RenderTemplateOptions = {
+  /** Applied to every substituted value (e.g. escapeHtml for HTML bodies). */
+  escape?: (value: string) => string;
+  /** Drop lines whose placeholders all render empty ("Телефон: {{contact.phone}}" without a phone). */
+  dropEmptyLines?: boolean;
+};
+
+function readPath(vars: Record<string, any>, path: string): any {
+  let cur: any = vars;
+  for (const key of path.split('.')) {
+    if (cur === undefined || cur === null || typeof cur !== 'object') return undefined;
+    cur = Object.prototype.hasOwnProperty.call(cur, key) ? cur[key] : undefined;
+  }
+  return cur;
+}
+
+export function renderTemplate(
+  template: string,
+  vars: Record<string, any>,
+  options: RenderTemplateOptions = {}
+): string {
+  const escape = options.escape || ((v: string) => v);
+  const substitute = (line: string) =>
+    line.replace(PLACEHOLDER_RE, (_m, path: string) => escape(formatTemplateValue(readPath(vars, path))));
+
+  // Sections first; repeated so nested sections (with different names) are resolved too.
+  let src = String(template || '');
+  for (let i = 0; i < 10; i++) {
+    const next = src.replace(SECTION_RE, (_m, path: string, body: string) => (isFilled(readPath(vars, path)) ? body : ''));
+    if (next === src) break;
+    src = next;
+  }
+
+  if (!options.dropEmptyLines) return substitute(src);
+
+  const out: string[] = [];
+  for (const line of src.split('\n')) {
+    const paths = Array.from(line.matchAll(PLACEHOLDER_RE), (m) => m[1]);
+    if (paths.length > 0 && paths.every((p) => formatTemplateValue(readPath(vars, p)) === '')) continue;
+    out.push(substitute(line));
+  }
+  return out.join('\n');
+}
+
+/** Placeholder and section paths used in a template, in order of first appearance. */
+export function listTemplateVariables(template: string): string[] {
+  const out: string[] = [];
+  const re = /\{\{\s*[#/]?\s*([A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z0-9_]+)*)\s*\}\}/g;
+  for (const m of String(template || '').matchAll(re)) {
+    if (!out.includes(m[1])) out.push(m[1]);
+  }
+  return out;
+}
+
+/** Email subjects must be a single line. */
+export function toSubjectLine(s: string, maxLen = 255): string {
+  return s.replace(/[\r\n]+/g, ' ').trim().slice(0, maxLen);
+}
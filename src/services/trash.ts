@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import prisma from '../db/client';
+import { createPollingWorker } from './pollingWorker';
+
+// ---------- Trash (soft delete) ----------
+// DELETE on contacts, cases and transactions only sets `deletedAt`. Trashed rows are hidden from
+// lists and lookups, can be listed and restored (GET /<resource>/trash, POST /<resource>/:id/restore)
+// and are purged for good TRASH_RETENTION_DAYS after deletion by the worker below.
+//
+// Related records: trashing a contact or a transaction leaves everything linked to it as is; a
+// trashed case hides its tasks and releases its booking slot (see releaseCaseBooking). On purge the database unlinks (SET NULL) cases, transactions,
+// submissions and bookings that still point at the row, and deletes the tasks of a purged case.
+
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS || 30);
+const RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+const WORKER_INTERVAL_MS = Number(process.env.TRASH_PURGE_WORKER_INTERVAL_MS || 60 * 60 * 1000);
+const BATCH_SIZE = 100;
+
+export const listTrashQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  // Id of the last item from the previous page (results are newest first).
+  cursor: z.coerce.number().int().positive().optional(),
+});
+
+/** Adds `purgeAt` (when the trashed row will be deleted permanently) to a trash list item. */
+export function withPurgeAt<T extends { deletedAt: Date | null }>(item: T): T & { purgeAt: Date | null } {
+  return {
+    ...item,
+    purgeAt: item.deletedAt ? new Date(item.deletedAt.getTime() + RETENTION_MS) : null,
+  };
+}
+
+/** Permanently deletes trashed rows past the retention period; returns how many were removed. */
+export async function purgeExpiredTrash(): Promise<number> {
+  const expired = { deletedAt: { lt: new Date(Date.now() - RETENTION_MS) } };
+
+  // Transactions and cases first, so a purged contact is unlinked from nothing that is purged too.
+  const transactions = await prisma.transaction.findMany({ where: expired, select: { id: true }, take: BATCH_SIZE });
+  const purgedTransactions = await prisma.transaction.deleteMany({
+    where: { ...expired, id: { in: transactions.map((t) => t.id) } },
+  });
+
+  const cases = await prisma.case.findMany({ where: expired, select: { id: true }, take: BATCH_SIZE });
+  // Bookings released when their case was trashed will not come back.
+  await prisma.booking.updateMany({
+    where: { caseId: { in: cases.map((c) => c.id) }, status: 'released' },
+    data: { status: 'cancelled' },
+  });
+  const purgedCases = await prisma.case.deleteMany({
+    where: { ...expired, id: { in: cases.map((c) => c.id) } },
+  });
+
+  const contacts = await prisma.contact.findMany({ where: expired, select: { id: true }, take: BATCH_SIZE });
+  const purgedContacts = await prisma.contact.deleteMany({
+    where: { ...expired, id: { in: contacts.map((c) => c.id) } },
+  });
+
+  return Math.max(purgedTransactions.count, purgedCases.count, purgedContacts.count);
+}
+
+// ---------- Worker ----------
+
+const worker = createPollingWorker({
+  name: 'Trash purge',
+  intervalMs: WORKER_INTERVAL_MS,
+  batchSize: BATCH_SIZE,
+  enabledEnv: 'TRASH_PURGE_WORKER_ENABLED',
+  processBatch: purgeExpiredTrash,
+});
+
+/**
+ * Starts the hourly purge (once per process).
+ * Disable with TRASH_PURGE_WORKER_ENABLED=false, e.g. when another instance runs it.
+ */
+export function startTrashPurgeWorker(): void {
+  worker.start();
+}
@@ -0,0 +1,184 @@
+import crypto from 'crypto';
+import { Prisma, PrismaClient } from '../generated/prisma/client';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// ---------- TOTP two-factor authentication ----------
+// RFC 6238 codes (SHA-1, 6 digits, 30 s steps) compatible with Google Authenticator, Authy, 1Password etc.
+// Enrollment stores the secret on the user (User.totpSecret) and activates it only after the first
+// valid code (User.totpEnabledAt). Each accepted time step is remembered (totpLastUsedStep) so a
+// code cannot be replayed. Recovery codes are single-use; only their hashes are stored.
+
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+/** Accept the previous/next step too, to tolerate clock drift between server and phone. */
+const TOTP_WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+/** Roles that a project can force to use 2FA (config.security.requireTwoFactor). */
+export const TWO_FACTOR_ENFORCED_ROLES = ['owner', 'admin'];
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/** otpauth:// provisioning URI for authenticator apps (clients render it as a QR code). */
+export function buildOtpauthUrl(secret: string, accountName: string): string {
+  const issuer = (process.env.TOTP_ISSUER || 'Mini CRM').trim();
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+function generateTotp(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return String(binary).padStart(TOTP_DIGITS, '0');
+}
+
+/** Time step matched by `code`, or null. Steps at or before `lastUsedStep` are rejected (replay). */
+export function matchTotpStep(secret: string, code: string, lastUsedStep: number | null): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+  for (let step = currentStep - TOTP_WINDOW; step <= currentStep + TOTP_WINDOW; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    const expected = generateTotp(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks a TOTP code against the user's stored secret and records the step atomically, so two
+ * concurrent requests cannot both use the same code.
+ */
+export async function consumeTotpCode(db: DbClient, userId: number, code: string): Promise<boolean> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { totpSecret: true, totpLastUsedStep: true },
+  });
+  if (!user?.totpSecret) return false;
+
+  const step = matchTotpStep(user.totpSecret, code, user.totpLastUsedStep);
+  if (step === null) return false;
+
+  const claim = await db.user.updateMany({
+    where: {
+      id: userId,
+      OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+    },
+    data: { totpLastUsedStep: step },
+  });
+  return claim.count > 0;
+}
+
+// ---------- Recovery codes ----------
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+/** Replaces the user's recovery codes; the plain codes are returned only here. */
+export async function generateRecoveryCodes(db: DbClient, userId: number): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await db.userRecoveryCode.deleteMany({ where: { userId } });
+  await db.userRecoveryCode.createMany({
+    data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+  });
+
+  return codes;
+}
+
+export async function consumeRecoveryCode(db: DbClient, userId: number, code: string): Promise<boolean> {
+  const claim = await db.userRecoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return claim.count > 0;
+}
+
+export async function countRemainingRecoveryCodes(db: DbClient, userId: number): Promise<number> {
+  return db.userRecoveryCode.count({ where: { userId, usedAt: null } });
+}
+
+export type SecondFactorInput = { code?: string; recoveryCode?: string };
+
+/** Verifies either a TOTP code or a recovery code (each is single-use). */
+export async function verifySecondFactor(
+  db: DbClient,
+  userId: number,
+  input: SecondFactorInput
+): Promise<{ ok: true; method: 'totp' | 'recovery_code' } | { ok: false }> {
+  if (input.code && (await consumeTotpCode(db, userId, input.code))) {
+    return { ok: true, method: 'totp' };
+  }
+  if (input.recoveryCode && (await consumeRecoveryCode(db, userId, input.recoveryCode))) {
+    return { ok: true, method: 'recovery_code' };
+  }
+  return { ok: false };
+}
+
+/** Whether the project forces this membership role to have 2FA enabled. */
+export function isTwoFactorRequired(projectConfig: unknown, role: string): boolean {
+  const security = (projectConfig as any)?.security;
+  return !!security?.requireTwoFactor && TWO_FACTOR_ENFORCED_ROLES.includes(role);
+}
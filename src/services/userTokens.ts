@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import { Prisma, PrismaClient } from '../generated/prisma/client';
+import { deliverNotificationMail } from './mailer';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// ---------- Emailed single-use tokens ----------
+// Password reset and email change confirmation. The plain token only travels by email; the DB
+// keeps its SHA-256 hash. Issuing a new token invalidates older unused ones of the same purpose.
+// Account emails are not project-scoped, so they are sent directly (one attempt) instead of
+// through the notification outbox; the user can simply request a new one.
+
+export type UserTokenPurpose = 'password_reset' | 'email_change';
+
+const TOKEN_TTL_MS: Record<UserTokenPurpose, number> = {
+  password_reset: 60 * 60 * 1000,
+  email_change: 24 * 60 * 60 * 1000,
+};
+
+/** Password reset emails per account: at most one per cooldown and RESET_HOURLY_LIMIT per hour. */
+const RESET_COOLDOWN_MS = Number(process.env.PASSWORD_RESET_COOLDOWN_SECONDS || 60) * 1000;
+const RESET_HOURLY_LIMIT = Number(process.env.PASSWORD_RESET_HOURLY_LIMIT || 5);
+
+function hashUserToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export async function issueUserToken(
+  db: DbClient,
+  userId: number,
+  purpose: UserTokenPurpose,
+  options: { newEmail?: string } = {}
+): Promise<{ token: string; expiresAt: Date }> {
+  await revokeUserTokens(db, userId, purpose);
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + TOKEN_TTL_MS[purpose]);
+  await db.userToken.create({
+    data: {
+      userId,
+      purpose,
+      tokenHash: hashUserToken(token),
+      newEmail: options.newEmail ?? null,
+      expiresAt,
+    },
+  });
+
+  return { token, expiresAt };
+}
+
+/**
+ * Whether another password reset email may go to this account now (see RESET_COOLDOWN_MS).
+ * Counts issued tokens, including ones already used or replaced.
+ */
+export async function canSendPasswordReset(db: DbClient, userId: number): Promise<boolean> {
+  const now = Date.now();
+  const recent = await db.userToken.findMany({
+    where: { userId, purpose: 'password_reset', createdAt: { gt: new Date(now - 60 * 60 * 1000) } },
+    select: { createdAt: true },
+    orderBy: { createdAt: 'desc' },
+  });
+  if (recent.length >= RESET_HOURLY_LIMIT) return false;
+  return !recent[0] || now - recent[0].createdAt.getTime() >= RESET_COOLDOWN_MS;
+}
+
+/** Atomically marks a valid token as used; returns null for unknown, used or expired tokens. */
+export async function consumeUserToken(db: DbClient, token: string, purpose: UserTokenPurpose) {
+  const now = new Date();
+  const tokenHash = hashUserToken(token);
+
+  const claim = await db.userToken.updateMany({
+    where: { tokenHash, purpose, usedAt: null, expiresAt: { gt: now } },
+    data: { usedAt: now },
+  });
+  if (claim.count === 0) return null;
+
+  return db.userToken.findUnique({ where: { tokenHash } });
+}
+
+/** Invalidates unused tokens of a user (all purposes when omitted). */
+export async function revokeUserTokens(db: DbClient, userId: number, purpose?: UserTokenPurpose): Promise<void> {
+  await db.userToken.updateMany({
+    where: { userId, usedAt: null, ...(purpose ? { purpose } : {}) },
+    data: { usedAt: new Date() },
+  });
+}
+
+// ---------- Account emails ----------
+
+/** Admin UI link for a token action; without APP_BASE_URL the email carries the bare token. */
+function buildAccountLink(param: string, token: string): string {
+  const base = (process.env.APP_BASE_URL || '').trim().replace(/\/+$/, '');
+  if (!base) return '';
+  return `${base}/admin/?${param}=${encodeURIComponent(token)}`;
+}
+
+function sendAccountMail(to: string, subject: string, lines: string[]): void {
+  void deliverNotificationMail({
+    kind: 'account',
+    to: [to],
+    subject,
+    text: lines.join('\n'),
+  }).then((result) => {
+    if (!result.ok) console.error(`Failed to send account email "${subject}"`, result.error);
+  });
+}
+
+export function sendPasswordResetEmail(to: string, token: string, expiresAt: Date): void {
+  const link = buildAccountLink('reset', token);
+  sendAccountMail(to, 'Відновлення пароля — Mini CRM', [
+    'Ви (або хтось інший) запросили скидання пароля.',
+    link ? `Щоб встановити новий пароль, перейдіть за посиланням: ${link}` : `Код для скидання пароля: ${token}`,
+    `Посилання дійсне до ${expiresAt.toISOString()} і може бути використане один раз.`,
+    '',
+    'Якщо ви не запитували скидання, просто проігноруйте цей лист.',
+  ]);
+}
+
+export function sendEmailChangeConfirmation(to: string, token: string, expiresAt: Date): void {
+  const link = buildAccountLink('confirm-email', token);
+  sendAccountMail(to, 'Підтвердіть нову адресу email — Mini CRM', [
+    'Цю адресу вказано як новий email облікового запису Mini CRM.',
+    link ? `Щоб підтвердити зміну, перейдіть за посиланням: ${link}` : `Код підтвердження: ${token}`,
+    `Посилання дійсне до ${expiresAt.toISOString()}.`,
+    '',
+    'Якщо це були не ви, проігноруйте цей лист — email не зміниться.',
+  ]);
+}
+
+export function sendEmailChangedNotice(to: string, newEmail: string): void {
+  sendAccountMail(to, 'Email облікового запису змінено — Mini CRM', [
+    `Email вашого облікового запису Mini CRM змінено на ${newEmail}.`,
+    'Якщо це були не ви, негайно зверніться до власника проєкту.',
+  ]);
+}
+
+export function sendAccountLockedNotice(to: string, details: { lockedUntil: Date; ip: string | null }): void {
+  const lines = [
+    'Через багато невдалих спроб входу вхід до вашого облікового запису Mini CRM тимчасово заблоковано.',
+    `Блокування діє до ${details.lockedUntil.toISOString()}.`,
+  ];
+  if (details.ip) lines.push(`Остання невдала спроба — з IP ${details.ip}.`);
+  lines.push(
+    '',
+    'Якщо це були не ви, після розблокування змініть пароль (або скористайтеся «Забули пароль?»)',
+    'і увімкніть двофакторну автентифікацію.'
+  );
+  sendAccountMail(to, 'Вхід тимчасово заблоковано — Mini CRM', lines);
+}
@@ -0,0 +1,357 @@
+import crypto from 'crypto';
+import prisma from '../db/client';
+import { Prisma, PrismaClient } from '../generated/prisma/client';
+import { createPollingWorker, exponentialBackoffMs } from './pollingWorker';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// ---------- Outgoing webhooks ----------
+// Events are written as WebhookDelivery rows (one per subscribed endpoint) in the same
+// transaction as the change that produced them, then POSTed by a background worker:
+//
+//   POST <endpoint.url>
+//   Content-Type: application/json
+//   X-Webhook-Id: <eventId>            (same across retries; use it to deduplicate)
+//   X-Webhook-Event: case.created
+//   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256(secret, "<t>.<raw body>")>
+//
+//   { "id": "<eventId>", "event": "case.created", "createdAt": "...", "projectId": 1, "data": { ... } }
+//
+// Any 2xx response is a success. Network errors, timeouts, 408, 429 and 5xx are retried with
+// exponential backoff (1m, 2m, 4m ... capped at 6h) up to maxAttempts; other 4xx fail at once.
+
+export const WEBHOOK_EVENTS = [
+  'case.created',
+  'case.updated',
+  'contact.created',
+  'transaction.created',
+  'submission.received',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/** Sent only by POST /webhooks/:id/test; endpoints do not need to subscribe to it. */
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'sending', 'delivered', 'failed'];
+
+const RETRY_BASE_MS = Number(process.env.WEBHOOK_RETRY_BASE_MS || 60 * 1000);
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+const WORKER_INTERVAL_MS = Number(process.env.WEBHOOK_WORKER_INTERVAL_MS || 5000);
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const BATCH_SIZE = 20;
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/** Value of the X-Webhook-Signature header for a raw JSON body. */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/** Secrets are shown in full only on create / rotate. */
+export function maskWebhookSecret(secret: string): string {
+  return secret.length > 12 ? `${secret.slice(0, 10)}…${secret.slice(-4)}` : '…';
+}
+
+export function isWebhookUrl(value: string): boolean {
+  try {
+    const u = new URL(value);
+    return u.protocol === 'https:' || u.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/** Prisma rows -> plain JSON (Dates as ISO strings, Decimals as strings). */
+function toJsonValue(data: unknown): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(data ?? null));
+}
+
+export type WebhookEventInput = { event: WebhookEvent; data: unknown };
+
+function buildEventPayload(event: string, projectId: number, data: unknown) {
+  const eventId = `evt_${crypto.randomUUID()}`;
+  const payload = toJsonValue({ id: eventId, event, createdAt: new Date().toISOString(), projectId, data });
+  return { eventId, payload };
+}
+
+/**
+ * Enqueues deliveries of the given events to every active endpoint of the project subscribed
+ * to them. Pass the transaction client so deliveries commit together with the change.
+ * Returns the number of created deliveries.
+ */
+export async function emitWebhookEvents(
+  db: DbClient,
+  projectId: number,
+  events: WebhookEventInput[]
+): Promise<number> {
+  if (events.length === 0) return 0;
+
+  const endpoints = await db.webhookEndpoint.findMany({
+    where: { projectId, isActive: true },
+    select: { id: true, events: true },
+  });
+  if (endpoints.length === 0) return 0;
+
+  const rows: Prisma.WebhookDeliveryCreateManyInput[] = [];
+  for (const e of events) {
+    const { eventId, payload } = buildEventPayload(e.event, projectId, e.data);
+
+    for (const endpoint of endpoints) {
+      if (!endpoint.events.includes('*') && !endpoint.events.includes(e.event)) continue;
+      rows.push({ projectId, endpointId: endpoint.id, event: e.event, eventId, payload });
+    }
+  }
+
+  if (rows.length === 0) return 0;
+  const created = await db.webhookDelivery.createMany({ data: rows });
+  return created.count;
+}
+
+export function emitWebhookEvent(db: DbClient, projectId: number, event: WebhookEvent, data: unknown) {
+  return emitWebhookEvents(db, projectId, [{ event, data }]);
+}
+
+/**
+ * Events produced by one public form submission: contact.created (only for a new contact),
+ * case.created, transaction.created (if any) and submission.received.
+ */
+export function buildSubmissionWebhookEvents(input: {
+  formKey: string;
+  contact: { id: number } | null;
+  contactCreated: boolean;
+  case: { id: number };
+  transaction?: { id: number } | null;
+  submission: {
+    id: number;
+    publicFormId: number;
+    caseId: number | null;
+    contactId: number | null;
+    transactionId: number | null;
+    payload: unknown;
+    createdAt: Date;
+  };
+}): WebhookEventInput[] {
+  const events: WebhookEventInput[] = [];
+  if (input.contact && input.contactCreated) {
+    events.push({ event: 'contact.created', data: { contact: input.contact } });
+  }
+  events.push({ event: 'case.created', data: { case: input.case } });
+  if (input.transaction) {
+    events.push({ event: 'transaction.created', data: { transaction: input.transaction } });
+  }
+
+  const s = input.submission;
+  events.push({
+    event: 'submission.received',
+    data: {
+      submission: {
+        id: s.id,
+        formKey: input.formKey,
+        publicFormId: s.publicFormId,
+        caseId: s.caseId,
+        contactId: s.contactId,
+        transactionId: s.transactionId,
+        payload: s.payload,
+        createdAt: s.createdAt,
+      },
+    },
+  });
+  return events;
+}
+
+// ---------- Delivery ----------
+
+type AttemptResult = {
+  ok: boolean;
+  retryable: boolean;
+  statusCode: number | null;
+  error: string | null;
+  responseBody: string | null;
+  durationMs: number;
+};
+
+async function postWebhook(
+  url: string,
+  secret: string,
+  event: string,
+  eventId: string,
+  payload: unknown
+): Promise<AttemptResult> {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  const started = Date.now();
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'mini-crm-webhooks/1',
+        'X-Webhook-Id': eventId,
+        'X-Webhook-Event': event,
+        'X-Webhook-Signature': signWebhookPayload(secret, body, timestamp),
+      },
+      body,
+      signal: controller.signal,
+      redirect: 'manual',
+    });
+    const text = await response.text().catch(() => '');
+    const ok = response.status >= 200 && response.status < 300;
+    return {
+      ok,
+      retryable: !ok && (response.status >= 500 || response.status === 408 || response.status === 429),
+      statusCode: response.status,
+      error: ok ? null : `HTTP ${response.status}`,
+      responseBody: text ? text.slice(0, 1000) : null,
+      durationMs: Date.now() - started,
+    };
+  } catch (err: any) {
+    const error =
+      err?.name === 'AbortError'
+        ? `Timed out after ${REQUEST_TIMEOUT_MS} ms`
+        : err?.cause?.message || err?.message || String(err);
+    return { ok: false, retryable: true, statusCode: null, error, responseBody: null, durationMs: Date.now() - started };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Claims and sends one delivery, records the attempt and schedules a retry if needed.
+ * Returns false when the delivery was not pending (e.g. taken by another worker).
+ */
+export async function attemptWebhookDelivery(id: number): Promise<boolean> {
+  const claimed = await prisma.webhookDelivery.updateMany({
+    where: { id, status: 'pending' },
+    data: { status: 'sending' },
+  });
+  if (claimed.count === 0) return false;
+
+  const d = await prisma.webhookDelivery.findUnique({
+    where: { id },
+    include: { endpoint: { select: { url: true, secret: true } } },
+  });
+  if (!d) return false;
+
+  const result = await postWebhook(d.endpoint.url, d.endpoint.secret, d.event, d.eventId, d.payload);
+  const attempt = d.attempts + 1;
+  const failed = !result.ok && (!result.retryable || attempt >= d.maxAttempts);
+
+  await prisma.$transaction([
+    prisma.webhookDeliveryAttempt.create({
+      data: {
+        deliveryId: d.id,
+        attempt,
+        ok: result.ok,
+        statusCode: result.statusCode,
+        error: result.error ? result.error.slice(0, 2000) : null,
+        responseBody: result.responseBody,
+        durationMs: result.durationMs,
+      },
+    }),
+    prisma.webhookDelivery.update({
+      where: { id: d.id },
+      data: result.ok
+        ? {
+            status: 'delivered',
+            attempts: attempt,
+            lastStatusCode: result.statusCode,
+            lastError: null,
+            deliveredAt: new Date(),
+          }
+        : {
+            status: failed ? 'failed' : 'pending',
+            attempts: attempt,
+            lastStatusCode: result.statusCode,
+            lastError: result.error ? result.error.slice(0, 2000) : null,
+            nextAttemptAt: new Date(Date.now() + exponentialBackoffMs(attempt, RETRY_BASE_MS, RETRY_MAX_MS)),
+          },
+    }),
+  ]);
+
+  return true;
+}
+
+/**
+ * Sends a webhook.test event to one endpoint right away (no retries) and returns the
+ * delivery with its attempt, so the caller sees the receiver's response.
+ */
+export async function sendWebhookTestEvent(projectId: number, endpointId: number) {
+  const { eventId, payload } = buildEventPayload(WEBHOOK_TEST_EVENT, projectId, {
+    message: 'This is a test event from mini-crm.',
+    endpointId,
+  });
+
+  const delivery = await prisma.webhookDelivery.create({
+    data: { projectId, endpointId, event: WEBHOOK_TEST_EVENT, eventId, payload, maxAttempts: 1 },
+    select: { id: true },
+  });
+  await attemptWebhookDelivery(delivery.id);
+
+  return prisma.webhookDelivery.findUnique({
+    where: { id: delivery.id },
+    include: { attemptLog: { orderBy: { attempt: 'asc' } } },
+  });
+}
+
+/** Puts a finished (delivered or failed) delivery back into the queue with a fresh attempt budget. */
+export async function requeueWebhookDelivery(projectId: number, id: number): Promise<boolean> {
+  const result = await prisma.webhookDelivery.updateMany({
+    where: { id, projectId, status: { in: ['delivered', 'failed'] } },
+    data: { status: 'pending', attempts: 0, nextAttemptAt: new Date() },
+  });
+  if (result.count > 0) kickWebhookWorker();
+  return result.count > 0;
+}
+
+/** Sends due deliveries (one batch). Returns the number of processed rows. */
+export async function processWebhookDeliveries(): Promise<number> {
+  await prisma.webhookDelivery.updateMany({
+    where: { status: 'sending', updatedAt: { lt: new Date(Date.now() - STALE_SENDING_MS) } },
+    data: { status: 'pending' },
+  });
+
+  const due = await prisma.webhookDelivery.findMany({
+    where: { status: 'pending', nextAttemptAt: { lte: new Date() } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: BATCH_SIZE,
+    select: { id: true },
+  });
+
+  let processed = 0;
+  for (const row of due) {
+    try {
+      if (await attemptWebhookDelivery(row.id)) processed += 1;
+    } catch (e) {
+      console.error('Webhooks: failed to process delivery', row.id, e);
+    }
+  }
+  return processed;
+}
+
+// ---------- Worker ----------
+
+const worker = createPollingWorker({
+  name: 'Webhook delivery',
+  intervalMs: WORKER_INTERVAL_MS,
+  batchSize: BATCH_SIZE,
+  enabledEnv: 'WEBHOOK_WORKER_ENABLED',
+  processBatch: processWebhookDeliveries,
+});
+
+/** Starts the polling worker (once per process). Disable with WEBHOOK_WORKER_ENABLED=false. */
+export function startWebhookWorker(): void {
+  worker.start();
+}
+
+/** Asks the worker to run now (call after the emitting transaction has committed). */
+export function kickWebhookWorker(): void {
+  worker.kick();
+}
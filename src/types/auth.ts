@@ -5,6 +5,20 @@ export interface AuthUser {
   email: string;
   role: string;
   projectId: number;
+  /** Permissions granted by the membership role (see services/permissions). */
+  permissions: string[];
+  /** Project-defined role of the membership, if any (role is then "viewer"). */
+  customRole?: { id: number; name: string } | null;
+  /**
+   * The project requires 2FA for this role but the account has not enabled it: only /auth routes and
+   * project switching work until it does (requirePermission answers 403).
+   */
+  twoFactorSetupRequired?: boolean;
+  /** Login session of the access token (absent for API keys and pre-session tokens). */
+  sessionId?: number;
+  /** Set when the request is authenticated with a project API key (id is 0 then). */
+  apiKeyId?: number;
+  scopes?: string[];
 }
 
 export interface AuthRequest extends Request {
@@ -0,0 +1,90 @@
+export type CsvRecord = {
+  /** Line of the file where the record starts (1-based; quoted line breaks count). */
+  line: number;
+  fields: string[];
+};
+
+/**
+ * Minimal CSV reader (RFC 4180): quoted fields, doubled quotes ("") inside quotes, line breaks
+ * inside quoted fields, CRLF/LF line endings and a leading UTF-8 BOM. Blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter = ','): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') records.push({ line: rowLine, fields: row });
+    row = [];
+    field = '';
+  };
+  const nextLine = () => {
+    line++;
+    rowLine = line;
+  };
+
+  for (; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch !== '"') {
+        field += ch;
+        if (ch === '\n' || (ch === '\r' && text[i + 1] !== '\n')) line++;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else inQuotes = false;
+      continue;
+    }
+
+    if (ch === '"' && field === '') inQuotes = true;
+    else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n') {
+      endRow();
+      nextLine();
+    } else if (ch === '\r') {
+      if (text[i + 1] === '\n') i++;
+      endRow();
+      nextLine();
+    } else field += ch;
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return records;
+}
+
+/**
+ * Guesses the delimiter from the header line: spreadsheets with a comma as the decimal
+ * separator export ";" (or tabs) instead of ",".
+ */
+export function detectCsvDelimiter(text: string): ',' | ';' | '\t' {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = ([',', ';', '\t'] as const).map((d) => [d, firstLine.split(d).length - 1] as const);
+  return counts.reduce((best, c) => (c[1] > best[1] ? c : best))[0];
+}
+
+/** Leading characters that make spreadsheet apps evaluate a cell as a formula. */
+const FORMULA_START_RE = /^[=+\-@\t\r]/;
+/** Phone numbers and plain numbers ("+380 (50) 123-45-67", "-12.5") are left as they are. */
+const NUMBER_LIKE_RE = /^[+-]?[\d\s().-]+$/;
+
+/**
+ * One CSV line (without line break). Fields are quoted when needed; any other value starting like
+ * a formula gets a leading apostrophe, so a spreadsheet shows it as text ("+1+cmd|…" included).
+ */
+export function toCsvLine(values: Array<string | number | null | undefined>, delimiter = ','): string {
+  return values
+    .map((value) => {
+      let v = value == null ? '' : String(value);
+      if (FORMULA_START_RE.test(v) && !NUMBER_LIKE_RE.test(v)) v = `'${v}`;
+      return v.includes(delimiter) || /["\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+    })
+    .join(delimiter);
+}